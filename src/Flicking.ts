@@ -6,16 +6,21 @@ import Component, { ComponentEvent } from "@egjs/component";
 
 import FlickingError from "./core/FlickingError";
 import Viewport from "./core/Viewport";
-import { Panel } from "./core/panel";
+import Accessibility from "./core/Accessibility";
+import DataSourceLoader, { DataSource } from "./core/DataSourceLoader";
+import { Panel, VirtualPanel } from "./core/panel";
 import { Control, FreeControl, SnapControl } from "./control";
+import { SnapControlOptions } from "./control/SnapControl";
+import { FreeControlOptions } from "./control/FreeControl";
 import { BoundCamera, Camera, CircularCamera, LinearCamera } from "./camera";
-import { Renderer, VanillaRenderer, ExternalRenderer, RawRenderingStrategy, VisibleRenderingStrategy } from "./renderer";
-import { EVENTS, ALIGN, MOVE_TYPE, DIRECTION } from "./const/external";
+import { Renderer, VanillaRenderer, ExternalRenderer, VirtualRenderer, VirtualRendererOptions, RawRenderingStrategy, VisibleRenderingStrategy } from "./renderer";
+import RenderingStrategy from "./renderer/RenderingStrategy/RenderingStrategy";
+import { EVENTS, ALIGN, MOVE_TYPE, DIRECTION, STATUS_VERSION, ANIMATION_POLICY } from "./const/external";
 import * as ERROR from "./const/error";
-import { findIndex, getElement, includes, parseElement } from "./utils";
-import { HoldStartEvent, HoldEndEvent, MoveStartEvent, SelectEvent, MoveEvent, MoveEndEvent, WillChangeEvent, WillRestoreEvent, NeedPanelEvent, VisibleChangeEvent, ReachEdgeEvent, ReadyEvent, AfterResizeEvent, BeforeResizeEvent, ChangedEvent, RestoredEvent } from "./type/event";
+import { addClass, findIndex, getElement, includes, isFiniteNumber, isInteger, parseElement, removeClass } from "./utils";
+import { HoldStartEvent, HoldEndEvent, MoveStartEvent, SelectEvent, MoveEvent, MoveEndEvent, WillChangeEvent, WillRestoreEvent, NeedPanelEvent, VisibleChangeEvent, ReachEdgeEvent, ReadyEvent, AfterResizeEvent, BeforeResizeEvent, ChangedEvent, RestoredEvent, BreakpointChangeEvent, PanelChangeEvent } from "./type/event";
 import { LiteralUnion, ValueOf } from "./type/internal";
-import { ElementLike, Plugin, Status, MoveTypeOptions } from "./type/external";
+import { ElementLike, Plugin, Status, MoveTypeOptions, MoveOptions } from "./type/external";
 
 /**
  * @interface
@@ -37,6 +42,8 @@ export interface FlickingEvents {
   [EVENTS.NEED_PANEL]: NeedPanelEvent;
   [EVENTS.VISIBLE_CHANGE]: VisibleChangeEvent;
   [EVENTS.REACH_EDGE]: ReachEdgeEvent;
+  [EVENTS.BREAKPOINT_CHANGE]: BreakpointChangeEvent;
+  [EVENTS.PANEL_CHANGE]: PanelChangeEvent;
 }
 
 /**
@@ -47,17 +54,26 @@ export interface FlickingOptions {
   align: LiteralUnion<ValueOf<typeof ALIGN>> | number | { panel: number | string; camera: number | string };
   defaultIndex: number;
   horizontal: boolean;
+  rtl: boolean | "auto";
   circular: boolean;
   bound: boolean;
   adaptive: boolean;
+  panelsPerView: number;
+  gap: number;
+  panelsPerPage: number | "auto";
+  fade: boolean;
+  breakpoints: { [width: number]: Partial<Omit<FlickingOptions, "breakpoints" | "autoInit" | "renderExternal" | "virtual" | "dataSource">> };
   // EVENT
   needPanelThreshold: number;
+  dataSource: DataSource | null;
   // ANIMATION
   deceleration: number;
   duration: number;
   easing: (x: number) => number;
+  animationPolicy: ValueOf<typeof ANIMATION_POLICY>;
   // INPUT
   inputType: string[];
+  wheelCrossAxis: boolean;
   moveType: ValueOf<typeof MOVE_TYPE> | MoveTypeOptions<ValueOf<typeof MOVE_TYPE>>;
   threshold: number;
   interruptable: boolean;
@@ -67,9 +83,11 @@ export interface FlickingOptions {
   disableOnInit: boolean;
   // PERFORMANCE
   renderOnlyVisible: boolean;
+  virtual: Partial<Omit<VirtualRendererOptions, "align" | "strategy">> | null;
   // OTHERS
   autoInit: boolean;
   autoResize: boolean;
+  accessibility: boolean;
   renderExternal: {
     renderer: typeof ExternalRenderer;
     rendererOptions: {[key: string]: any};
@@ -100,19 +118,30 @@ class Flicking extends Component<FlickingEvents> {
   private _camera: Camera;
   private _control: Control;
   private _renderer: Renderer;
+  private _accessibilityManager: Accessibility;
+  private _dataSourceLoader: DataSourceLoader;
 
   // Options
   private _align: FlickingOptions["align"];
   private _defaultIndex: FlickingOptions["defaultIndex"];
   private _horizontal: FlickingOptions["horizontal"];
+  private _rtl: FlickingOptions["rtl"];
   private _circular: FlickingOptions["circular"];
   private _bound: FlickingOptions["bound"];
   private _adaptive: FlickingOptions["adaptive"];
+  private _panelsPerView: FlickingOptions["panelsPerView"];
+  private _gap: FlickingOptions["gap"];
+  private _panelsPerPage: FlickingOptions["panelsPerPage"];
+  private _fade: FlickingOptions["fade"];
+  private _breakpoints: FlickingOptions["breakpoints"];
   private _needPanelThreshold: FlickingOptions["needPanelThreshold"];
+  private _dataSource: FlickingOptions["dataSource"];
   private _deceleration: FlickingOptions["deceleration"];
   private _duration: FlickingOptions["duration"];
   private _easing: FlickingOptions["easing"];
+  private _animationPolicy: FlickingOptions["animationPolicy"];
   private _inputType: FlickingOptions["inputType"];
+  private _wheelCrossAxis: FlickingOptions["wheelCrossAxis"];
   private _moveType: FlickingOptions["moveType"];
   private _threshold: FlickingOptions["threshold"];
   private _interruptable: FlickingOptions["interruptable"];
@@ -121,13 +150,20 @@ class Flicking extends Component<FlickingEvents> {
   private _preventClickOnDrag: FlickingOptions["preventClickOnDrag"];
   private _disableOnInit: FlickingOptions["disableOnInit"];
   private _renderOnlyVisible: FlickingOptions["renderOnlyVisible"];
+  private _virtual: FlickingOptions["virtual"];
   private _autoResize: FlickingOptions["autoResize"];
+  private _accessibility: FlickingOptions["accessibility"];
   private _autoInit: FlickingOptions["autoInit"];
   private _renderExternal: FlickingOptions["renderExternal"];
 
   // Internal State
   private _initialized: boolean;
   private _plugins: Plugin[];
+  private _breakpoint: number | null;
+  private _breakpointDefaults: FlickingOptions["breakpoints"][number];
+  private _applyingBreakpoint: boolean;
+  private _moveQueue: Promise<void>;
+  private _queuedMoves: Array<(err: FlickingError) => void>;
 
   // Components
   /**
@@ -162,6 +198,7 @@ class Flicking extends Component<FlickingEvents> {
    * @see Renderer
    * @see VanillaRenderer
    * @see ExternalRenderer
+   * @see VirtualRenderer
    */
   public get renderer() { return this._renderer; }
   /**
@@ -172,6 +209,14 @@ class Flicking extends Component<FlickingEvents> {
    * @see Viewport
    */
   public get viewport() { return this._viewport; }
+  /**
+   * A component that loads panels from the {@link Flicking#dataSource dataSource}
+   * @ko {@link Flicking#dataSource dataSource}로부터 패널을 불러오는 컴포넌트
+   * @type {DataSourceLoader}
+   * @readonly
+   * @see DataSourceLoader
+   */
+  public get dataSourceLoader() { return this._dataSourceLoader; }
   // Internal States
   /**
    * Whether Flicking's {@link Flicking#init init()} is called.
@@ -193,6 +238,34 @@ class Flicking extends Component<FlickingEvents> {
    * @readonly
    */
   public get circularEnabled() { return this._camera.controlParams.circular; }
+  /**
+   * Whether the panels are laid out from right to left.
+   * This is always `false` when {@link Flicking#horizontal horizontal} is `false`.
+   * @ko 패널들이 오른쪽에서 왼쪽으로 배치되었는지 여부를 나타내는 멤버 변수.
+   * {@link Flicking#horizontal horizontal}이 `false`일 경우 항상 `false`입니다.
+   * @type {boolean}
+   * @default false
+   * @readonly
+   * @see Flicking#rtl
+   */
+  public get rtlEnabled() {
+    if (!this._horizontal) return false;
+
+    return this._rtl === "auto"
+      ? this._viewport.rtl
+      : this._rtl;
+  }
+
+  /**
+   * A breakpoint of the {@link Flicking#breakpoints breakpoints} option which is currently applied.
+   * This is `null` when there's no breakpoint that matches the current viewport width.
+   * @ko 현재 적용된 {@link Flicking#breakpoints breakpoints} 옵션의 브레이크포인트.
+   * 현재 뷰포트 너비에 해당하는 브레이크포인트가 없을 경우 `null`입니다.
+   * @type {number | null}
+   * @default null
+   * @readonly
+   */
+  public get breakpoint() { return this._breakpoint; }
   /**
    * Index number of the {@link Flicking#currentPanel currentPanel}
    * @ko {@link Flicking#currentPanel currentPanel}의 인덱스 번호
@@ -305,6 +378,34 @@ class Flicking extends Component<FlickingEvents> {
    * @default true
    */
   public get horizontal() { return this._horizontal; }
+  /**
+   * Whether the panels are laid out from right to left, like in the documents with `dir="rtl"`.
+   * When it's `"auto"`, it's determined by the computed CSS `direction` of the viewport element.
+   * The position of the panels, the direction of the user input and the `direction` of the events are mirrored when it's enabled.
+   * This option is only applied when {@link Flicking#horizontal horizontal} is `true`, and the panels should be actually laid out from right to left.
+   * @ko 패널들이 `dir="rtl"` 문서에서처럼 오른쪽에서 왼쪽으로 배치되는지 여부.
+   * `"auto"`일 경우, 뷰포트 엘리먼트의 CSS `direction` 계산값에 따라 결정됩니다.
+   * 활성화될 경우 패널의 위치, 사용자 입력의 방향과 이벤트의 `direction`이 좌우 반전됩니다.
+   * 이 옵션은 {@link Flicking#horizontal horizontal}이 `true`일 때만 적용되며, 패널들이 실제로 오른쪽에서 왼쪽으로 배치되어 있어야 합니다.
+   * @type {boolean | "auto"}
+   * @default "auto"
+   * @see Flicking#rtlEnabled
+   * @example
+   * ```html
+   * <div class="flicking-viewport" dir="rtl">
+   *   <div class="flicking-camera">
+   *     <div class="flicking-panel">1</div>
+   *     <div class="flicking-panel">2</div>
+   *   </div>
+   * </div>
+   * ```
+   * ```ts
+   * const flicking = new Flicking(".flicking-viewport");
+   *
+   * flicking.rtlEnabled; // true
+   * ```
+   */
+  public get rtl() { return this._rtl; }
   /**
    * Enables circular(continuous loop) mode, which connects first/last panel for continuous scrolling.
    * @ko 순환 모드를 활성화합니다. 순환 모드에서는 양 끝의 패널이 서로 연결되어 끊김없는 스크롤이 가능합니다.
@@ -328,6 +429,88 @@ class Flicking extends Component<FlickingEvents> {
    * @default false
    */
   public get adaptive() { return this._adaptive; }
+  /**
+   * Number of panels to show in the viewport. It can be a fractional number like `2.5`.
+   * When it's bigger than 0, each panel's width(height when `horizontal=false`) is calculated from the viewport size and applied to the panel element, instead of measuring the size set by CSS.
+   * Setting this option to 0 or below disables it.
+   * @ko 뷰포트에 보일 패널의 개수. `2.5`와 같이 소수로 지정할 수도 있습니다.
+   * 0보다 클 경우, 각 패널의 너비(`horizontal=false`인 경우 높이)를 CSS로 지정된 크기를 측정하는 대신 뷰포트 크기로부터 계산하여 패널 엘리먼트에 적용합니다.
+   * 0 이하의 값으로 지정할 경우 이 옵션은 비활성화됩니다.
+   * @type {number}
+   * @default -1
+   * @example
+   * ```ts
+   * // Show 2 and a half panels in the viewport with 10px of gap between panels
+   * const flicking = new Flicking("#el", { panelsPerView: 2.5, gap: 10 });
+   * ```
+   */
+  public get panelsPerView() { return this._panelsPerView; }
+  /**
+   * Size of the gap between panels(px). This is only available when {@link Flicking#panelsPerView panelsPerView} is bigger than 0
+   * @ko 패널 사이의 간격(px). {@link Flicking#panelsPerView panelsPerView}가 0보다 클 경우에만 사용할 수 있습니다
+   * @type {number}
+   * @default 0
+   */
+  public get gap() { return this._gap; }
+  /**
+   * Number of panels in a single page. Panels are grouped by pages, and the first panel of each page becomes the snap point.
+   * {@link Flicking#next next()}, {@link Flicking#prev prev()} and flicking gestures move a whole page, and {@link Flicking#index index} becomes the index of the first panel of the page.
+   * If it's `"auto"`, panels are grouped by pages with the size of the viewport.
+   * Pages are aligned like the first panel of it, so using it with `align: "prev"` is recommended.
+   * @ko 한 페이지에 포함될 패널의 개수. 패널들은 페이지 단위로 묶이고, 각 페이지의 첫번째 패널이 스냅 지점이 됩니다.
+   * {@link Flicking#next next()}, {@link Flicking#prev prev()}와 사용자 입력은 한 페이지 단위로 이동하며, {@link Flicking#index index}는 페이지의 첫번째 패널의 인덱스가 됩니다.
+   * `"auto"`로 지정할 경우, 뷰포트 크기 단위로 패널들을 페이지로 묶습니다.
+   * 페이지는 페이지의 첫번째 패널과 동일하게 정렬되므로, `align: "prev"`와 함께 사용하는 것을 권장합니다.
+   * @type {number | "auto"}
+   * @default 1
+   * @example
+   * ```ts
+   * // Move 3 panels at once
+   * const flicking = new Flicking("#el", { align: "prev", panelsPerView: 3, panelsPerPage: 3 });
+   * ```
+   */
+  public get panelsPerPage() { return this._panelsPerPage; }
+  /**
+   * Stack panels on top of each other and crossfade between them instead of translating the camera.
+   * The camera position is still changed by the user input and animations, and it's mapped to the opacity of the panels.
+   * It's recommended to use it with panels of the same size as the viewport, like `panelsPerView: 1`.
+   * @ko 카메라를 이동시키는 대신, 패널들을 서로 겹쳐 쌓고 패널간에 크로스페이드 효과를 적용합니다.
+   * 카메라 위치는 여전히 사용자 입력과 애니메이션에 의해 변경되며, 패널의 불투명도로 변환됩니다.
+   * `panelsPerView: 1`과 같이 뷰포트와 크기가 같은 패널들과 함께 사용하는 것을 권장합니다.
+   * @type {boolean}
+   * @default false
+   * @example
+   * ```ts
+   * const flicking = new Flicking("#el", { fade: true, panelsPerView: 1 });
+   * ```
+   */
+  public get fade() { return this._fade; }
+  /**
+   * An object that maps the minimum viewport width(px) to the options which will be applied when the viewport width is bigger than or equal to it.
+   * The breakpoint with the largest width among the breakpoints not greater than the viewport width is applied on {@link Flicking#resize resize()}, and the options which are not specified in it are restored to their initial values.
+   * The value set to an option while no breakpoint overrides it becomes its initial value.
+   * The current panel is kept when the breakpoint changes.
+   * @ko 뷰포트의 최소 너비(px)를 키로, 뷰포트 너비가 그 이상일 때 적용할 옵션을 값으로 갖는 객체입니다.
+   * {@link Flicking#resize resize()}시에 뷰포트 너비보다 작거나 같은 브레이크포인트 중 가장 큰 브레이크포인트의 옵션이 적용되며, 해당 브레이크포인트에 지정되지 않은 옵션들은 초기값으로 복구됩니다.
+   * 옵션을 덮어쓰는 브레이크포인트가 없을 때 해당 옵션에 설정한 값은 그 옵션의 초기값이 됩니다.
+   * 브레이크포인트가 변경되어도 현재 패널은 유지됩니다.
+   * @type {object}
+   * @default {}
+   * @see Flicking#breakpointChange
+   * @example
+   * ```ts
+   * const flicking = new Flicking("#el", {
+   *   align: "center",
+   *   breakpoints: {
+   *     // Applied when the viewport width is 640px ~ 1023px
+   *     640: { align: "prev", bound: true },
+   *     // Applied when the viewport width is 1024px or larger
+   *     1024: { align: "prev", moveType: "freeScroll" }
+   *   }
+   * });
+   * ```
+   */
+  public get breakpoints() { return this._breakpoints; }
   // EVENTS
   /**
    * A Threshold from viewport edge before triggering `needPanel` event
@@ -336,6 +519,32 @@ class Flicking extends Component<FlickingEvents> {
    * @default 0
    */
   public get needPanelThreshold() { return this._needPanelThreshold; }
+  /**
+   * An async function that loads panels to add when `needPanel` event is triggered. It's called with the direction and a {@link DataSourceContext context}, and should resolve with the elements to add.
+   * A placeholder panel with the class `flicking-placeholder` is shown while loading. Resolving with an empty array means there's no more data in that direction.
+   * When it's rejected, that direction won't be loaded again until {@link DataSourceLoader#retry flicking.dataSourceLoader.retry()} is called.
+   * This can't be used on frameworks (React, Angular, Vue...).
+   * @ko `needPanel` 이벤트가 발생했을 때 추가할 패널을 불러오는 비동기 함수. 방향과 {@link DataSourceContext 컨텍스트}를 인자로 호출되며, 추가할 엘리먼트들로 resolve되어야 합니다.
+   * 불러오는 동안 `flicking-placeholder` 클래스를 가진 플레이스홀더 패널이 표시됩니다. 빈 배열로 resolve할 경우 해당 방향으로 더 이상 데이터가 없음을 의미합니다.
+   * reject될 경우, {@link DataSourceLoader#retry flicking.dataSourceLoader.retry()}가 호출되기 전까지 해당 방향의 데이터를 다시 불러오지 않습니다.
+   * 프레임워크(React, Angular, Vue...)에서는 사용할 수 없습니다.
+   * @type {function | null}
+   * @default null
+   * @readonly
+   * @example
+   * ```ts
+   * const flicking = new Flicking("#el", {
+   *   dataSource: async (direction, { panel }) => {
+   *     const res = await fetch(`/items?cursor=${panel?.element.dataset.id}&direction=${direction}`);
+   *     const items = await res.json();
+   *
+   *     // Returning an empty array will stop loading that direction
+   *     return items.map(item => `<div class="panel" data-id="${item.id}">${item.title}</div>`);
+   *   }
+   * });
+   * ```
+   */
+  public get dataSource() { return this._dataSource; }
   // ANIMATION
   /**
    * Deceleration value for panel movement animation which is triggered by user input. A higher value means a shorter animation time
@@ -359,16 +568,51 @@ class Flicking extends Component<FlickingEvents> {
    * @default 500
    */
   public get duration() { return this._duration; }
+  /**
+   * A default policy for {@link Flicking#moveTo moveTo()}, {@link Flicking#prev prev()} and {@link Flicking#next next()} called while the animation is playing
+   * @ko 애니메이션이 진행중일 때 호출된 {@link Flicking#moveTo moveTo()}, {@link Flicking#prev prev()}와 {@link Flicking#next next()}에 적용할 기본 정책
+   * @type {ANIMATION_POLICY}
+   * @default "reject"
+   * @see {@link ANIMATION_POLICY}
+   * @example
+   * ```ts
+   * const flicking = new Flicking("#el", {
+   *   // Rapid clicks on the arrow will move as many panels as clicked
+   *   animationPolicy: ANIMATION_POLICY.QUEUE
+   * });
+   *
+   * void flicking.next();
+   * void flicking.next(); // Moves to the panel 2 after reaching the panel 1
+   * ```
+   */
+  public get animationPolicy() { return this._animationPolicy; }
   // INPUT
   /**
    * Types of input devices to enable
+   * Adding `"wheel"` enables the mouse wheel & trackpad input. On the snap mode, one wheel gesture moves one panel.
    * @ko 활성화할 입력 장치 종류
+   * `"wheel"`을 추가할 경우 마우스 휠과 트랙패드 입력을 활성화합니다. snap 모드에서는 한 번의 휠 제스쳐로 한 패널씩 이동합니다.
    * @type {string[]}
    * @default ["touch", "mouse"]
    * @see {@link https://naver.github.io/egjs-axes/release/latest/doc/global.html#PanInputOption Possible values (PanInputOption#inputType)}
    * <ko>{@link https://naver.github.io/egjs-axes/release/latest/doc/global.html#PanInputOption 가능한 값들 (PanInputOption#inputType)}</ko>
+   * @example
+   * ```ts
+   * const flicking = new Flicking("#el", {
+   *   inputType: ["touch", "mouse", "wheel"]
+   * });
+   * ```
    */
   public get inputType() { return this._inputType; }
+  /**
+   * Whether to move Flicking with the wheel delta of the other axis too, when `"wheel"` is included in the {@link Flicking#inputType inputType}.
+   * If it's `false`, vertical wheel of the horizontal Flicking(or horizontal wheel of the vertical Flicking) will scroll the page instead.
+   * @ko {@link Flicking#inputType inputType}에 `"wheel"`이 포함된 경우, 다른 축의 휠 이동량으로도 Flicking을 움직일지 여부.
+   * `false`일 경우, 가로 Flicking의 세로 휠(혹은 세로 Flicking의 가로 휠)은 대신 페이지를 스크롤합니다.
+   * @type {boolean}
+   * @default false
+   */
+  public get wheelCrossAxis() { return this._wheelCrossAxis; }
   /**
    * Movement style by user input. This will change instance type of {@link Flicking#control}
    * You can use the values of the constant {@link MOVE_TYPE}
@@ -379,7 +623,7 @@ class Flicking extends Component<FlickingEvents> {
    * @example
    * |moveType|control|options|
    * |:---:|:---:|:---:|
-   * |"snap"|{@link SnapControl}||
+   * |"snap"|{@link SnapControl}|{@link SnapControlOptions}|
    * |"freeScroll"|{@link FreeControl}|{@link FreeControlOptions}|
    *
    * ```ts
@@ -398,6 +642,13 @@ class Flicking extends Component<FlickingEvents> {
    *   moveType: [MOVE_TYPE.FREE_SCROLL, { stopAtEdge: true }]
    * });
    * ```
+   *
+   * ```ts
+   * const flicking = new Flicking({
+   *   // Panels can't be passed more than one at a time with a single flick
+   *   moveType: [MOVE_TYPE.SNAP, { count: 1 }]
+   * });
+   * ```
    */
   public get moveType() { return this._moveType; }
   /**
@@ -475,6 +726,31 @@ class Flicking extends Component<FlickingEvents> {
    * @default false
    */
   public get renderOnlyVisible() { return this._renderOnlyVisible; }
+  /**
+   * Options of the {@link VirtualRenderer}. When it's given, panels will be created from the `data` instead of the panel elements inside the camera element, and only the visible panels will be rendered with a small pool of recycled elements.
+   * More data can be added with {@link Renderer#batchInsert renderer.batchInsert()}, giving data as `elements`.
+   * @ko {@link VirtualRenderer}의 옵션. 주어질 경우 카메라 엘리먼트 내부의 패널 엘리먼트 대신 `data`로부터 패널을 생성하며, 재활용되는 작은 엘리먼트 풀을 사용하여 보이는 패널들만 렌더링합니다.
+   * {@link Renderer#batchInsert renderer.batchInsert()}에 `elements`로 데이터를 전달하여 데이터를 추가할 수 있습니다.
+   * @type {Partial<VirtualRendererOptions> | null}
+   * @default null
+   * @readonly
+   * @see VirtualRenderer
+   * @example
+   * ```ts
+   * const flicking = new Flicking("#el", {
+   *   virtual: {
+   *     data: items,
+   *     panelSize: 300,
+   *     renderPanel: (el, index, item) => {
+   *       el.innerHTML = `<img src="${item.src}" />`;
+   *     }
+   *   }
+   * });
+   *
+   * flicking.renderer.batchInsert({ index: flicking.panelCount, elements: moreItems });
+   * ```
+   */
+  public get virtual() { return this._virtual; }
   // OTHERS
   /**
    * Call {@link Flicking#init init()} automatically when creating Flicking's instance
@@ -493,6 +769,17 @@ class Flicking extends Component<FlickingEvents> {
    * @default true
    */
   public get autoResize() { return this._autoResize; }
+  /**
+   * Enable keyboard navigation and add ARIA attributes of the carousel pattern to the viewport & panel elements.
+   * Arrow keys, `Home`, `End`, `PageUp` and `PageDown` will move panels while the viewport element is focused, and panels that are not visible will have `aria-hidden` and `inert` attributes.
+   * It's disabled by default, as it adds `tabindex`, `role` and `inert` attributes that can change the focus order and the behavior of the existing pages.
+   * @ko 키보드 탐색을 활성화하고, 뷰포트와 패널 엘리먼트에 캐러셀 패턴의 ARIA 속성을 추가합니다.
+   * 뷰포트 엘리먼트에 포커스가 있을 때 방향키, `Home`, `End`, `PageUp`, `PageDown` 키로 패널을 이동할 수 있으며, 보이지 않는 패널들에는 `aria-hidden`과 `inert` 속성이 추가됩니다.
+   * 기존 페이지의 포커스 순서와 동작을 바꿀 수 있는 `tabindex`, `role`, `inert` 속성을 추가하므로 기본적으로 비활성화되어 있습니다.
+   * @type {boolean}
+   * @default false
+   */
+  public get accessibility() { return this._accessibility; }
   /**
    * This is an option for the frameworks(React, Vue, Angular, ...). Don't set it as it's automatically managed by Flicking.
    * @ko 프레임워크(React, Vue, Angular, ...)에서만 사용하는 옵션으로, 자동으로 설정되므로 따로 사용하실 필요 없습니다!
@@ -512,17 +799,135 @@ class Flicking extends Component<FlickingEvents> {
   }
 
   public set defaultIndex(val: FlickingOptions["defaultIndex"]) { this._defaultIndex = val; }
-  public set horizontal(val: FlickingOptions["horizontal"]) { this._horizontal = val; }
-  public set circular(val: FlickingOptions["circular"]) { this._circular = val; }
-  public set bound(val: FlickingOptions["bound"]) { this._bound = val; }
-  public set adaptive(val: FlickingOptions["adaptive"]) { this._adaptive = val; }
+  public set horizontal(val: FlickingOptions["horizontal"]) {
+    this._horizontal = val;
+
+    if (!this._renderExternal) {
+      // Frameworks are managing the viewport class by themselves
+      const viewportEl = this._viewport.element;
+
+      if (val) {
+        removeClass(viewportEl, "vertical");
+      } else {
+        addClass(viewportEl, "vertical");
+      }
+    }
+
+    if (!this._initialized) return;
+
+    this._control.controller.resetPanInput();
+
+    // resize() will be called after applying the breakpoint
+    if (this._applyingBreakpoint) return;
+
+    void this.resize();
+  }
+
+  public set rtl(val: FlickingOptions["rtl"]) {
+    this._rtl = val;
+
+    if (!this._initialized) return;
+
+    this._control.controller.resetPanInput();
+
+    // resize() will be called after applying the breakpoint
+    if (this._applyingBreakpoint) return;
+
+    void this.resize();
+  }
+
+  public set circular(val: FlickingOptions["circular"]) {
+    this._circular = val;
+    void this._resetCamera().catch(() => void 0);
+  }
+
+  public set bound(val: FlickingOptions["bound"]) {
+    this._bound = val;
+    void this._resetCamera().catch(() => void 0);
+  }
+
+  public set adaptive(val: FlickingOptions["adaptive"]) {
+    this._adaptive = val;
+
+    if (!this._initialized) return;
+
+    this._camera.updateAdaptiveHeight();
+  }
+
+  public set panelsPerView(val: FlickingOptions["panelsPerView"]) {
+    this._panelsPerView = val;
+
+    if (!this._initialized || this._applyingBreakpoint) return;
+
+    void this.resize();
+  }
+
+  public set gap(val: FlickingOptions["gap"]) {
+    this._gap = val;
+
+    if (!this._initialized || this._applyingBreakpoint) return;
+
+    void this.resize();
+  }
+
+  public set panelsPerPage(val: FlickingOptions["panelsPerPage"]) {
+    this._panelsPerPage = val;
+
+    if (!this._initialized || this._applyingBreakpoint) return;
+
+    void this.resize();
+  }
+
+  public set fade(val: FlickingOptions["fade"]) {
+    this._fade = val;
+
+    if (!this._initialized) return;
+
+    void this._camera.lookAt(this._camera.position);
+  }
+
+  public set breakpoints(val: FlickingOptions["breakpoints"]) {
+    this._breakpoints = val;
+    this._saveBreakpointDefaults();
+  }
+
+  // EVENTS
+  public set needPanelThreshold(val: FlickingOptions["needPanelThreshold"]) { this._needPanelThreshold = val; }
   // ANIMATION
   public set deceleration(val: FlickingOptions["deceleration"]) { this._deceleration = val; }
   public set easing(val: FlickingOptions["easing"]) { this._easing = val; }
   public set duration(val: FlickingOptions["duration"]) { this._duration = val; }
+  public set animationPolicy(val: FlickingOptions["animationPolicy"]) { this._animationPolicy = val; }
   // INPUT
-  public set inputType(val: FlickingOptions["inputType"]) { this._inputType = val; }
-  public set moveType(val: FlickingOptions["moveType"]) { this._moveType = val; }
+  public set inputType(val: FlickingOptions["inputType"]) {
+    this._inputType = val;
+
+    if (!this._initialized) return;
+
+    this._control.controller.resetPanInput();
+  }
+
+  public set wheelCrossAxis(val: FlickingOptions["wheelCrossAxis"]) {
+    this._wheelCrossAxis = val;
+
+    if (!this._initialized) return;
+
+    this._control.controller.resetPanInput();
+  }
+
+  public set moveType(val: FlickingOptions["moveType"]) {
+    const prevMoveType = this._moveType;
+
+    this._moveType = val;
+
+    try {
+      this._resetControl();
+    } catch (err) {
+      this._moveType = prevMoveType;
+      throw err;
+    }
+  }
+
   public set threshold(val: FlickingOptions["threshold"]) { this._threshold = val; }
   public set interruptable(val: FlickingOptions["interruptable"]) { this._interruptable = val; }
   public set bounce(val: FlickingOptions["bounce"]) { this._bounce = val; }
@@ -530,9 +935,28 @@ class Flicking extends Component<FlickingEvents> {
   public set preventClickOnDrag(val: FlickingOptions["preventClickOnDrag"]) { this._preventClickOnDrag = val; }
   public set disableOnInit(val: FlickingOptions["disableOnInit"]) { this._disableOnInit = val; }
   // PERFORMANCE
-  public set renderOnlyVisible(val: FlickingOptions["renderOnlyVisible"]) { this._renderOnlyVisible = val; }
+  public set renderOnlyVisible(val: FlickingOptions["renderOnlyVisible"]) {
+    this._renderOnlyVisible = val;
+    this._renderer.strategy = this._createRenderingStrategy();
+
+    if (!this._initialized || this._applyingBreakpoint) return;
+
+    void this._renderer.render().then(() => this._camera.updateOffset());
+  }
+
   // OTHERS
   public set autoResize(val: FlickingOptions["autoResize"]) { this._autoResize = val; }
+  public set accessibility(val: FlickingOptions["accessibility"]) {
+    this._accessibility = val;
+
+    if (!this._initialized) return;
+
+    this._accessibilityManager.destroy();
+
+    if (val) {
+      this._accessibilityManager.init(this);
+    }
+  }
 
   /**
    * @param root A root HTMLElement to initialize Flicking on it. When it's a typeof `string`, it should be a css selector string
@@ -543,12 +967,14 @@ class Flicking extends Component<FlickingEvents> {
    * |---|---|
    * |{@link ERROR_CODE WRONG_TYPE}|When the root is not either string or HTMLElement|
    * |{@link ERROR_CODE ELEMENT_NOT_FOUND}|When the element with given CSS selector does not exist|
+   * |{@link ERROR_CODE WRONG_OPTION}|When the `panelSize` of the {@link Flicking#virtual virtual} option is not bigger than 0 while {@link Flicking#panelsPerView panelsPerView} is disabled|
    * <ko>
    *
    * |code|조건|
    * |---|---|
    * |{@link ERROR_CODE WRONG_TYPE}|루트 엘리먼트가 string이나 HTMLElement가 아닐 경우|
    * |{@link ERROR_CODE ELEMENT_NOT_FOUND}|주어진 CSS selector로 엘리먼트를 찾지 못했을 경우|
+   * |{@link ERROR_CODE WRONG_OPTION}|{@link Flicking#panelsPerView panelsPerView}가 비활성화된 상태에서 {@link Flicking#virtual virtual} 옵션의 `panelSize`가 0보다 크지 않을 경우|
    *
    * </ko>
    * @example
@@ -566,14 +992,23 @@ class Flicking extends Component<FlickingEvents> {
     align = ALIGN.CENTER,
     defaultIndex = 0,
     horizontal = true,
+    rtl = "auto",
     circular = false,
     bound = false,
     adaptive = false,
+    panelsPerView = -1,
+    gap = 0,
+    panelsPerPage = 1,
+    fade = false,
+    breakpoints = {},
     needPanelThreshold = 0,
+    dataSource = null,
     deceleration = 0.0075,
     duration = 500,
     easing = x => 1 - Math.pow(1 - x, 3),
+    animationPolicy = ANIMATION_POLICY.REJECT,
     inputType = ["mouse", "touch"],
+    wheelCrossAxis = false,
     moveType = "snap",
     threshold = 40,
     interruptable = true,
@@ -582,8 +1017,10 @@ class Flicking extends Component<FlickingEvents> {
     preventClickOnDrag = true,
     disableOnInit = false,
     renderOnlyVisible = false,
+    virtual = null,
     autoInit = true,
     autoResize = true,
+    accessibility = false,
     renderExternal = null
   }: Partial<FlickingOptions> = {}) {
     super();
@@ -591,19 +1028,33 @@ class Flicking extends Component<FlickingEvents> {
     // Internal states
     this._initialized = false;
     this._plugins = [];
+    this._breakpoint = null;
+    this._breakpointDefaults = {};
+    this._applyingBreakpoint = false;
+    this._moveQueue = Promise.resolve();
+    this._queuedMoves = [];
 
     // Bind options
     this._align = align;
     this._defaultIndex = defaultIndex;
     this._horizontal = horizontal;
+    this._rtl = rtl;
     this._circular = circular;
     this._bound = bound;
     this._adaptive = adaptive;
+    this._panelsPerView = panelsPerView;
+    this._gap = gap;
+    this._panelsPerPage = panelsPerPage;
+    this._fade = fade;
+    this._breakpoints = breakpoints;
     this._needPanelThreshold = needPanelThreshold;
+    this._dataSource = dataSource;
     this._deceleration = deceleration;
     this._duration = duration;
     this._easing = easing;
+    this._animationPolicy = animationPolicy;
     this._inputType = inputType;
+    this._wheelCrossAxis = wheelCrossAxis;
     this._moveType = moveType;
     this._threshold = threshold;
     this._interruptable = interruptable;
@@ -612,15 +1063,21 @@ class Flicking extends Component<FlickingEvents> {
     this._preventClickOnDrag = preventClickOnDrag;
     this._disableOnInit = disableOnInit;
     this._renderOnlyVisible = renderOnlyVisible;
+    this._virtual = virtual;
     this._autoResize = autoResize;
+    this._accessibility = accessibility;
     this._autoInit = autoInit;
     this._renderExternal = renderExternal;
 
+    this._saveBreakpointDefaults();
+
     // Create core components
     this._viewport = new Viewport(getElement(root));
     this._renderer = this._createRenderer();
     this._camera = this._createCamera();
     this._control = this._createControl();
+    this._accessibilityManager = new Accessibility();
+    this._dataSourceLoader = new DataSourceLoader();
 
     if (this._autoInit) {
       void this.init();
@@ -638,6 +1095,10 @@ class Flicking extends Component<FlickingEvents> {
   public async init(): Promise<void> {
     if (this._initialized) return;
 
+    // Apply options of the breakpoint first, as they can replace the core components
+    this._viewport.resize();
+    this._applyBreakpoint();
+
     const camera = this._camera;
     const renderer = this._renderer;
     const control = this._control;
@@ -647,6 +1108,11 @@ class Flicking extends Component<FlickingEvents> {
     renderer.init(this);
     control.init(this);
 
+    // Panels can be loaded on the first needPanel event
+    if (this._dataSource && !this._renderExternal) {
+      this._dataSourceLoader.init(this);
+    }
+
     await this.resize();
 
     // Look at initial panel
@@ -661,11 +1127,15 @@ class Flicking extends Component<FlickingEvents> {
     if (this._disableOnInit) {
       this.disableInput();
     }
+    if (this._accessibility) {
+      this._accessibilityManager.init(this);
+    }
 
     this._plugins.forEach(plugin => plugin.init(this));
 
     // Done initializing & emit ready event
     this._initialized = true;
+    this._camera.applyPanelEffects();
     this.trigger(new ComponentEvent(EVENTS.READY));
 
     return;
@@ -681,8 +1151,11 @@ class Flicking extends Component<FlickingEvents> {
 
     this.off();
     window.removeEventListener("resize", this.resize);
+    this._cancelQueuedMoves();
     this._viewport.element.removeEventListener("click", this._preventClickWhenDragged);
 
+    this._accessibilityManager.destroy();
+    this._dataSourceLoader.destroy();
     this._control.destroy();
     this._camera.destroy();
     this._renderer.destroy();
@@ -694,8 +1167,12 @@ class Flicking extends Component<FlickingEvents> {
 
   /**
    * Move to the previous panel (current index - 1)
+   * When {@link Flicking#panelsPerPage panelsPerPage} is not 1, move to the first panel of the previous page
    * @ko 이전 패널로 이동합니다 (현재 인덱스 - 1)
-   * @param {number} [duration={@link Flicking#duration options.duration}] Duration of the panel movement animation (unit: ms)<ko>패널 이동 애니메이션 진행 시간 (단위: ms)</ko>
+   * {@link Flicking#panelsPerPage panelsPerPage}가 1이 아닐 경우, 이전 페이지의 첫번째 패널로 이동합니다
+   * @param {number | MoveOptions} [options={@link Flicking#duration options.duration}] Duration of the animation (unit: ms), or an {@link MoveOptions options object} with the duration, easing and `AbortSignal`
+   * <ko>애니메이션 진행 시간 (단위: ms), 혹은 진행 시간, easing과 `AbortSignal`을 담은 {@link MoveOptions 옵션 오브젝트}</ko>
+   * @param {ANIMATION_POLICY} [policy={@link Flicking#animationPolicy options.animationPolicy}] What to do when the animation is already playing<ko>애니메이션이 이미 진행중일 때의 동작</ko>
    * @async
    * @fires Flicking#moveStart
    * @fires Flicking#move
@@ -711,28 +1188,34 @@ class Flicking extends Component<FlickingEvents> {
    * |code|condition|
    * |---|---|
    * |{@link ERROR_CODE INDEX_OUT_OF_RANGE}|When the previous panel does not exist|
-   * |{@link ERROR_CODE ANIMATION_ALREADY_PLAYING}|When the animation is already playing|
-   * |{@link ERROR_CODE ANIMATION_INTERRUPTED}|When the animation is interrupted by user input|
+   * |{@link ERROR_CODE ANIMATION_ALREADY_PLAYING}|When the animation is already playing and the policy is `"reject"`|
+   * |{@link ERROR_CODE ANIMATION_INTERRUPTED}|When the animation is interrupted by user input or another move with the `"interrupt"` policy|
    * |{@link ERROR_CODE STOP_CALLED_BY_USER}|When the any of the event's `stop()` is called|
+   * |{@link ERROR_CODE ANIMATION_ABORTED}|When the animation is aborted by the `signal`|
    * <ko>
    *
    * |code|condition|
    * |---|---|
    * |{@link ERROR_CODE INDEX_OUT_OF_RANGE}|이전 패널이 존재하지 않을 경우|
-   * |{@link ERROR_CODE ANIMATION_ALREADY_PLAYING}|애니메이션이 이미 진행중인 경우|
-   * |{@link ERROR_CODE ANIMATION_INTERRUPTED}|사용자 입력에 의해 애니메이션이 중단된 경우|
+   * |{@link ERROR_CODE ANIMATION_ALREADY_PLAYING}|애니메이션이 이미 진행중이고, 정책이 `"reject"`인 경우|
+   * |{@link ERROR_CODE ANIMATION_INTERRUPTED}|사용자 입력이나 `"interrupt"` 정책을 사용한 다른 이동에 의해 애니메이션이 중단된 경우|
    * |{@link ERROR_CODE STOP_CALLED_BY_USER}|발생된 이벤트들 중 하나라도 `stop()`이 호출된 경우|
+   * |{@link ERROR_CODE ANIMATION_ABORTED}|`signal`에 의해 애니메이션이 중단된 경우|
    * </ko>
    * @return {Promise<void>} A Promise which will be resolved after reaching the previous panel<ko>이전 패널 도달시에 resolve되는 Promise</ko>
    */
-  public prev(duration: number = this._duration): Promise<void> {
-    return this.moveTo(this._control.activePanel?.prev()?.index ?? -1, duration, DIRECTION.PREV);
+  public prev(options: number | MoveOptions = this._duration, policy: ValueOf<typeof ANIMATION_POLICY> = this._animationPolicy): Promise<void> {
+    return this._move(() => this._getAdjacentPanel(DIRECTION.PREV)?.index ?? -1, options, DIRECTION.PREV, policy);
   }
 
   /**
    * Move to the next panel (current index + 1)
+   * When {@link Flicking#panelsPerPage panelsPerPage} is not 1, move to the first panel of the next page
    * @ko 다음 패널로 이동합니다 (현재 인덱스 + 1)
-   * @param {number} [duration={@link Flicking#duration options.duration}] Duration of the panel movement animation (unit: ms).<ko>패널 이동 애니메이션 진행 시간 (단위: ms)</ko>
+   * {@link Flicking#panelsPerPage panelsPerPage}가 1이 아닐 경우, 다음 페이지의 첫번째 패널로 이동합니다
+   * @param {number | MoveOptions} [options={@link Flicking#duration options.duration}] Duration of the animation (unit: ms), or an {@link MoveOptions options object} with the duration, easing and `AbortSignal`
+   * <ko>애니메이션 진행 시간 (단위: ms), 혹은 진행 시간, easing과 `AbortSignal`을 담은 {@link MoveOptions 옵션 오브젝트}</ko>
+   * @param {ANIMATION_POLICY} [policy={@link Flicking#animationPolicy options.animationPolicy}] What to do when the animation is already playing<ko>애니메이션이 이미 진행중일 때의 동작</ko>
    * @async
    * @fires Flicking#moveStart
    * @fires Flicking#move
@@ -748,31 +1231,35 @@ class Flicking extends Component<FlickingEvents> {
    * |code|condition|
    * |---|---|
    * |{@link ERROR_CODE INDEX_OUT_OF_RANGE}|When the next panel does not exist|
-   * |{@link ERROR_CODE ANIMATION_ALREADY_PLAYING}|When the animation is already playing|
-   * |{@link ERROR_CODE ANIMATION_INTERRUPTED}|When the animation is interrupted by user input|
+   * |{@link ERROR_CODE ANIMATION_ALREADY_PLAYING}|When the animation is already playing and the policy is `"reject"`|
+   * |{@link ERROR_CODE ANIMATION_INTERRUPTED}|When the animation is interrupted by user input or another move with the `"interrupt"` policy|
    * |{@link ERROR_CODE STOP_CALLED_BY_USER}|When the any of the event's `stop()` is called|
+   * |{@link ERROR_CODE ANIMATION_ABORTED}|When the animation is aborted by the `signal`|
    * <ko>
    *
    * |code|condition|
    * |---|---|
    * |{@link ERROR_CODE INDEX_OUT_OF_RANGE}|다음 패널이 존재하지 않을 경우|
-   * |{@link ERROR_CODE ANIMATION_ALREADY_PLAYING}|애니메이션이 이미 진행중인 경우|
-   * |{@link ERROR_CODE ANIMATION_INTERRUPTED}|사용자 입력에 의해 애니메이션이 중단된 경우|
+   * |{@link ERROR_CODE ANIMATION_ALREADY_PLAYING}|애니메이션이 이미 진행중이고, 정책이 `"reject"`인 경우|
+   * |{@link ERROR_CODE ANIMATION_INTERRUPTED}|사용자 입력이나 `"interrupt"` 정책을 사용한 다른 이동에 의해 애니메이션이 중단된 경우|
    * |{@link ERROR_CODE STOP_CALLED_BY_USER}|발생된 이벤트들 중 하나라도 `stop()`이 호출된 경우|
+   * |{@link ERROR_CODE ANIMATION_ABORTED}|`signal`에 의해 애니메이션이 중단된 경우|
    *
    * </ko>
    * @return {Promise<void>} A Promise which will be resolved after reaching the next panel<ko>다음 패널 도달시에 resolve되는 Promise</ko>
    */
-  public next(duration: number = this._duration) {
-    return this.moveTo(this._control.activePanel?.next()?.index ?? this._renderer.panelCount, duration, DIRECTION.NEXT);
+  public next(options: number | MoveOptions = this._duration, policy: ValueOf<typeof ANIMATION_POLICY> = this._animationPolicy) {
+    return this._move(() => this._getAdjacentPanel(DIRECTION.NEXT)?.index ?? this._renderer.panelCount, options, DIRECTION.NEXT, policy);
   }
 
   /**
    * Move to the panel with given index
    * @ko 주어진 인덱스에 해당하는 패널로 이동합니다
    * @param {number} index The index of the panel to move<ko>이동할 패널의 인덱스</ko>
-   * @param {number} [duration={@link Flicking#duration options.duration}] Duration of the animation (unit: ms)<ko>애니메이션 진행 시간 (단위: ms)</ko>
+   * @param {number | MoveOptions} [options={@link Flicking#duration options.duration}] Duration of the animation (unit: ms), or an {@link MoveOptions options object} with the duration, easing and `AbortSignal`
+   * <ko>애니메이션 진행 시간 (단위: ms), 혹은 진행 시간, easing과 `AbortSignal`을 담은 {@link MoveOptions 옵션 오브젝트}</ko>
    * @param {DIRECTION} [direction=DIRECTION.NONE] Direction to move, only available in the {@link Flicking#circular circular} mode<ko>이동할 방향. {@link Flicking#circular circular} 옵션 활성화시에만 사용 가능합니다</ko>
+   * @param {ANIMATION_POLICY} [policy={@link Flicking#animationPolicy options.animationPolicy}] What to do when the animation is already playing<ko>애니메이션이 이미 진행중일 때의 동작</ko>
    * @async
    * @fires Flicking#moveStart
    * @fires Flicking#move
@@ -788,39 +1275,42 @@ class Flicking extends Component<FlickingEvents> {
    * |code|condition|
    * |---|---|
    * |{@link ERROR_CODE INDEX_OUT_OF_RANGE}|When the root is not either string or HTMLElement|
-   * |{@link ERROR_CODE ANIMATION_ALREADY_PLAYING}|When the animation is already playing|
-   * |{@link ERROR_CODE ANIMATION_INTERRUPTED}|When the animation is interrupted by user input|
+   * |{@link ERROR_CODE ANIMATION_ALREADY_PLAYING}|When the animation is already playing and the policy is `"reject"`|
+   * |{@link ERROR_CODE ANIMATION_INTERRUPTED}|When the animation is interrupted by user input or another move with the `"interrupt"` policy|
    * |{@link ERROR_CODE STOP_CALLED_BY_USER}|When the any of the event's `stop()` is called|
+   * |{@link ERROR_CODE ANIMATION_ABORTED}|When the animation is aborted by the `signal`|
    * <ko>
    *
    * |code|condition|
    * |---|---|
    * |{@link ERROR_CODE INDEX_OUT_OF_RANGE}|해당 인덱스를 가진 패널이 존재하지 않을 경우|
-   * |{@link ERROR_CODE ANIMATION_ALREADY_PLAYING}|애니메이션이 이미 진행중인 경우|
-   * |{@link ERROR_CODE ANIMATION_INTERRUPTED}|사용자 입력에 의해 애니메이션이 중단된 경우|
+   * |{@link ERROR_CODE ANIMATION_ALREADY_PLAYING}|애니메이션이 이미 진행중이고, 정책이 `"reject"`인 경우|
+   * |{@link ERROR_CODE ANIMATION_INTERRUPTED}|사용자 입력이나 `"interrupt"` 정책을 사용한 다른 이동에 의해 애니메이션이 중단된 경우|
    * |{@link ERROR_CODE STOP_CALLED_BY_USER}|발생된 이벤트들 중 하나라도 `stop()`이 호출된 경우|
+   * |{@link ERROR_CODE ANIMATION_ABORTED}|`signal`에 의해 애니메이션이 중단된 경우|
    *
    * </ko>
    * @return {Promise<void>} A Promise which will be resolved after reaching the target panel<ko>해당 패널 도달시에 resolve되는 Promise</ko>
+   * @example
+   * ```ts
+   * const controller = new AbortController();
+   *
+   * flicking.moveTo(3, { duration: 1000, easing: x => x, signal: controller.signal })
+   *   .catch(err => {
+   *     // err.code === ERROR_CODE.ANIMATION_ABORTED
+   *   });
+   *
+   * // Stops the camera at the current position
+   * controller.abort();
+   * ```
    */
-  public moveTo(index: number, duration: number = this._duration, direction: ValueOf<typeof DIRECTION> = DIRECTION.NONE) {
-    const renderer = this._renderer;
-    const panelCount = renderer.panelCount;
-
-    const panel = renderer.getPanel(index);
-
-    if (!panel) {
-      return Promise.reject(new FlickingError(ERROR.MESSAGE.INDEX_OUT_OF_RANGE(index, 0, panelCount - 1), ERROR.CODE.INDEX_OUT_OF_RANGE));
-    }
-
-    if (this._control.animating) {
-      return Promise.reject(new FlickingError(ERROR.MESSAGE.ANIMATION_ALREADY_PLAYING, ERROR.CODE.ANIMATION_ALREADY_PLAYING));
-    }
-
-    return this._control.moveToPanel(panel, {
-      duration,
-      direction
-    });
+  public moveTo(
+    index: number,
+    options: number | MoveOptions = this._duration,
+    direction: ValueOf<typeof DIRECTION> = DIRECTION.NONE,
+    policy: ValueOf<typeof ANIMATION_POLICY> = this._animationPolicy
+  ) {
+    return this._move(() => index, options, direction, policy);
   }
 
   /**
@@ -864,8 +1354,10 @@ class Flicking extends Component<FlickingEvents> {
    * @ko 현재 상태를 반환합니다. 반환받은 값을 {@link Flicking#setStatus setStatus()} 메소드의 인자로 지정하면 현재 상태를 복원할 수 있습니다
    * @param {object} options Status retrieving options<ko>Status 반환 옵션</ko>
    * @param {boolean} [options.index=true] Include current panel index to the returning status. Camera will automatically move to the given index when the {@link Flicking#setStatus setStatus} is called<ko>현재 패널 인덱스를 반환값에 포함시킵니다. {@link Flicking#setStatus setStatus} 호출시 자동으로 해당 인덱스로 카메라를 움직입니다</ko>
-   * @param {boolean} [options.position=true] Include camera position to the returning status. This works only when the {@link Flicking#moveType moveType} is `freeScroll`<ko>카메라의 현재 위치를 반환값에 포함시킵니다. 이 옵션은 {@link Flicking#moveType moveType}이 `freeScroll`일 경우에만 동작합니다</ko>
+   * @param {boolean} [options.position=true] Include camera position to the returning status<ko>카메라의 현재 위치를 반환값에 포함시킵니다</ko>
    * @param {boolean} [options.includePanelHTML=false] Include panel's `outerHTML` to the returning status<ko>패널의 `outerHTML`을 반환값에 포함시킵니다</ko>
+   * @param {boolean} [options.includePanelData=false] Include the data of the {@link VirtualPanel}s to the returning status. This option is available only when the {@link Flicking#virtual virtual} option is used
+   * <ko>{@link VirtualPanel}의 데이터를 반환값에 포함시킵니다. {@link Flicking#virtual virtual} 옵션을 사용했을 때만 동작합니다</ko>
    * @param {boolean} [options.visiblePanelsOnly=false] Include only {@link Flicking#visiblePanel visiblePanel}'s HTML. This option is available only when the `includePanelHTML` is true
    * <ko>현재 보이는 패널({@link Flicking#visiblePanel visiblePanel})의 HTML만 반환합니다. `includePanelHTML`이 `true`일 경우에만 동작합니다.</ko>
    * @return {Partial<Status>} An object with current status value information<ko>현재 상태값 정보를 가진 객체.</ko>
@@ -874,23 +1366,30 @@ class Flicking extends Component<FlickingEvents> {
     index = true,
     position = true,
     includePanelHTML = false,
+    includePanelData = false,
     visiblePanelsOnly = false
   }: Partial<{
     index: boolean;
     position: boolean;
     includePanelHTML: boolean;
+    includePanelData: boolean;
     visiblePanelsOnly: boolean;
   }> = {}): Status {
     const camera = this._camera;
     const panels = visiblePanelsOnly ? this.visiblePanels : this.panels;
 
     const status: Status = {
+      version: STATUS_VERSION,
       panels: panels.map(panel => {
         const panelInfo: Status["panels"][0] = { index: panel.index };
 
-        if (includePanelHTML) {
+        // Panels of the VirtualRenderer don't have an element when they're not visible
+        if (includePanelHTML && panel.element) {
           panelInfo.html = panel.element.outerHTML;
         }
+        if (includePanelData && panel instanceof VirtualPanel) {
+          panelInfo.data = panel.data;
+        }
 
         return panelInfo;
       })
@@ -905,10 +1404,11 @@ class Flicking extends Component<FlickingEvents> {
       if (nearestAnchor) {
         status.position = {
           panel: nearestAnchor.panel.index,
-          progressInPanel: camera.getProgressInPanel(nearestAnchor.panel)
+          progressInPanel: camera.getProgressInPanel(nearestAnchor.panel),
+          absolute: camera.position
         };
+        status.circular = this.circularEnabled;
       }
-
     }
 
     if (visiblePanelsOnly) {
@@ -922,8 +1422,25 @@ class Flicking extends Component<FlickingEvents> {
 
   /**
    * Restore to the state of the given {@link Status}
+   * The status of the older versions is migrated to the current {@link STATUS_VERSION} before restoring it
    * @ko 주어진 {@link Status}의 상태로 복원합니다
+   * 이전 버전의 상태값은 복원하기 전에 현재 {@link STATUS_VERSION}으로 변환됩니다
    * @param {Partial<Status>} status Status value to be restored. You should use the return value of the {@link Flicking#getStatus getStatus()} method<ko>복원할 상태 값. {@link Flicking#getStatus getStatus()} 메서드의 반환값을 지정하면 됩니다</ko>
+   * @throws {FlickingError}
+   * |code|condition|
+   * |---|---|
+   * |{@link ERROR_CODE NOT_INITIALIZED}|When the {@link Flicking#init init} is not called before|
+   * |{@link ERROR_CODE INVALID_STATUS}|When the status is malformed|
+   * |{@link ERROR_CODE INCOMPATIBLE_STATUS}|When the status is from the newer version, or it can't be restored with the current options or panels|
+   * <ko>
+   *
+   * |code|condition|
+   * |---|---|
+   * |{@link ERROR_CODE NOT_INITIALIZED}|{@link Flicking#init init}이 이전에 호출되지 않은 경우|
+   * |{@link ERROR_CODE INVALID_STATUS}|상태값의 형식이 잘못된 경우|
+   * |{@link ERROR_CODE INCOMPATIBLE_STATUS}|상태값이 더 최신 버전이거나, 현재 옵션이나 패널로 복원할 수 없는 경우|
+   *
+   * </ko>
    * @return {void}
    */
   public setStatus(status: Status): void {
@@ -934,36 +1451,95 @@ class Flicking extends Component<FlickingEvents> {
     const {
       index,
       position,
-      visibleOffset,
+      circular,
+      visibleOffset = 0,
       panels
-    } = status;
+    } = this._migrateStatus(status);
 
     const renderer = this._renderer;
     const control = this._control;
+    const camera = this._camera;
 
     // Can't add/remove panels on external rendering
-    if (panels[0]?.html && !this._renderExternal) {
-      renderer.batchRemove({ index: 0, deleteCount: this.panels.length });
-      renderer.batchInsert({ index: 0, elements: parseElement(panels.map(panel => panel.html!)) });
+    const restoreHTML = panels[0]?.html != null && !this._renderExternal;
+    const restoreData = !restoreHTML && panels[0]?.data !== undefined && !this._renderExternal;
+    let elements: unknown[] | null = null;
+
+    // Check everything before replacing the panels, so the panels are kept on error
+    if (restoreHTML) {
+      if (this._virtual) {
+        throw new FlickingError(ERROR.MESSAGE.INCOMPATIBLE_STATUS("panel HTML can't be restored with the virtual option"), ERROR.CODE.INCOMPATIBLE_STATUS);
+      }
+
+      elements = parseElement(panels.map(panel => panel.html!));
+
+      if (elements.length !== panels.length) {
+        throw new FlickingError(ERROR.MESSAGE.INVALID_STATUS("each panel HTML should have exactly one element"), ERROR.CODE.INVALID_STATUS);
+      }
+    } else if (restoreData) {
+      if (!this._virtual) {
+        throw new FlickingError(ERROR.MESSAGE.INCOMPATIBLE_STATUS("panel data can be restored only with the virtual option"), ERROR.CODE.INCOMPATIBLE_STATUS);
+      }
+
+      elements = panels.map(panel => panel.data);
     }
 
-    if (index) {
-      const panelIndex = visibleOffset
-        ? index - visibleOffset
-        : index;
+    const panelCount = elements ? elements.length : renderer.panelCount;
+    const checkRestoringIndex = (panelIndex: number, name: string) => {
+      const restoringIndex = panelIndex - visibleOffset;
+
+      if (restoringIndex < 0 || restoringIndex >= panelCount) {
+        throw new FlickingError(ERROR.MESSAGE.INCOMPATIBLE_STATUS(`"${name}" ${panelIndex} doesn't match any panel`), ERROR.CODE.INCOMPATIBLE_STATUS);
+      }
+
+      return restoringIndex;
+    };
 
-      void this.moveTo(panelIndex, 0).catch(() => void 0);
+    const restoringIndex = index != null
+      ? checkRestoringIndex(index, "index")
+      : null;
+    const restoringPositionIndex = position
+      ? checkRestoringIndex(position.panel, "position.panel")
+      : null;
+
+    if (position && circular != null && circular !== this.circularEnabled) {
+      throw new FlickingError(ERROR.MESSAGE.INCOMPATIBLE_STATUS(`status is saved with the circular mode ${circular ? "enabled" : "disabled"}`), ERROR.CODE.INCOMPATIBLE_STATUS);
+    }
+
+    if (elements) {
+      renderer.batchRemove({ index: 0, deleteCount: this.panels.length });
+      renderer.batchInsert({ index: 0, elements });
     }
 
-    if (position && this._moveType === MOVE_TYPE.FREE_SCROLL) {
-      const { panel, progressInPanel } = position;
-      const panelIndex = visibleOffset
-        ? panel - visibleOffset
-        : panel;
-      const panelRange = renderer.panels[panelIndex].range;
-      const newCameraPos = panelRange.min + (panelRange.max - panelRange.min) * progressInPanel;
+    const indexPanel = restoringIndex != null
+      ? renderer.getPanel(restoringIndex)
+      : null;
+    const positionPanel = restoringPositionIndex != null
+      ? renderer.getPanel(restoringPositionIndex)
+      : null;
+
+    if (indexPanel) {
+      void this.moveTo(indexPanel.index, 0).catch(() => void 0);
+    }
 
-      void control.moveToPosition(newCameraPos, 0).catch(() => void 0);
+    if (position && positionPanel) {
+      const panelRange = positionPanel.range;
+      const relativePosition = panelRange.min + (panelRange.max - panelRange.min) * position.progressInPanel;
+      // Use the exact position if panels are placed the same as before, as the progress can drift by the floating point error
+      const newCameraPos = position.absolute != null && !visibleOffset && Math.abs(position.absolute - relativePosition) < 1
+        ? position.absolute
+        : relativePosition;
+
+      if (control instanceof FreeControl) {
+        void control.moveToPosition(newCameraPos, 0).catch(() => void 0);
+      } else if (!indexPanel) {
+        // Snap control can stop only at the anchors, and the index is restored instead if it's given
+        const anchor = camera.findNearestAnchor(camera.clampToReachablePosition(newCameraPos));
+
+        if (anchor) {
+          void this.moveTo(anchor.panel.index, 0).catch(() => void 0);
+        }
+      }
     }
   }
 
@@ -981,6 +1557,11 @@ class Flicking extends Component<FlickingEvents> {
 
     this._plugins.push(...plugins);
 
+    if (this._initialized) {
+      // Apply the effects of newly added plugins
+      this._camera.applyPanelEffects();
+    }
+
     return this;
   }
 
@@ -1015,14 +1596,13 @@ class Flicking extends Component<FlickingEvents> {
   public resize = async (): Promise<void> => {
     const viewport = this._viewport;
     const renderer = this._renderer;
-    const camera = this._camera;
-    const control = this._control;
 
-    const activePanel = control.activePanel;
+    const activePanel = this._control.activePanel;
+    const prevRTL = this.rtlEnabled;
     const prevWidth = viewport.width;
     const prevHeight = viewport.height;
     const prevProgressInPanel = activePanel
-      ? camera.getProgressInPanel(activePanel)
+      ? this._camera.getProgressInPanel(activePanel)
       : 0;
 
     this.trigger(new ComponentEvent(EVENTS.BEFORE_RESIZE, {
@@ -1032,6 +1612,17 @@ class Flicking extends Component<FlickingEvents> {
     }));
 
     viewport.resize();
+    this._applyBreakpoint();
+
+    // Camera & Control can be replaced by the breakpoint
+    const camera = this._camera;
+    const control = this._control;
+
+    if (this._initialized && this.rtlEnabled !== prevRTL) {
+      // Direction of the input should be mirrored
+      control.controller.resetPanInput();
+    }
+
     await renderer.forceRenderAllPanels(); // Render all panel elements, to update sizes
     renderer.updatePanelSize();
     await renderer.render();
@@ -1040,7 +1631,9 @@ class Flicking extends Component<FlickingEvents> {
     camera.updateAnchors();
 
     if (control.animating) {
-      // TODO:
+      // Keep the animation heading to its destination panel, which can be moved by the resize
+      // The input is updated after the animation ends
+      control.updateAnimation();
     } else {
       await control.updatePosition(prevProgressInPanel);
       control.updateInput();
@@ -1174,9 +1767,9 @@ class Flicking extends Component<FlickingEvents> {
 
     switch (moveTypeStr) {
       case MOVE_TYPE.SNAP:
-        return new SnapControl();
+        return new SnapControl(moveTypeOptions as Partial<SnapControlOptions>);
       case MOVE_TYPE.FREE_SCROLL:
-        return new FreeControl(moveTypeOptions);
+        return new FreeControl(moveTypeOptions as Partial<FreeControlOptions>);
     }
   }
 
@@ -1197,22 +1790,378 @@ class Flicking extends Component<FlickingEvents> {
   }
 
   private _createRenderer(): Renderer {
-    const renderingStrategy = this._renderOnlyVisible
-      ? new VisibleRenderingStrategy()
-      : new RawRenderingStrategy();
-
     const rendererOptions = {
       align: this._align,
-      strategy: renderingStrategy
+      strategy: this._createRenderingStrategy()
     };
 
     const renderExternal = this._renderExternal;
+    const virtual = this._virtual;
 
-    return renderExternal
-      ? new (renderExternal.renderer as any)({ ...rendererOptions, ...renderExternal.rendererOptions })
+    if (renderExternal) {
+      return new (renderExternal.renderer as any)({ ...rendererOptions, ...renderExternal.rendererOptions });
+    }
+
+    // Panels can't be measured without their elements
+    if (virtual && !((virtual.panelSize ?? 0) > 0) && this._panelsPerView <= 0) {
+      throw new FlickingError(ERROR.MESSAGE.WRONG_OPTION("virtual.panelSize", virtual.panelSize), ERROR.CODE.WRONG_OPTION);
+    }
+
+    return virtual
+      ? new VirtualRenderer({ ...rendererOptions, ...virtual })
       : new VanillaRenderer(rendererOptions);
   }
 
+  private _createRenderingStrategy(): RenderingStrategy {
+    return this._renderOnlyVisible
+      ? new VisibleRenderingStrategy()
+      : new RawRenderingStrategy();
+  }
+
+  private async _resetCamera(): Promise<void> {
+    const prevCamera = this._camera;
+    const control = this._control;
+    const renderer = this._renderer;
+    const activePanel = control.activePanel;
+    const prevProgressInPanel = activePanel && this._initialized
+      ? prevCamera.getProgressInPanel(activePanel)
+      : 0;
+
+    const camera = this._createCamera();
+
+    prevCamera.destroy();
+    this._camera = camera;
+
+    if (!this._initialized) return;
+
+    camera.init(this);
+
+    // Reset panel orders toggled by the previous camera
+    renderer.panels.forEach(panel => panel.updateCircularToggleDirection());
+
+    // resize() will update the camera after applying the breakpoint
+    if (this._applyingBreakpoint) return;
+
+    await renderer.render();
+
+    camera.updateAlignPos();
+    camera.updateRange();
+    camera.updateAnchors();
+
+    await control.updatePosition(prevProgressInPanel);
+    control.updateInput();
+    camera.updateOffset();
+  }
+
+  private _resetControl(): void {
+    const prevControl = this._control;
+    const activePanel = prevControl.activePanel;
+    const wasEnabled = prevControl.controller.enabled;
+
+    // This can throw error when the moveType is wrong, so it should be called before destroying the previous control
+    const control = this._createControl();
+
+    // The animation of the previous control can't be finished after it's destroyed
+    prevControl.controller.stopAnimation();
+    prevControl.destroy();
+    this._control = control;
+
+    if (!this._initialized) return;
+
+    control.init(this);
+    control.setActivePanel(activePanel);
+    control.updateInput();
+
+    if (!wasEnabled) {
+      control.disable();
+    }
+  }
+
+  private _applyBreakpoint(): void {
+    const breakpoints = this._breakpoints;
+    const viewportWidth = this._viewport.width;
+    const prevBreakpoint = this._breakpoint;
+    const breakpoint = Object.keys(breakpoints)
+      .map(width => parseFloat(width))
+      .reduce((matched: number | null, width) => width <= viewportWidth && (matched == null || width > matched)
+        ? width
+        : matched, null);
+
+    if (breakpoint === prevBreakpoint) return;
+
+    type BreakpointOptions = FlickingOptions["breakpoints"][number];
+
+    const defaults = this._breakpointDefaults;
+    const prevOptions = prevBreakpoint != null ? breakpoints[prevBreakpoint] ?? {} : {};
+    const breakpointOptions = breakpoint != null ? breakpoints[breakpoint] : {};
+    const copyOption = <K extends keyof BreakpointOptions>(target: BreakpointOptions, source: BreakpointOptions, key: K) => {
+      target[key] = source[key];
+    };
+
+    // Keep the values set while the options are not overridden by the previous breakpoint
+    (Object.keys(defaults) as Array<keyof BreakpointOptions>).forEach(key => {
+      if (key in prevOptions) return;
+      copyOption(defaults, this, key);
+    });
+
+    const nextOptions = { ...defaults, ...breakpointOptions };
+
+    this._breakpoint = breakpoint;
+    this._applyingBreakpoint = true;
+
+    try {
+      (Object.keys(nextOptions) as Array<keyof BreakpointOptions>).forEach(key => {
+        if (nextOptions[key] === this[key]) return;
+        copyOption(this, nextOptions, key);
+      });
+    } finally {
+      this._applyingBreakpoint = false;
+    }
+
+    this.trigger(new ComponentEvent(EVENTS.BREAKPOINT_CHANGE, {
+      breakpoint,
+      prevBreakpoint,
+      options: breakpointOptions
+    }));
+  }
+
+  private _saveBreakpointDefaults(): void {
+    type BreakpointOptions = FlickingOptions["breakpoints"][number];
+
+    const breakpoints = this._breakpoints;
+    const defaults = this._breakpointDefaults;
+    const copyOption = <K extends keyof BreakpointOptions>(key: K) => {
+      defaults[key] = this[key];
+    };
+
+    // Save the initial values of the options, to restore them when leaving the breakpoint
+    Object.keys(breakpoints).forEach(width => {
+      const options = breakpoints[parseFloat(width)];
+
+      (Object.keys(options) as Array<keyof BreakpointOptions>).forEach(key => {
+        if (key in defaults) return;
+        copyOption(key);
+      });
+    });
+  }
+
+  private _move(
+    getIndex: () => number,
+    options: number | MoveOptions,
+    direction: ValueOf<typeof DIRECTION>,
+    defaultPolicy: ValueOf<typeof ANIMATION_POLICY>
+  ): Promise<void> {
+    const {
+      duration = this._duration,
+      easing,
+      signal,
+      policy = defaultPolicy
+    }: MoveOptions = typeof options === "number"
+      ? { duration: options }
+      : options;
+
+    const move = () => {
+      const renderer = this._renderer;
+
+      if (signal?.aborted) {
+        return Promise.reject(new FlickingError(ERROR.MESSAGE.ANIMATION_ABORTED, ERROR.CODE.ANIMATION_ABORTED));
+      }
+
+      const index = getIndex();
+      const panel = renderer.getPanel(index);
+
+      if (!panel) {
+        return Promise.reject(new FlickingError(ERROR.MESSAGE.INDEX_OUT_OF_RANGE(index, 0, renderer.panelCount - 1), ERROR.CODE.INDEX_OUT_OF_RANGE));
+      }
+
+      // The interrupt policy retargets the animation playing, as AxesController stops it when the new animation starts
+      if (policy !== ANIMATION_POLICY.INTERRUPT && this._control.animating) {
+        return Promise.reject(new FlickingError(ERROR.MESSAGE.ANIMATION_ALREADY_PLAYING, ERROR.CODE.ANIMATION_ALREADY_PLAYING));
+      }
+
+      const moveOptions: Parameters<Control["moveToPanel"]>[1] = { duration, direction };
+
+      if (easing) {
+        moveOptions.easing = easing;
+      }
+      if (signal) {
+        moveOptions.signal = signal;
+      }
+
+      return this._control.moveToPanel(panel, moveOptions);
+    };
+
+    if (policy === ANIMATION_POLICY.QUEUE && (this._control.animating || this._queuedMoves.length > 0)) {
+      return this._queueMove(move, signal);
+    }
+
+    return move();
+  }
+
+  private _queueMove(move: () => Promise<void>, signal?: AbortSignal): Promise<void> {
+    const queuedMoves = this._queuedMoves;
+    let cancelError: FlickingError | null = null;
+    let rejectMove: (err: FlickingError) => void = () => void 0;
+
+    const cancelled = new Promise<void>((resolve, reject) => {
+      rejectMove = reject;
+    });
+    const dequeue = () => {
+      const moveIdx = queuedMoves.indexOf(cancel);
+
+      if (moveIdx >= 0) {
+        queuedMoves.splice(moveIdx, 1);
+      }
+
+      signal?.removeEventListener("abort", onAbort);
+    };
+    const cancel = (err: FlickingError) => {
+      cancelError = err;
+      dequeue();
+      rejectMove(err);
+    };
+    const onAbort = () => {
+      cancel(new FlickingError(ERROR.MESSAGE.ANIMATION_ABORTED, ERROR.CODE.ANIMATION_ABORTED));
+    };
+
+    queuedMoves.push(cancel);
+    signal?.addEventListener("abort", onAbort);
+
+    // Moves are started in order, after the previous move & the animation playing are finished
+    const queuedMove = this._moveQueue
+      .then(() => this._waitForAnimationEnd())
+      .then(() => {
+        dequeue();
+
+        // The cancelled move is kept in the queue to keep the order of the moves after it
+        if (cancelError) return;
+
+        return move();
+      });
+
+    this._moveQueue = queuedMove.catch(() => void 0);
+
+    // Rejected without waiting when it's cancelled
+    return Promise.race([queuedMove, cancelled]);
+  }
+
+  private _cancelQueuedMoves(): void {
+    const queuedMoves = this._queuedMoves;
+
+    // The queue can wait for the moveEnd event which won't be triggered anymore
+    this._queuedMoves = [];
+    this._moveQueue = Promise.resolve();
+
+    queuedMoves.slice().forEach(cancel => {
+      cancel(new FlickingError(ERROR.MESSAGE.NOT_INITIALIZED, ERROR.CODE.NOT_INITIALIZED));
+    });
+  }
+
+  private _waitForAnimationEnd(): Promise<void> {
+    const control = this._control;
+
+    if (!control.animating) return Promise.resolve();
+
+    // The animation started by user input or Axes itself doesn't have the promise
+    const animationEnd = control.animation
+      ? control.animation.catch(() => void 0)
+      : new Promise<void>(resolve => this.once(EVENTS.MOVE_END, () => resolve()));
+
+    // Another animation can be started by user input in the meantime
+    return animationEnd.then(() => this._waitForAnimationEnd());
+  }
+
+  private _getAdjacentPanel(direction: ValueOf<typeof DIRECTION>): Panel | null {
+    const activePanel = this._control.activePanel;
+
+    if (!activePanel) return null;
+
+    if (this._panelsPerPage === 1) {
+      return direction === DIRECTION.PREV
+        ? activePanel.prev()
+        : activePanel.next();
+    }
+
+    // Move to the first panel of the adjacent page
+    const camera = this._camera;
+    const anchor = camera.findAnchorIncludePanel(activePanel);
+    const adjacentAnchor = anchor && (direction === DIRECTION.PREV
+      ? camera.getPrevAnchor(anchor)
+      : camera.getNextAnchor(anchor));
+
+    return adjacentAnchor?.panel ?? null;
+  }
+
+  private _migrateStatus(status: Status): Status {
+    this._validateStatus(status);
+
+    const version = status.version ?? 1;
+
+    if (version > STATUS_VERSION) {
+      throw new FlickingError(ERROR.MESSAGE.INCOMPATIBLE_STATUS(`version ${version} is newer than the supported version ${STATUS_VERSION}`), ERROR.CODE.INCOMPATIBLE_STATUS);
+    }
+
+    let migrated = status;
+
+    if (version < 2) {
+      // Camera position was restored only on the freeScroll mode
+      migrated = {
+        ...migrated,
+        version: 2,
+        position: this._control instanceof FreeControl
+          ? migrated.position
+          : undefined
+      };
+    }
+
+    return migrated;
+  }
+
+  private _validateStatus(status: Status): void {
+    const throwInvalid = (reason: string) => {
+      throw new FlickingError(ERROR.MESSAGE.INVALID_STATUS(reason), ERROR.CODE.INVALID_STATUS);
+    };
+
+    if (!status || typeof status !== "object") {
+      throwInvalid("status should be an object");
+    }
+
+    const { version, index, position, circular, visibleOffset, panels } = status;
+
+    if (version != null && !(isInteger(version) && version > 0)) {
+      throwInvalid(`"version" should be a positive integer, given: ${version}`);
+    }
+    if (index != null && !isInteger(index)) {
+      throwInvalid(`"index" should be an integer, given: ${index}`);
+    }
+    if (visibleOffset != null && !isInteger(visibleOffset)) {
+      throwInvalid(`"visibleOffset" should be an integer, given: ${visibleOffset}`);
+    }
+    if (circular != null && typeof circular !== "boolean") {
+      throwInvalid(`"circular" should be a boolean, given: ${circular}`);
+    }
+    if (position != null && (
+      typeof position !== "object"
+      || !isInteger(position.panel)
+      || !isFiniteNumber(position.progressInPanel)
+      || (position.absolute != null && !isFiniteNumber(position.absolute))
+    )) {
+      throwInvalid("\"position\" should have an integer \"panel\" and finite numbers \"progressInPanel\" and \"absolute\"");
+    }
+    if (!Array.isArray(panels)) {
+      throwInvalid("\"panels\" should be an array");
+    }
+
+    panels.forEach((panel, idx) => {
+      if (!panel || typeof panel !== "object" || !isInteger(panel.index)) {
+        throwInvalid(`"panels[${idx}].index" should be an integer`);
+      }
+      if (panel.html != null && typeof panel.html !== "string") {
+        throwInvalid(`"panels[${idx}].html" should be a string`);
+      }
+    });
+  }
+
   private _moveToInitialPanel(): void {
     const renderer = this._renderer;
     const control = this._control;
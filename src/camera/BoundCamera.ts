@@ -4,7 +4,7 @@
  */
 import Panel from "../core/panel/Panel";
 import AnchorPoint from "../core/AnchorPoint";
-import { getFlickingAttached } from "../utils";
+import { canSetBoundMode, getBoundRange, getFlickingAttached } from "../utils";
 
 import Camera from "./Camera";
 
@@ -39,10 +39,9 @@ class BoundCamera extends Camera {
     const firstPanelPrev = firstPanel.range.min;
     const lastPanelNext = lastPanel.range.max;
     const panelAreaSize = lastPanelNext - firstPanelPrev;
-    const canSetBoundMode = viewportSize < panelAreaSize;
 
-    if (canSetBoundMode) {
-      this._range = { min: firstPanelPrev + alignPos, max: lastPanelNext - viewportSize + alignPos };
+    if (canSetBoundMode(renderer.panelCount, panelAreaSize, viewportSize, flicking.panelsPerView)) {
+      this._range = getBoundRange(firstPanelPrev, lastPanelNext, viewportSize, alignPos);
     } else {
       this._range = { min: firstPanel.position, max: lastPanel.position };
     }
@@ -60,9 +59,12 @@ class BoundCamera extends Camera {
     }
 
     const range = this._range;
-    const reachablePanels = panels.filter(panel => this.canReach(panel));
+    const pageStartPanels = this._getPageStartPanels(panels);
+    const reachablePanels = pageStartPanels.filter(panel => this.canReach(panel));
 
     if (reachablePanels.length > 0) {
+      const firstReachableIndex = pageStartPanels.indexOf(reachablePanels[0]);
+      const lastReachableIndex = firstReachableIndex + reachablePanels.length - 1;
       const shouldPrependBoundAnchor = reachablePanels[0].position !== range.min;
       const shouldAppendBoundAnchor = reachablePanels[reachablePanels.length - 1].position !== range.max;
       const indexOffset = shouldPrependBoundAnchor ? 1 : 0;
@@ -77,7 +79,7 @@ class BoundCamera extends Camera {
         newAnchors.splice(0, 0, new AnchorPoint({
           index: 0,
           position: range.min,
-          panel: panels[reachablePanels[0].index - 1]
+          panel: pageStartPanels[firstReachableIndex - 1] ?? panels[reachablePanels[0].index - 1]
         }));
       }
 
@@ -85,7 +87,8 @@ class BoundCamera extends Camera {
         newAnchors.push(new AnchorPoint({
           index: newAnchors.length,
           position: range.max,
-          panel: panels[reachablePanels[reachablePanels.length - 1].index + 1]
+          // The last page can be partial, so the panel of the last page is used
+          panel: pageStartPanels[lastReachableIndex + 1] ?? panels[reachablePanels[reachablePanels.length - 1].index + 1]
         }));
       }
 
@@ -10,6 +10,7 @@ import Panel from "../core/panel/Panel";
 import AnchorPoint from "../core/AnchorPoint";
 import * as ERROR from "../const/error";
 import { ALIGN, DIRECTION, EVENTS } from "../const/external";
+import { PanelEffect } from "../type/external";
 import { checkExistence, clamp, getFlickingAttached, getProgress, includes, parseAlign } from "../utils";
 
 export interface CameraOptions {
@@ -35,6 +36,7 @@ abstract class Camera {
   protected _visiblePanels: Panel[];
   protected _anchors: AnchorPoint[];
   protected _needPanelTriggered: { prev: boolean; next: boolean };
+  protected _fadeApplied: boolean;
 
   // Internal states getter
   /**
@@ -260,6 +262,10 @@ abstract class Camera {
    * @return {void}
    */
   public destroy(): this {
+    if (this._flicking) {
+      this._resetFade();
+    }
+
     this._flicking = null;
     this._resetInternalValues();
     return this;
@@ -276,12 +282,20 @@ abstract class Camera {
    */
   public async lookAt(pos: number): Promise<void> {
     const prevPos = this._position;
+    const prevVisiblePanels = this._visiblePanels;
 
     this._position = pos;
     await this._refreshVisiblePanels();
     this._checkNeedPanel();
     this._checkReachEnd(prevPos, pos);
     this._applyTransform();
+
+    // Apply to the panels that just became invisible too, so they can reach the end of the effect
+    const visiblePanels = this._visiblePanels;
+    this._applyPanelEffects([
+      ...visiblePanels,
+      ...prevVisiblePanels.filter(panel => !panel.removed && !includes(visiblePanels, panel))
+    ]);
   }
 
   /**
@@ -343,6 +357,22 @@ abstract class Camera {
     }, null);
   }
 
+  /**
+   * Return {@link AnchorPoint} of the page that includes the given panel
+   * When {@link Flicking#panelsPerPage panelsPerPage} is 1, this is the {@link AnchorPoint} of the panel itself
+   * If there's no {@link AnchorPoint} before the given panel, return `null` instead
+   * @ko 주어진 패널을 포함하는 페이지의 {@link AnchorPoint}를 반환합니다
+   * {@link Flicking#panelsPerPage panelsPerPage}가 1일 경우, 패널 자신의 {@link AnchorPoint}를 반환합니다
+   * 주어진 패널 이전에 {@link AnchorPoint}가 하나도 없을 경우 `null`을 반환합니다
+   * @param {Panel} panel A panel to check<ko>확인할 패널</ko>
+   * @return {AnchorPoint | null} The {@link AnchorPoint} of the page that includes the given panel<ko>해당 패널을 포함하는 페이지의 {@link AnchorPoint}</ko>
+   */
+  public findAnchorIncludePanel(panel: Panel): AnchorPoint | null {
+    return this._anchors.reduce((found: AnchorPoint | null, anchor) => anchor.panel.index <= panel.index
+      ? anchor
+      : found, null);
+  }
+
   /**
    * Return {@link AnchorPoint} nearest to given position
    * If there're no {@link AnchorPoint}s, return `null` instead
@@ -443,7 +473,7 @@ abstract class Camera {
     const flicking = getFlickingAttached(this._flicking, "Camera");
     const panels = flicking.renderer.panels;
 
-    this._anchors = panels.map((panel, index) => new AnchorPoint({
+    this._anchors = this._getPageStartPanels(panels).map((panel, index) => new AnchorPoint({
       index,
       position: panel.position,
       panel
@@ -484,6 +514,17 @@ abstract class Camera {
     this._applyTransform();
   }
 
+  /**
+   * Apply all {@link PanelEffect}s of Flicking to the visible panels at the current position
+   * @ko 현재 위치에서 보이는 패널들에 Flicking의 모든 {@link PanelEffect}를 적용합니다
+   * @chainable
+   * @return {this}
+   */
+  public applyPanelEffects(): this {
+    this._applyPanelEffects(this._visiblePanels);
+    return this;
+  }
+
   /**
    * Reset the history of {@link Flicking#event:needPanel needPanel} events so it can be triggered again
    * @ko 발생한 {@link Flicking#event:needPanel needPanel} 이벤트들을 초기화하여 다시 발생할 수 있도록 합니다
@@ -503,6 +544,7 @@ abstract class Camera {
     this._visiblePanels = [];
     this._anchors = [];
     this._needPanelTriggered = { prev: false, next: false };
+    this._fadeApplied = false;
   }
 
   protected async _refreshVisiblePanels() {
@@ -527,6 +569,52 @@ abstract class Camera {
     }
   }
 
+  protected _applyPanelEffects(panels: Panel[]) {
+    const flicking = getFlickingAttached(this._flicking, "Camera");
+
+    // Plugins are not initialized yet
+    if (!flicking.initialized) return;
+
+    const effects = flicking.activePlugins
+      .filter((plugin): plugin is PanelEffect => typeof (plugin as PanelEffect).applyEffect === "function");
+
+    if (effects.length <= 0) return;
+
+    panels.forEach(panel => {
+      const state = {
+        progress: panel.progress,
+        outsetProgress: panel.outsetProgress,
+        visibleRatio: panel.visibleRatio
+      };
+
+      effects.forEach(effect => effect.applyEffect(panel, state));
+    });
+  }
+
+  protected _getPageStartPanels(panels: Panel[]): Panel[] {
+    const flicking = getFlickingAttached(this._flicking, "Camera");
+    const panelsPerPage = flicking.panelsPerPage;
+
+    if (panelsPerPage === "auto") {
+      const viewportSize = this.size;
+
+      return panels.reduce((pageStartPanels: Panel[], panel) => {
+        const pageStartPanel = pageStartPanels[pageStartPanels.length - 1];
+
+        // Allow 1px of difference, as panel sizes can be fractional
+        if (!pageStartPanel || panel.range.max - pageStartPanel.range.min > viewportSize + 1) {
+          pageStartPanels.push(panel);
+        }
+
+        return pageStartPanels;
+      }, []);
+    }
+
+    const panelCountInPage = Math.max(Math.floor(panelsPerPage), 1);
+
+    return panels.filter(panel => panel.index % panelCountInPage === 0);
+  }
+
   protected _checkNeedPanel(): void {
     const needPanelTriggered = this._needPanelTriggered;
 
@@ -594,17 +682,72 @@ abstract class Camera {
     }));
   }
 
+  protected _getActualPosition(): number {
+    return this._position - this._alignPos - this._offset;
+  }
+
   protected _applyTransform(): void {
     const el = this._el;
     const flicking = getFlickingAttached(this._flicking, "Camera");
 
-    const actualPosition = this._position - this._alignPos - this._offset;
+    const actualPosition = this._getActualPosition();
 
+    if (flicking.fade) {
+      el.style[this._transform] = "";
+      this._applyFade(actualPosition);
+      return;
+    }
+
+    this._resetFade();
+
+    // Camera should move to the opposite direction on the right-to-left layout
     el.style[this._transform] = flicking.horizontal
-      ? `translate(${-actualPosition}px)`
+      ? `translate(${flicking.rtlEnabled ? actualPosition : -actualPosition}px)`
       : `translate(0, ${-actualPosition}px)`;
   }
 
+  protected _applyFade(actualPosition: number): void {
+    const flicking = getFlickingAttached(this._flicking, "Camera");
+    const position = this._position;
+
+    flicking.renderer.panels.forEach(panel => {
+      const el = panel.element;
+
+      if (!el) return;
+
+      const panelPosition = panel.position + panel.offset;
+      // Move the panel to where it's shown when the camera is looking at it
+      const translate = position - panelPosition - actualPosition;
+      const opacity = 1 - clamp(Math.abs(position - panelPosition) / Math.max(panel.sizeIncludingMargin, 1), 0, 1);
+
+      el.style[this._transform] = flicking.horizontal
+        ? `translate(${flicking.rtlEnabled ? -translate : translate}px)`
+        : `translate(0, ${translate}px)`;
+      el.style.opacity = `${opacity}`;
+      el.style.visibility = opacity > 0 ? "" : "hidden";
+    });
+
+    this._fadeApplied = true;
+  }
+
+  protected _resetFade(): void {
+    if (!this._fadeApplied) return;
+
+    const flicking = getFlickingAttached(this._flicking, "Camera");
+
+    flicking.renderer.panels.forEach(panel => {
+      const el = panel.element;
+
+      if (!el) return;
+
+      el.style[this._transform] = "";
+      el.style.opacity = "";
+      el.style.visibility = "";
+    });
+
+    this._fadeApplied = false;
+  }
+
   protected _checkTranslateSupport = () => {
     const transforms = ["webkitTransform", "msTransform", "MozTransform", "OTransform", "transform"];
 
@@ -5,7 +5,7 @@
 import Panel from "../core/panel/Panel";
 import AnchorPoint from "../core/AnchorPoint";
 import { DIRECTION } from "../const/external";
-import { circulatePosition, getFlickingAttached } from "../utils";
+import { canSetCircularMode, circulatePosition, getFlickingAttached } from "../utils";
 import { ValueOf } from "../type/internal";
 
 import Camera from "./Camera";
@@ -156,14 +156,16 @@ class CircularCamera extends Camera {
     const firstPanelPrev = firstPanel.range.min - firstPanel.margin.prev;
     const lastPanelNext = lastPanel.range.max + lastPanel.margin.next;
 
-    const visibleSize = this.size;
     const panelSizeSum = lastPanelNext - firstPanelPrev;
-
-    const canSetCircularMode = panels
-      .every(panel => panelSizeSum - panel.size >= visibleSize);
-    this._circularEnabled = canSetCircularMode;
-
-    if (canSetCircularMode) {
+    const circularEnabled = canSetCircularMode(
+      panels.map(panel => panel.size),
+      panelSizeSum,
+      this.size,
+      flicking.panelsPerView
+    );
+    this._circularEnabled = circularEnabled;
+
+    if (circularEnabled) {
       this._range = { min: firstPanelPrev, max: lastPanelNext };
 
       panels.forEach(panel => panel.updateCircularToggleDirection());
@@ -195,15 +197,8 @@ class CircularCamera extends Camera {
     return await super.lookAt(pos);
   }
 
-  protected _applyTransform(): void {
-    const el = this._el;
-    const flicking = getFlickingAttached(this._flicking, "Camera");
-
-    const actualPosition = this._position - this._alignPos - this._offset + this._circularOffset;
-
-    el.style[this._transform] = flicking.horizontal
-      ? `translate(${-actualPosition}px)`
-      : `translate(0, ${-actualPosition}px)`;
+  protected _getActualPosition(): number {
+    return super._getActualPosition() + this._circularOffset;
   }
 
   protected _resetInternalValues() {
@@ -0,0 +1,338 @@
+/*
+ * Copyright (c) 2015 NAVER Corp.
+ * egjs projects are licensed under the MIT license
+ */
+import type { FlickingOptions } from "../Flicking";
+import { ALIGN, DIRECTION, MOVE_TYPE } from "../const/external";
+import { Status } from "../type/external";
+import {
+  canSetBoundMode,
+  canSetCircularMode,
+  clamp,
+  getBoundRange,
+  getCircularToggle,
+  isCircularToggled,
+  parseAlign
+} from "../utils";
+
+/**
+ * Options for the {@link getInitialRenderState}
+ * @ko {@link getInitialRenderState}에 사용되는 옵션
+ * @interface
+ * @property {Partial<FlickingOptions>} [options={}] Options of the Flicking that will be hydrated<ko>하이드레이션될 Flicking의 옵션</ko>
+ * @property {number} viewportSize Width of the viewport when {@link Flicking#horizontal horizontal} is `true`, and height else, without paddings
+ * <ko>{@link Flicking#horizontal horizontal}이 `true`일 경우 뷰포트의 너비, `false`일 경우 높이. 패딩은 포함하지 않습니다</ko>
+ * @property {number[]} panelSizes Known or estimated sizes of the panels including their margins. Ignored when {@link Flicking#panelsPerView panelsPerView} is set
+ * <ko>margin을 포함한, 미리 알고 있거나 추정한 패널들의 크기. {@link Flicking#panelsPerView panelsPerView}가 설정된 경우 무시됩니다</ko>
+ * @property {Status | null} [status=null] A status to restore, from the {@link Flicking#getStatus getStatus()}. {@link Flicking#defaultIndex defaultIndex} is used when it's not given
+ * <ko>복원할 {@link Flicking#getStatus getStatus()}의 상태값. 주어지지 않을 경우 {@link Flicking#defaultIndex defaultIndex}가 사용됩니다</ko>
+ * @property {"ltr" | "rtl"} [direction="ltr"] CSS `direction` of the viewport element, which is used when {@link Flicking#rtl rtl} is `"auto"`
+ * <ko>뷰포트 엘리먼트의 CSS `direction`. {@link Flicking#rtl rtl}이 `"auto"`일 경우 사용됩니다</ko>
+ */
+export interface InitialRenderStateOptions {
+  options: Partial<FlickingOptions>;
+  viewportSize: number;
+  panelSizes: number[];
+  status: Status | null;
+  direction: "ltr" | "rtl";
+}
+
+/**
+ * Markup state of the Flicking on its first paint
+ * @ko 첫 페인트 시점의 Flicking 마크업 상태
+ * @interface
+ * @property {number} index Index of the panel that will be active<ko>활성화될 패널의 인덱스</ko>
+ * @property {number} position Position of the camera<ko>카메라의 좌표</ko>
+ * @property {string} viewportClass Class names of the viewport element<ko>뷰포트 엘리먼트의 클래스 이름</ko>
+ * @property {string} cameraClass Class names of the camera element<ko>카메라 엘리먼트의 클래스 이름</ko>
+ * @property {object} cameraStyle Inline style of the camera element<ko>카메라 엘리먼트의 인라인 스타일</ko>
+ * @property {object[]} panels Panels to render, in the order of the elements inside the camera element<ko>카메라 엘리먼트 내부의 엘리먼트 순서대로 정렬된 렌더링할 패널들</ko>
+ * @property {number} panels.index Index of the panel<ko>패널의 인덱스</ko>
+ * @property {object} panels.style Inline style of the panel element<ko>패널 엘리먼트의 인라인 스타일</ko>
+ */
+export interface InitialRenderState {
+  index: number;
+  position: number;
+  viewportClass: string;
+  cameraClass: string;
+  cameraStyle: { [key: string]: string };
+  panels: Array<{
+    index: number;
+    style: { [key: string]: string };
+  }>;
+}
+
+interface PanelState {
+  index: number;
+  size: number;
+  margin: { prev: number; next: number };
+  pos: number;
+  position: number;
+  offset: number;
+}
+
+/**
+ * Compute the state of the markup that the hydrated Flicking will have, without touching `window` or `document`
+ * Frameworks can use it on the server side rendering, to render the camera transform & panels that match the hydrated Flicking, so the page won't jump on hydrate
+ * The computed direction can't be read on the server, so `direction` should be given for the right-to-left layouts when {@link Flicking#rtl rtl} is `"auto"`
+ * @ko `window`나 `document`에 접근하지 않고, 하이드레이션된 Flicking이 가질 마크업 상태를 계산합니다
+ * 프레임워크에서 서버 사이드 렌더링시 하이드레이션된 Flicking과 동일한 카메라 transform과 패널을 렌더링하여, 하이드레이션시 페이지가 튀지 않도록 할 수 있습니다
+ * 서버에서는 CSS `direction`의 계산값을 읽을 수 없으므로, {@link Flicking#rtl rtl}이 `"auto"`일 경우 오른쪽에서 왼쪽으로 배치되는 레이아웃에서는 `direction`을 지정해야 합니다
+ * @param {InitialRenderStateOptions} options An options object<ko>옵션 오브젝트</ko>
+ * @return {InitialRenderState} Markup state of the Flicking<ko>Flicking의 마크업 상태</ko>
+ * @example
+ * ```ts
+ * import { getInitialRenderState } from "@egjs/flicking";
+ *
+ * const state = getInitialRenderState({
+ *   options: { align: "prev", defaultIndex: 2, renderOnlyVisible: true },
+ *   viewportSize: 1000,
+ *   panelSizes: [300, 300, 300, 300, 300, 300]
+ * });
+ *
+ * const html = `<div class="${state.viewportClass}">
+ *   <div class="${state.cameraClass}" style="transform: ${state.cameraStyle.transform}">
+ *     ${state.panels.map(panel => renderPanel(panel.index)).join("")}
+ *   </div>
+ * </div>`;
+ * ```
+ */
+const getInitialRenderState = ({
+  options = {},
+  viewportSize,
+  panelSizes,
+  status = null,
+  direction = "ltr"
+}: Partial<InitialRenderStateOptions> & Pick<InitialRenderStateOptions, "viewportSize" | "panelSizes">): InitialRenderState => {
+  const {
+    align = ALIGN.CENTER,
+    defaultIndex = 0,
+    horizontal = true,
+    rtl = "auto",
+    circular = false,
+    bound = false,
+    panelsPerView = -1,
+    gap = 0,
+    fade = false,
+    moveType = MOVE_TYPE.SNAP,
+    renderOnlyVisible = false
+  } = options;
+  const cameraAlign = typeof align === "object"
+    ? (align as { camera: string | number }).camera
+    : align;
+  const panelAlign = typeof align === "object"
+    ? (align as { panel: string | number }).panel
+    : align;
+  const rtlEnabled = horizontal && (rtl === "auto" ? direction === "rtl" : rtl);
+  const moveTypeStr = Array.isArray(moveType) ? moveType[0] : moveType;
+  const viewportClass = horizontal ? "flicking-viewport" : "flicking-viewport vertical";
+  const cameraClass = "flicking-camera";
+
+  const panels = getPanelStates(panelSizes, { viewportSize, panelsPerView, gap, panelAlign });
+
+  if (panels.length <= 0) {
+    return { index: -1, position: 0, viewportClass, cameraClass, cameraStyle: { transform: "" }, panels: [] };
+  }
+
+  const firstPanel = panels[0];
+  const lastPanel = panels[panels.length - 1];
+  const alignPos = parseAlign(cameraAlign, viewportSize);
+  const panelAreaMin = firstPanel.pos - firstPanel.margin.prev;
+  const panelAreaMax = lastPanel.pos + lastPanel.size + lastPanel.margin.next;
+  const panelAreaSize = panelAreaMax - panelAreaMin;
+  const circularEnabled = circular
+    && canSetCircularMode(panels.map(panel => panel.size), panelAreaSize, viewportSize, panelsPerView);
+  const boundEnabled = !circular && bound
+    && canSetBoundMode(panels.length, lastPanel.pos + lastPanel.size - firstPanel.pos, viewportSize, panelsPerView);
+  const range = circularEnabled
+    ? { min: panelAreaMin, max: panelAreaMax }
+    : boundEnabled
+      ? getBoundRange(firstPanel.pos, lastPanel.pos + lastPanel.size, viewportSize, alignPos)
+      : { min: firstPanel.position, max: lastPanel.position };
+  const rangeDiff = range.max - range.min;
+
+  // Find where the camera should look at, like the Flicking#setStatus does
+  const freeScroll = moveTypeStr === MOVE_TYPE.FREE_SCROLL;
+  const visibleOffset = status?.visibleOffset ?? 0;
+  let index = status && status.index != null
+    ? status.index - visibleOffset
+    : defaultIndex;
+
+  if (!panels[index]) {
+    index = 0;
+  }
+
+  let position = clamp(panels[index].position, range.min, range.max);
+
+  // Status without the version restores the position only on the freeScroll mode
+  const statusPosition = status && (status.version != null || freeScroll)
+    ? status.position
+    : null;
+  const statusPanel = statusPosition
+    ? panels[statusPosition.panel - visibleOffset]
+    : null;
+
+  if (statusPosition && statusPanel) {
+    const restoredPosition = clamp(statusPanel.pos + statusPanel.size * statusPosition.progressInPanel, range.min, range.max);
+
+    if (freeScroll) {
+      index = statusPanel.index;
+      position = restoredPosition;
+    } else if (status?.index == null) {
+      // Snap control moves to the nearest anchor, only when the index is not given
+      const anchor = findNearestAnchor(getAnchors(panels, range), restoredPosition);
+
+      index = anchor.panel.index;
+      position = anchor.position;
+    }
+  }
+
+  // Place panels to the other side like the circular camera does
+  if (circularEnabled) {
+    panels.forEach(panel => {
+      const toggle = getCircularToggle({ min: panel.pos, max: panel.pos + panel.size }, range, alignPos, viewportSize);
+
+      if (!isCircularToggled(toggle.direction, toggle.position, position)) return;
+
+      panel.offset = toggle.direction === DIRECTION.PREV ? -rangeDiff : rangeDiff;
+    });
+  }
+
+  const visibleMin = position - alignPos;
+  const visibleMax = visibleMin + viewportSize;
+  const renderingPanels = renderOnlyVisible
+    ? panels.filter(panel => {
+      if (includeRange(panel, visibleMin, visibleMax)) return true;
+      if (!circularEnabled) return false;
+
+      if (visibleMin < range.min) {
+        return includeRange(panel, visibleMin + rangeDiff, visibleMax + rangeDiff);
+      } else if (visibleMax > range.max) {
+        return includeRange(panel, visibleMin - rangeDiff, visibleMax - rangeDiff);
+      }
+
+      return false;
+    })
+    : panels;
+
+  // Size of the panels that are not rendered before the camera
+  const renderOffset = panels
+    .filter(panel => renderingPanels.indexOf(panel) < 0 && panel.position + panel.offset < position)
+    .reduce((sum, panel) => sum + getSizeIncludingMargin(panel), 0);
+  const circularOffset = panels
+    .filter(panel => panel.offset !== 0)
+    .reduce((sum, panel) => panel.offset < 0
+      ? sum + getSizeIncludingMargin(panel)
+      : sum - getSizeIncludingMargin(panel), 0);
+  const actualPosition = position - alignPos - renderOffset + circularOffset;
+
+  const sortedPanels = [...renderingPanels]
+    .sort((panel1, panel2) => (panel1.position + panel1.offset) - (panel2.position + panel2.offset));
+
+  return {
+    index,
+    position,
+    viewportClass,
+    cameraClass,
+    cameraStyle: {
+      transform: fade
+        ? ""
+        : getTranslate(rtlEnabled ? actualPosition : -actualPosition, horizontal)
+    },
+    panels: sortedPanels.map(panel => {
+      const style: { [key: string]: string } = {};
+
+      if (panelsPerView > 0) {
+        // Next panel is placed at the left on the right-to-left layout
+        const prevMargin = horizontal ? (rtlEnabled ? "marginRight" : "marginLeft") : "marginTop";
+        const nextMargin = horizontal ? (rtlEnabled ? "marginLeft" : "marginRight") : "marginBottom";
+
+        style[horizontal ? "width" : "height"] = `${panel.size}px`;
+        style[prevMargin] = "0px";
+        style[nextMargin] = `${gap}px`;
+      }
+
+      if (fade) {
+        const panelPosition = panel.position + panel.offset;
+        const translate = position - panelPosition - actualPosition;
+        const opacity = 1 - clamp(Math.abs(position - panelPosition) / Math.max(getSizeIncludingMargin(panel), 1), 0, 1);
+
+        style.transform = getTranslate(rtlEnabled ? -translate : translate, horizontal);
+        style.opacity = `${opacity}`;
+        style.visibility = opacity > 0 ? "" : "hidden";
+      }
+
+      return { index: panel.index, style };
+    })
+  };
+};
+
+const getPanelStates = (panelSizes: number[], { viewportSize, panelsPerView, gap, panelAlign }: {
+  viewportSize: number;
+  panelsPerView: number;
+  gap: number;
+  panelAlign: number | string;
+}): PanelState[] => {
+  const sizeFromViewport = (viewportSize - gap * (panelsPerView - 1)) / panelsPerView;
+  let prevPanel: PanelState | null = null;
+
+  return panelSizes.map((panelSize, index) => {
+    const size = panelsPerView > 0 ? sizeFromViewport : panelSize;
+    const margin = panelsPerView > 0
+      ? { prev: 0, next: gap }
+      : { prev: 0, next: 0 };
+    const pos = prevPanel
+      ? prevPanel.pos + prevPanel.size + prevPanel.margin.next + margin.prev
+      : margin.prev;
+    const panel: PanelState = {
+      index,
+      size,
+      margin,
+      pos,
+      position: pos + parseAlign(panelAlign, size),
+      offset: 0
+    };
+
+    prevPanel = panel;
+
+    return panel;
+  });
+};
+
+// Anchors of the camera that the snap control can stop at, like the Camera#anchorPoints
+const getAnchors = (panels: PanelState[], range: { min: number; max: number }): Array<{ panel: PanelState; position: number }> => {
+  const reachablePanels = panels.filter(panel => panel.position >= range.min && panel.position <= range.max);
+
+  if (reachablePanels.length <= 0) {
+    return panels.map(panel => ({ panel, position: clamp(panel.position, range.min, range.max) }));
+  }
+
+  const firstPanel = reachablePanels[0];
+  const lastPanel = reachablePanels[reachablePanels.length - 1];
+  const anchors = reachablePanels.map(panel => ({ panel, position: panel.position }));
+
+  // Bound camera can stop at the edges of the range, with the panels outside of it
+  if (firstPanel.position !== range.min && panels[firstPanel.index - 1]) {
+    anchors.unshift({ panel: panels[firstPanel.index - 1], position: range.min });
+  }
+  if (lastPanel.position !== range.max && panels[lastPanel.index + 1]) {
+    anchors.push({ panel: panels[lastPanel.index + 1], position: range.max });
+  }
+
+  return anchors;
+};
+
+const findNearestAnchor = (anchors: Array<{ panel: PanelState; position: number }>, position: number) => anchors
+  .reduce((nearest, anchor) => Math.abs(anchor.position - position) <= Math.abs(nearest.position - position)
+    ? anchor
+    : nearest);
+
+const includeRange = (panel: PanelState, min: number, max: number) => max >= panel.pos && min <= panel.pos + panel.size;
+
+const getSizeIncludingMargin = (panel: PanelState) => panel.size + panel.margin.prev + panel.margin.next;
+
+const getTranslate = (position: number, horizontal: boolean) => horizontal
+  ? `translate(${position}px)`
+  : `translate(0, ${position}px)`;
+
+export default getInitialRenderState;
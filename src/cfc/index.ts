@@ -1,9 +1,13 @@
 import withFlickingMethods from "./withFlickingMethods";
 import sync from "./sync";
 import getRenderingPanels from "./getRenderingPanels";
+import getInitialRenderState from "./getInitialRenderState";
 
 export {
   withFlickingMethods,
   sync,
-  getRenderingPanels
+  getRenderingPanels,
+  getInitialRenderState
 };
+
+export type { InitialRenderStateOptions, InitialRenderState } from "./getInitialRenderState";
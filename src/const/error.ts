@@ -25,6 +25,10 @@
  * <ko>프레임워크(React, Angular, Vue ...)에서 사용 불가능한 메소드를 호출했을 경우</ko>
  * @property {number} NOT_INITIALIZED When the {@link Flicking#init} is not called before but is needed<ko>{@link Flicking#init}의 호출이 필요하나, 아직 호출되지 않았을 경우</ko>
  * @property {number} NO_ACTIVE When there're no active panel that flicking has selected. This may be due to the absence of any panels<ko>현재 Flicking이 선택한 패널이 없을 경우. 일반적으로 패널이 하나도 없는 경우에 발생할 수 있습니다</ko>
+ * @property {number} INVALID_STATUS When the {@link Status} given to the {@link Flicking#setStatus setStatus()} is malformed<ko>{@link Flicking#setStatus setStatus()}에 주어진 {@link Status}의 형식이 잘못된 경우</ko>
+ * @property {number} INCOMPATIBLE_STATUS When the {@link Status} given to the {@link Flicking#setStatus setStatus()} can't be restored with the current options or panels
+ * <ko>{@link Flicking#setStatus setStatus()}에 주어진 {@link Status}를 현재 옵션이나 패널로 복원할 수 없는 경우</ko>
+ * @property {number} ANIMATION_ABORTED When the animation is aborted by the `signal` given to the move<ko>이동에 주어진 `signal`에 의해 애니메이션이 중단된 경우</ko>
  */
 export const CODE = {
   WRONG_TYPE: 0,
@@ -40,7 +44,10 @@ export const CODE = {
   ANIMATION_ALREADY_PLAYING: 10,
   NOT_ALLOWED_IN_FRAMEWORK: 11,
   NOT_INITIALIZED: 12,
-  NO_ACTIVE: 13
+  NO_ACTIVE: 13,
+  INVALID_STATUS: 14,
+  INCOMPATIBLE_STATUS: 15,
+  ANIMATION_ABORTED: 16
 } as const;
 
 export const MESSAGE = {
@@ -57,5 +64,8 @@ export const MESSAGE = {
   ANIMATION_ALREADY_PLAYING: "Animation is already playing.",
   NOT_ALLOWED_IN_FRAMEWORK: "This behavior is not allowed in the frameworks like React, Vue, or Angular.",
   NOT_INITIALIZED: "Flicking is not initialized yet, call init() first.",
-  NO_ACTIVE: "There's no active panel that Flicking has selected. This may be due to the absence of any panels."
+  NO_ACTIVE: "There's no active panel that Flicking has selected. This may be due to the absence of any panels.",
+  INVALID_STATUS: (reason: string) => `Status is not in correct format: ${reason}.`,
+  INCOMPATIBLE_STATUS: (reason: string) => `Status can't be restored: ${reason}.`,
+  ANIMATION_ABORTED: "Animation is aborted by the signal."
 } as const;
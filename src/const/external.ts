@@ -19,6 +19,8 @@ export { CODE as ERROR_CODE } from "./error";
  * @property {"restored"} RESTORED restored event<ko>restored 이벤트</ko>
  * @property {"select"} SELECT select event<ko>select 이벤트</ko>
  * @property {"needPanel"} NEED_PANEL needPanel event<ko>needPanel 이벤트</ko>
+ * @property {"breakpointChange"} BREAKPOINT_CHANGE breakpointChange event<ko>breakpointChange 이벤트</ko>
+ * @property {"panelChange"} PANEL_CHANGE panelChange event<ko>panelChange 이벤트</ko>
  * @example
  * ```ts
  * import { EVENTS } from "@egjs/flicking";
@@ -41,7 +43,9 @@ export const EVENTS = {
   SELECT: "select",
   NEED_PANEL: "needPanel",
   VISIBLE_CHANGE: "visibleChange",
-  REACH_EDGE: "reachEdge"
+  REACH_EDGE: "reachEdge",
+  BREAKPOINT_CHANGE: "breakpointChange",
+  PANEL_CHANGE: "panelChange"
 } as const;
 
 /**
@@ -87,3 +91,29 @@ export const MOVE_TYPE = {
   SNAP: "snap",
   FREE_SCROLL: "freeScroll"
 } as const;
+
+/**
+ * An object with all possible {@link Flicking#animationPolicy animationPolicy}s
+ * @ko Flicking이 제공하는 {@link Flicking#animationPolicy animationPolicy}들을 담고 있는 객체
+ * @type {object}
+ * @property {"reject"} REJECT Reject the new move with {@link ERROR_CODE ANIMATION_ALREADY_PLAYING} while the animation is playing
+ * <ko>애니메이션이 진행중일 때 새 이동을 {@link ERROR_CODE ANIMATION_ALREADY_PLAYING} 에러와 함께 reject합니다</ko>
+ * @property {"queue"} QUEUE Start the new move after the current animation is finished. The queued moves are rejected when Flicking is destroyed or their `signal` is aborted
+ * <ko>현재 애니메이션이 끝난 이후에 새 이동을 시작합니다. 대기중인 이동은 Flicking이 제거되거나 해당 이동의 `signal`이 중단될 경우 reject됩니다</ko>
+ * @property {"interrupt"} INTERRUPT Retarget the current animation from its current position toward the new panel
+ * <ko>현재 애니메이션을 현재 위치에서 새 패널을 향하도록 변경합니다</ko>
+ */
+export const ANIMATION_POLICY = {
+  REJECT: "reject",
+  QUEUE: "queue",
+  INTERRUPT: "interrupt"
+} as const;
+
+/**
+ * Current version of the {@link Status} format that {@link Flicking#getStatus getStatus()} returns
+ * {@link Flicking#setStatus setStatus()} migrates the status of the older versions to this version
+ * @ko {@link Flicking#getStatus getStatus()}가 반환하는 {@link Status} 형식의 현재 버전
+ * {@link Flicking#setStatus setStatus()}는 이전 버전의 상태값을 이 버전으로 변환합니다
+ * @type {number}
+ */
+export const STATUS_VERSION = 2;
@@ -8,9 +8,10 @@ import Flicking from "../Flicking";
 import FlickingError from "../core/FlickingError";
 import * as AXES from "../const/axes";
 import * as ERROR from "../const/error";
-import { getFlickingAttached, parseBounce } from "../utils";
+import { getFlickingAttached, includes, parseBounce } from "../utils";
 
 import StateMachine from "./StateMachine";
+import WheelInput from "./WheelInput";
 
 /**
  * A controller that handles the {@link https://naver.github.io/egjs-axes/ @egjs/axes} events
@@ -21,9 +22,14 @@ class AxesController {
   private _flicking: Flicking | null;
   private _axes: Axes | null;
   private _panInput: PanInput | null;
+  private _wheelInput: WheelInput | null;
   private _stateMachine: StateMachine;
 
   private _animatingContext: { start: number; end: number; offset: number };
+  private _settleAnimation: ((error: FlickingError | null) => void) | null;
+  private _animationEasing: ((x: number) => number) | null;
+  private _animationEndTime: number;
+  private _inputOutdated: boolean;
 
   /**
    * An {@link https://naver.github.io/egjs-axes/release/latest/doc/eg.Axes.html Axes} instance
@@ -33,6 +39,21 @@ class AxesController {
    * @readonly
    */
   public get axes() { return this._axes; }
+  /**
+   * An {@link https://naver.github.io/egjs-axes/release/latest/doc/eg.PanInput.html PanInput} instance connected to the Axes
+   * @ko Axes에 연결된 {@link https://naver.github.io/egjs-axes/release/latest/doc/eg.PanInput.html PanInput}의 인스턴스
+   * @type {PanInput}
+   * @see https://naver.github.io/egjs-axes/release/latest/doc/eg.PanInput.html
+   * @readonly
+   */
+  public get panInput() { return this._panInput; }
+  /**
+   * A {@link WheelInput} instance connected to the Axes. It's `null` if {@link Flicking#inputType inputType} doesn't include `"wheel"`
+   * @ko Axes에 연결된 {@link WheelInput}의 인스턴스. {@link Flicking#inputType inputType}에 `"wheel"`이 포함되지 않은 경우 `null`입니다
+   * @type {WheelInput | null}
+   * @readonly
+   */
+  public get wheelInput() { return this._wheelInput; }
   /**
    * A activated {@link State} that shows the current status of the user input or the animation
    * @ko 현재 활성화된 {@link State} 인스턴스로 사용자 입력 또는 애니메이션 상태를 나타냅니다
@@ -96,18 +117,22 @@ class AxesController {
     }, {
       deceleration: flicking.deceleration,
       interruptable: flicking.interruptable,
-      easing: flicking.easing
-    });
-    this._panInput = new PanInput(flicking.viewport.element, {
-      inputType: flicking.inputType,
-      iOSEdgeSwipeThreshold: flicking.iOSEdgeSwipeThreshold,
-      scale: flicking.horizontal ? [-1, 0] : [0, -1]
+      // Axes reads the easing on every frame, so the easing given to animateTo() is applied to its animation only
+      easing: (x: number) => (this._animationEasing ?? flicking.easing)(x)
     });
+    this._panInput = this._createPanInput(flicking);
+    this._wheelInput = this._createWheelInput(flicking);
 
     const axes = this._axes;
 
+    // Attached before the state machine, to be synced before the moveEnd event can start another animation
+    axes.on(AXES.EVENT.FINISH, this._onAnimationFinish);
     axes.connect(flicking.horizontal ? [AXES.POSITION_KEY, ""] : ["", AXES.POSITION_KEY], this._panInput);
 
+    if (this._wheelInput) {
+      axes.connect([AXES.POSITION_KEY], this._wheelInput);
+    }
+
     for (const key in AXES.EVENT) {
       const eventType = AXES.EVENT[key] as keyof AxesEvents;
 
@@ -130,30 +155,79 @@ class AxesController {
   public destroy(): void {
     this._axes?.destroy();
     this._panInput?.destroy();
+    this._wheelInput?.destroy();
 
     this._resetInternalValues();
   }
 
   /**
-   * Enable input from the user (mouse/touch)
-   * @ko 사용자의 입력(마우스/터치)를 활성화합니다
+   * Enable input from the user (mouse/touch/wheel)
+   * @ko 사용자의 입력(마우스/터치/휠)를 활성화합니다
    * @chainable
    * @return {this}
    */
   public enable(): this {
     this._panInput?.enable();
+    this._wheelInput?.enable();
 
     return this;
   }
 
   /**
-   * Disable input from the user (mouse/touch)
-   * @ko 사용자의 입력(마우스/터치)를 막습니다
+   * Disable input from the user (mouse/touch/wheel)
+   * @ko 사용자의 입력(마우스/터치/휠)를 막습니다
    * @chainable
    * @return {this}
    */
   public disable(): this {
     this._panInput?.disable();
+    this._wheelInput?.disable();
+
+    return this;
+  }
+
+  /**
+   * Recreate the {@link https://naver.github.io/egjs-axes/release/latest/doc/eg.Axes.PanInput.html PanInput} and the {@link WheelInput} to apply the current {@link Flicking#horizontal horizontal}, {@link Flicking#inputType inputType} and {@link Flicking#wheelCrossAxis wheelCrossAxis} options
+   * The enabled state of the previous input is preserved
+   * @ko 현재 {@link Flicking#horizontal horizontal}, {@link Flicking#inputType inputType}과 {@link Flicking#wheelCrossAxis wheelCrossAxis} 옵션을 적용하기 위해 {@link https://naver.github.io/egjs-axes/release/latest/doc/eg.Axes.PanInput.html PanInput}과 {@link WheelInput}을 새로 생성합니다
+   * 이전 입력의 활성화 상태는 그대로 유지됩니다
+   * @chainable
+   * @throws {FlickingError}
+   * {@link ERROR_CODE NOT_ATTACHED_TO_FLICKING} When {@link AxesController#init init} is not called before
+   * <ko>{@link AxesController#init init}이 이전에 호출되지 않은 경우</ko>
+   * @return {this}
+   */
+  public resetPanInput(): this {
+    const flicking = getFlickingAttached(this._flicking, "Control");
+    const axes = this._axes!;
+    const prevPanInput = this._panInput;
+    const prevWheelInput = this._wheelInput;
+    const wasEnabled = this.enabled;
+
+    if (prevPanInput) {
+      axes.disconnect(prevPanInput);
+      prevPanInput.destroy();
+    }
+    if (prevWheelInput) {
+      axes.disconnect(prevWheelInput);
+      prevWheelInput.destroy();
+    }
+
+    const panInput = this._createPanInput(flicking);
+    const wheelInput = this._createWheelInput(flicking);
+
+    axes.connect(flicking.horizontal ? [AXES.POSITION_KEY, ""] : ["", AXES.POSITION_KEY], panInput);
+    this._panInput = panInput;
+
+    if (wheelInput) {
+      axes.connect([AXES.POSITION_KEY], wheelInput);
+    }
+    this._wheelInput = wheelInput;
+
+    if (!wasEnabled) {
+      panInput.disable();
+      wheelInput?.disable();
+    }
 
     return this;
   }
@@ -169,16 +243,12 @@ class AxesController {
    */
   public update(): this {
     const flicking = getFlickingAttached(this._flicking, "Control");
-    const camera = flicking.camera;
     const axes = this._axes!;
-    const controlParams = camera.controlParams;
-    const axis = axes.axis[AXES.POSITION_KEY];
 
-    axis.circular = [controlParams.circular, controlParams.circular];
-    axis.range = [controlParams.range.min, controlParams.range.max];
-    axis.bounce = parseBounce(flicking.bounce, camera.size);
+    this._updateAxis();
+    this._inputOutdated = false;
 
-    axes.axm.set({ [AXES.POSITION_KEY]: controlParams.position });
+    axes.axm.set({ [AXES.POSITION_KEY]: flicking.camera.controlParams.position });
 
     return this;
   }
@@ -189,27 +259,47 @@ class AxesController {
    * @param {number} position A position to move<ko>이동할 좌표</ko>
    * @param {number} duration Duration of the animation (unit: ms)<ko>애니메이션 진행 시간 (단위: ms)</ko>
    * @param {number} [axesEvent] If provided, it'll use its {@link https://naver#github#io/egjs-axes/release/latest/doc/eg#Axes#html#setTo setTo} method instead<ko>이 값이 주어졌을 경우, 해당 이벤트의 {@link https://naver#github#io/egjs-axes/release/latest/doc/eg#Axes#html#setTo setTo} 메소드를 대신해서 사용합니다.</ko>
+   * @param {object} [options] An options object<ko>옵션 오브젝트</ko>
+   * @param {function} [options.easing={@link Flicking#easing options.easing}] An easing function applied to this animation only<ko>이 애니메이션에만 적용할 easing 함수</ko>
+   * @param {AbortSignal} [options.signal] A signal to stop the animation at the current position<ko>애니메이션을 현재 위치에서 멈추기 위한 signal</ko>
    * @throws {FlickingError}
    * |code|condition|
    * |---|---|
    * |{@link ERROR_CODE NOT_ATTACHED_TO_FLICKING}|When {@link Control#init init} is not called before|
-   * |{@link ERROR_CODE ANIMATION_INTERRUPTED}|When the animation is interrupted by user input|
+   * |{@link ERROR_CODE ANIMATION_INTERRUPTED}|When the animation is interrupted by user input or another animation|
+   * |{@link ERROR_CODE ANIMATION_ABORTED}|When the animation is aborted by the signal|
    * <ko>
    *
    * |code|condition|
    * |---|---|
    * |{@link ERROR_CODE NOT_ATTACHED_TO_FLICKING}|{@link Control#init init}이 이전에 호출되지 않은 경우|
-   * |{@link ERROR_CODE ANIMATION_INTERRUPTED}|사용자 입력에 의해 애니메이션이 중단된 경우|
+   * |{@link ERROR_CODE ANIMATION_INTERRUPTED}|사용자 입력이나 다른 애니메이션에 의해 애니메이션이 중단된 경우|
+   * |{@link ERROR_CODE ANIMATION_ABORTED}|signal에 의해 애니메이션이 중단된 경우|
    *
    * </ko>
    * @return {Promise<void>} A Promise which will be resolved after reaching the target position<ko>해당 좌표 도달시에 resolve되는 Promise</ko>
    */
-  public animateTo(position: number, duration: number, axesEvent?: OnRelease): Promise<void> {
+  public animateTo(position: number, duration: number, axesEvent?: OnRelease, {
+    easing,
+    signal
+  }: {
+    easing?: (x: number) => number;
+    signal?: AbortSignal;
+  } = {}): Promise<void> {
     const axes = this._axes;
 
     if (!axes) {
       return Promise.reject(new FlickingError(ERROR.MESSAGE.NOT_ATTACHED_TO_FLICKING("Control"), ERROR.CODE.NOT_ATTACHED_TO_FLICKING));
     }
+    if (signal?.aborted) {
+      return Promise.reject(new FlickingError(ERROR.MESSAGE.ANIMATION_ABORTED, ERROR.CODE.ANIMATION_ABORTED));
+    }
+
+    // The animation playing will be retargeted to the new position
+    // It's already finished when the state machine has left the animating state, like in the moveEnd event handler
+    this._settleAnimation?.(this.state.animating
+      ? new FlickingError(ERROR.MESSAGE.ANIMATION_INTERRUPTED, ERROR.CODE.ANIMATION_INTERRUPTED)
+      : null);
 
     const startPos = axes.get([AXES.POSITION_KEY])[AXES.POSITION_KEY];
 
@@ -230,6 +320,7 @@ class AxesController {
         this._animatingContext = { start: 0, end: 0, offset: 0 };
       };
 
+      this._animationEndTime = Date.now() + duration;
       axes.once(AXES.EVENT.FINISH, resetContext);
 
       if (axesEvent) {
@@ -246,33 +337,171 @@ class AxesController {
       return Promise.resolve();
     } else {
       return new Promise((resolve, reject) => {
-        const animationFinishHandler = () => {
+        let settled = false;
+
+        // Handlers are attached with on() instead of once(), as the handlers attached with once() can't be detached with off()
+        const settle = (error: FlickingError | null) => {
+          // Handlers detached while the event is triggering can be called once more
+          if (settled) return;
+
+          settled = true;
+          axes.off(AXES.EVENT.FINISH, animationFinishHandler);
           axes.off(AXES.EVENT.HOLD, interruptionHandler);
-          resolve();
+          signal?.removeEventListener("abort", abortHandler);
+          this._settleAnimation = null;
+          // Reset the easing, so it won't be applied to the animations of Axes itself like the bounce
+          this._animationEasing = null;
+
+          if (error) {
+            reject(error);
+          } else {
+            resolve();
+          }
+        };
+
+        const animationFinishHandler = () => {
+          settle(null);
         };
 
         const interruptionHandler = () => {
-          axes.off(AXES.EVENT.FINISH, animationFinishHandler);
-          reject(new FlickingError(ERROR.MESSAGE.ANIMATION_INTERRUPTED, ERROR.CODE.ANIMATION_INTERRUPTED));
+          settle(new FlickingError(ERROR.MESSAGE.ANIMATION_INTERRUPTED, ERROR.CODE.ANIMATION_INTERRUPTED));
+        };
+
+        const abortHandler = () => {
+          if (settled) return;
+
+          settle(new FlickingError(ERROR.MESSAGE.ANIMATION_ABORTED, ERROR.CODE.ANIMATION_ABORTED));
+          this._stopAtCurrentPosition();
         };
 
-        axes.once(AXES.EVENT.FINISH, animationFinishHandler);
+        axes.on(AXES.EVENT.FINISH, animationFinishHandler);
 
         if (!axesEvent) {
-          axes.once(AXES.EVENT.HOLD, interruptionHandler);
+          axes.on(AXES.EVENT.HOLD, interruptionHandler);
         }
 
+        signal?.addEventListener("abort", abortHandler);
+        this._settleAnimation = settle;
+
+        this._animationEasing = easing ?? null;
         animate();
       });
     }
   }
 
+  /**
+   * Change the destination of the animation playing to the given position, keeping its remaining duration
+   * The range of the camera is applied to the animation, and the position of the input is updated after the animation ends
+   * The Promise returned by {@link AxesController#animateTo animateTo()} is resolved after reaching the new destination
+   * @ko 현재 재생중인 애니메이션의 목적지를 주어진 좌표로 변경합니다. 남은 애니메이션 시간은 그대로 유지됩니다
+   * 카메라의 범위는 애니메이션에 바로 적용되며, 입력의 좌표는 애니메이션이 끝난 이후에 갱신됩니다
+   * {@link AxesController#animateTo animateTo()}가 반환한 Promise는 새 목적지에 도달한 이후에 resolve됩니다
+   * @param {number} position A new destination of the animation<ko>애니메이션의 새 목적지</ko>
+   * @chainable
+   * @return {this}
+   */
+  public retargetAnimation(position: number): this {
+    const axes = this._axes;
+
+    if (!axes || !this.state.animating) return this;
+
+    const remainingDuration = Math.max(this._animationEndTime - Date.now(), 0);
+
+    // Setting the position of Axes while the animation is playing will break it, so it's deferred to the end of the animation
+    this._updateAxis();
+    this._inputOutdated = true;
+
+    this._animatingContext = {
+      ...this._animatingContext,
+      end: position
+    };
+
+    if (position === this.position) {
+      // It has already reached the new destination
+      this._settleAnimation?.(null);
+      this._stopAtCurrentPosition();
+    } else {
+      axes.setTo({ [AXES.POSITION_KEY]: position }, remainingDuration);
+    }
+
+    return this;
+  }
+
+  /**
+   * Stop the animation playing at the current position
+   * The Promise returned by {@link AxesController#animateTo animateTo()} is rejected with {@link ERROR_CODE ANIMATION_INTERRUPTED}
+   * @ko 현재 재생중인 애니메이션을 현재 위치에서 멈춥니다
+   * {@link AxesController#animateTo animateTo()}가 반환한 Promise는 {@link ERROR_CODE ANIMATION_INTERRUPTED}와 함께 reject됩니다
+   * @chainable
+   * @return {this}
+   */
+  public stopAnimation(): this {
+    if (!this._axes || !this.state.animating) return this;
+
+    this._settleAnimation?.(new FlickingError(ERROR.MESSAGE.ANIMATION_INTERRUPTED, ERROR.CODE.ANIMATION_INTERRUPTED));
+    this._stopAtCurrentPosition();
+
+    return this;
+  }
+
+  protected _createPanInput(flicking: Flicking): PanInput {
+    return new PanInput(flicking.viewport.element, {
+      inputType: flicking.inputType,
+      iOSEdgeSwipeThreshold: flicking.iOSEdgeSwipeThreshold,
+      scale: flicking.horizontal
+        ? [flicking.rtlEnabled ? 1 : -1, 0]
+        : [0, -1]
+    });
+  }
+
+  protected _createWheelInput(flicking: Flicking): WheelInput | null {
+    if (!includes(flicking.inputType, "wheel")) return null;
+
+    return new WheelInput(flicking, {
+      crossAxis: flicking.wheelCrossAxis
+    });
+  }
+
   protected _resetInternalValues() {
     this._flicking = null;
     this._axes = null;
     this._panInput = null;
+    this._wheelInput = null;
+    this._animatingContext = { start: 0, end: 0, offset: 0 };
+    this._settleAnimation = null;
+    this._animationEasing = null;
+    this._animationEndTime = 0;
+    this._inputOutdated = false;
+  }
+
+  private _updateAxis() {
+    const flicking = getFlickingAttached(this._flicking, "Control");
+    const camera = flicking.camera;
+    const controlParams = camera.controlParams;
+    const axis = this._axes!.axis[AXES.POSITION_KEY];
+
+    axis.circular = [controlParams.circular, controlParams.circular];
+    axis.range = [controlParams.range.min, controlParams.range.max];
+    axis.bounce = parseBounce(flicking.bounce, camera.size);
+  }
+
+  private _stopAtCurrentPosition() {
+    const flicking = getFlickingAttached(this._flicking, "Control");
+    const axes = this._axes!;
+
+    // Setting to the current position stops the animation, but Axes won't trigger the finish event for it
+    axes.setTo({ [AXES.POSITION_KEY]: this.position }, 0);
+    this._onAnimationFinish();
+    // So the state machine is stopped manually, to return to the idle state and trigger the moveEnd event
+    this._stateMachine.stop(flicking);
     this._animatingContext = { start: 0, end: 0, offset: 0 };
   }
+
+  private _onAnimationFinish = () => {
+    if (!this._inputOutdated) return;
+
+    this.update();
+  };
 }
 
 export default AxesController;
@@ -23,6 +23,8 @@ abstract class Control {
   protected _flicking: Flicking | null;
   protected _controller: AxesController;
   protected _activePanel: Panel | null;
+  protected _animation: Promise<void> | null;
+  protected _animationTarget: { panel: Panel; offset: number; rangeDiff: number; panelSize: number } | null;
 
   /**
    * A controller that handles the {@link https://naver.github.io/egjs-axes/ @egjs/axes} events
@@ -60,12 +62,21 @@ abstract class Control {
    * @readonly
    */
   public get holding() { return this._controller.state.holding; }
+  /**
+   * A Promise of the animation currently playing, which is resolved after the {@link Control#activePanel activePanel} is updated. `null` if there's no animation playing
+   * @ko 현재 재생중인 애니메이션의 Promise로, {@link Control#activePanel activePanel}이 갱신된 이후에 resolve됩니다. 재생중인 애니메이션이 없을 경우 `null`입니다
+   * @type {Promise<void> | null}
+   * @readonly
+   */
+  public get animation() { return this._animation; }
 
   /** */
   public constructor() {
     this._flicking = null;
     this._controller = new AxesController();
     this._activePanel = null;
+    this._animation = null;
+    this._animationTarget = null;
   }
 
   /**
@@ -135,6 +146,8 @@ abstract class Control {
 
     this._flicking = null;
     this._activePanel = null;
+    this._animation = null;
+    this._animationTarget = null;
   }
 
   /**
@@ -181,6 +194,53 @@ abstract class Control {
     }
   }
 
+  /**
+   * Retarget the animation playing to the new position of its destination panel, keeping the remaining duration
+   * This is used to keep the destination of the animation after the panel sizes are changed by {@link Flicking#resize resize()}
+   * @ko 현재 재생중인 애니메이션의 목적지를 목적지 패널의 새 위치로 변경합니다. 남은 애니메이션 시간은 그대로 유지됩니다
+   * {@link Flicking#resize resize()}에 의해 패널 크기가 변경된 이후에도 애니메이션의 목적지를 유지하기 위해 사용됩니다
+   * @throws {FlickingError}
+   * {@link ERROR_CODE NOT_ATTACHED_TO_FLICKING} When {@link Control#init init} is not called before
+   * <ko>{@link ERROR_CODE NOT_ATTACHED_TO_FLICKING} {@link Control#init init}이 이전에 호출되지 않은 경우</ko>
+   * @chainable
+   * @return {this}
+   */
+  public updateAnimation(): this {
+    const flicking = getFlickingAttached(this._flicking, "Control");
+    const camera = flicking.camera;
+    const target = this._animationTarget;
+
+    if (!this.animating) return this;
+
+    if (!target || target.panel.removed) {
+      // Keep the current destination, while applying the new range of the camera
+      this._controller.retargetAnimation(this._controller.animatingContext.end);
+
+      return this;
+    }
+
+    const { panel, offset, rangeDiff, panelSize } = target;
+    // Offset from the panel can include the loops of the circular mode, which should be applied with the new range
+    const loops = flicking.circularEnabled && rangeDiff > 0
+      ? Math.round(offset / rangeDiff)
+      : 0;
+    const offsetInPanel = (offset - loops * rangeDiff) * (panelSize > 0 ? panel.size / panelSize : 1);
+    const position = panel.position + loops * camera.rangeDiff + offsetInPanel;
+    const newPosition = flicking.circularEnabled
+      ? position
+      : camera.clampToReachablePosition(position);
+
+    this._animationTarget = {
+      panel,
+      offset: newPosition - panel.position,
+      rangeDiff: camera.rangeDiff,
+      panelSize: panel.size
+    };
+    this._controller.retargetAnimation(newPosition);
+
+    return this;
+  }
+
   /**
    * Update {@link Control#controller controller}'s state
    * @ko {@link Control#controller controller}의 내부 상태를 갱신합니다
@@ -205,6 +265,22 @@ abstract class Control {
     return this;
   }
 
+  /**
+   * Set {@link Control#activePanel activePanel} to the given panel without triggering any events
+   * This is used to keep the active panel when {@link Flicking#control control} is replaced
+   * @ko {@link Control#activePanel activePanel}을 이벤트 발생 없이 주어진 패널로 설정합니다
+   * {@link Flicking#control control}이 교체될 때 현재 선택된 패널을 유지하기 위해 사용됩니다
+   * @param {Panel | null} panel A new active panel<ko>새로 선택할 패널</ko>
+   * @internal
+   * @chainable
+   * @return {this}
+   */
+  public setActivePanel(panel: Panel | null): this {
+    this._activePanel = panel;
+
+    return this;
+  }
+
   /**
    * Move {@link Camera} to the given panel
    * @ko {@link Camera}를 해당 패널 위로 이동합니다
@@ -214,6 +290,8 @@ abstract class Control {
    * @param {object} [axesEvent] {@link https://naver.github.io/egjs-axes/release/latest/doc/eg.Axes.html#event:release release} event of {@link https://naver.github.io/egjs-axes/ Axes}
    * <ko>{@link https://naver.github.io/egjs-axes/ Axes}의 {@link https://naver.github.io/egjs-axes/release/latest/doc/eg.Axes.html#event:release release} 이벤트</ko>
    * @param {DIRECTION} [direction=DIRECTION.NONE] Direction to move, only available in the {@link Flicking#circular circular} mode<ko>이동할 방향. {@link Flicking#circular circular} 옵션 활성화시에만 사용 가능합니다</ko>
+   * @param {function} [easing={@link Flicking#easing options.easing}] An easing function applied to this animation only<ko>이 애니메이션에만 적용할 easing 함수</ko>
+   * @param {AbortSignal} [signal] A signal to stop the animation at the current position<ko>애니메이션을 현재 위치에서 멈추기 위한 signal</ko>
    * @fires Flicking#moveStart
    * @fires Flicking#move
    * @fires Flicking#moveEnd
@@ -231,6 +309,7 @@ abstract class Control {
    * |{@link ERROR_CODE NOT_ATTACHED_TO_FLICKING}|When {@link Control#init init} is not called before|
    * |{@link ERROR_CODE ANIMATION_INTERRUPTED}|When the animation is interrupted by user input|
    * |{@link ERROR_CODE STOP_CALLED_BY_USER}|When the animation is interrupted by user input|
+   * |{@link ERROR_CODE ANIMATION_ABORTED}|When the animation is aborted by the signal|
    * <ko>
    *
    * |code|condition|
@@ -239,6 +318,7 @@ abstract class Control {
    * |{@link ERROR_CODE NOT_ATTACHED_TO_FLICKING}|{@link Control#init init}이 이전에 호출되지 않은 경우|
    * |{@link ERROR_CODE ANIMATION_INTERRUPTED}|사용자 입력에 의해 애니메이션이 중단된 경우|
    * |{@link ERROR_CODE STOP_CALLED_BY_USER}|발생된 이벤트들 중 하나라도 `stop()`이 호출된 경우|
+   * |{@link ERROR_CODE ANIMATION_ABORTED}|signal에 의해 애니메이션이 중단된 경우|
    *
    * </ko>
    * @return {Promise<void>} A Promise which will be resolved after reaching the target panel<ko>해당 패널 도달시에 resolve되는 Promise</ko>
@@ -246,15 +326,24 @@ abstract class Control {
   public async moveToPanel(panel: Panel, {
     duration,
     direction = DIRECTION.NONE,
-    axesEvent
+    axesEvent,
+    easing,
+    signal
   }: {
     duration: number;
     direction?: ValueOf<typeof DIRECTION>;
     axesEvent?: OnRelease;
+    easing?: (x: number) => number;
+    signal?: AbortSignal;
   }) {
     const flicking = getFlickingAttached(this._flicking, "Control");
     const camera = flicking.camera;
 
+    if (flicking.panelsPerPage !== 1 && !panel.removed) {
+      // Move to the first panel of the page instead
+      panel = camera.findAnchorIncludePanel(panel)?.panel ?? panel;
+    }
+
     let position = panel.position;
     const nearestAnchor = camera.findNearestAnchor(position);
 
@@ -289,7 +378,7 @@ abstract class Control {
 
     this._triggerIndexChangeEvent(panel, panel.position, axesEvent);
 
-    return this._animateToPosition({ position, duration, newActivePanel: panel, axesEvent });
+    return this._animateToPosition({ position, duration, newActivePanel: panel, axesEvent, easing, signal });
   }
 
   protected _triggerIndexChangeEvent(panel: Panel, position: number, axesEvent?: OnRelease): void {
@@ -315,16 +404,20 @@ abstract class Control {
     position,
     duration,
     newActivePanel,
-    axesEvent
+    axesEvent,
+    easing,
+    signal
   }: {
     position: number;
     duration: number;
     newActivePanel: Panel;
     axesEvent?: OnRelease;
+    easing?: (x: number) => number;
+    signal?: AbortSignal;
   }) {
     const flicking = getFlickingAttached(this._flicking, "Control");
     const currentPanel = this._activePanel;
-    const animate = () => this._controller.animateTo(position, duration, axesEvent);
+    const animate = () => this._controller.animateTo(position, duration, axesEvent, { easing, signal });
     const isTrusted = axesEvent?.isTrusted || false;
 
     if (duration <= 0) {
@@ -332,10 +425,27 @@ abstract class Control {
       this._setActive(newActivePanel, currentPanel, isTrusted);
       return animation;
     } else {
-      return animate().then(async () => {
+      const animation = animate().then(async () => {
         this._setActive(newActivePanel, currentPanel, isTrusted);
         await flicking.renderer.render();
       });
+      const clearAnimation = () => {
+        if (this._animation === animation) {
+          this._animation = null;
+          this._animationTarget = null;
+        }
+      };
+
+      this._animation = animation;
+      this._animationTarget = {
+        panel: newActivePanel,
+        offset: position - newActivePanel.position,
+        rangeDiff: flicking.camera.rangeDiff,
+        panelSize: newActivePanel.size
+      };
+      void animation.then(clearAnimation, clearAnimation);
+
+      return animation;
     }
   }
 
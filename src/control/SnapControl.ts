@@ -5,17 +5,50 @@
 import { OnRelease } from "@egjs/axes";
 
 import Panel from "../core/panel/Panel";
+import AnchorPoint from "../core/AnchorPoint";
 import FlickingError from "../core/FlickingError";
 import { getFlickingAttached } from "../utils";
 import * as ERROR from "../const/error";
 
 import Control from "./Control";
 
+/**
+ * An options for the {@link SnapControl}
+ * @ko {@link SnapControl} 생성시 사용되는 옵션
+ * @interface
+ * @property {number} count Maximum number of panels can go after release
+ * <ko>입력 중단 이후 통과하여 이동할 수 있는 패널의 최대 갯수</ko>
+ */
+export interface SnapControlOptions {
+  count: number;
+}
+
 /**
  * A {@link Control} that uses a release momentum to choose destination panel
  * @ko 입력을 중단한 시점의 가속도에 영향받아 도달할 패널을 계산하는 이동 방식을 사용하는 {@link Control}
  */
 class SnapControl extends Control {
+  private _count: SnapControlOptions["count"];
+
+  /**
+   * Maximum number of panels can go after release, counted from the panel that was active when the input started
+   * @ko 입력 중단 이후 통과하여 이동할 수 있는 패널의 최대 갯수. 입력을 시작할 때 선택되어 있던 패널을 기준으로 계산합니다
+   * @type {number}
+   * @default Infinity
+   */
+  public get count() { return this._count; }
+
+  public set count(val: SnapControlOptions["count"]) { this._count = val; }
+
+  /** */
+  public constructor({
+    count = Infinity
+  }: Partial<SnapControlOptions> = {}) {
+    super();
+
+    this._count = count;
+  }
+
   /**
    * Move {@link Camera} to the given position
    * @ko {@link Camera}를 주어진 좌표로 이동합니다
@@ -74,7 +107,14 @@ class SnapControl extends Control {
     let targetPos: number;
     let targetPanel: Panel;
 
-    if (isOverThreshold && anchorAtPosition.position !== activePanel.position) {
+    const activeAnchor = camera.findAnchorIncludePanel(activePanel);
+
+    if (isOverThreshold && activeAnchor && this._count < Infinity) {
+      // Move to the anchor nearest to the position, but not further than the count
+      const targetAnchor = this._findAnchorWithinCount(activeAnchor, position, position > prevPos);
+      targetPanel = targetAnchor.panel;
+      targetPos = targetAnchor.position;
+    } else if (isOverThreshold && anchorAtPosition.position !== activePanel.position) {
       // Move to anchor at position
       targetPanel = anchorAtPosition.panel;
       targetPos = anchorAtPosition.position;
@@ -97,6 +137,39 @@ class SnapControl extends Control {
       axesEvent
     });
   }
+
+  private _findAnchorWithinCount(activeAnchor: AnchorPoint, position: number, isNext: boolean): AnchorPoint {
+    const flicking = getFlickingAttached(this._flicking, "Control");
+    const camera = flicking.camera;
+    const anchors = camera.anchorPoints;
+    const count = Math.max(Math.floor(this._count), 1);
+
+    let anchor = activeAnchor;
+    let anchorPos = activeAnchor.position;
+
+    for (let step = 0; step < count; step++) {
+      const adjacentAnchor = isNext
+        ? camera.getNextAnchor(anchor)
+        : camera.getPrevAnchor(anchor);
+
+      if (!adjacentAnchor) break;
+
+      // Adjacent anchor of circular camera can have its position out of the camera range
+      const adjacentPos = anchorPos + (adjacentAnchor.position - anchor.position);
+
+      // Always move at least one anchor, and stop when the position is passed
+      if (step > 0 && Math.abs(adjacentPos - position) >= Math.abs(anchorPos - position)) break;
+
+      anchor = anchors[adjacentAnchor.index];
+      anchorPos = adjacentPos;
+    }
+
+    return new AnchorPoint({
+      index: anchor.index,
+      position: anchorPos,
+      panel: anchor.panel
+    });
+  }
 }
 
 export default SnapControl;
@@ -52,6 +52,10 @@ class StateMachine {
     }
   }
 
+  public stop(flicking: Flicking) {
+    this._state.onStop({ flicking, transitTo: this.transitTo });
+  }
+
   public transitTo = (nextStateType: STATE_TYPE): State => {
     let nextState: State;
 
@@ -0,0 +1,252 @@
+/*
+ * Copyright (c) 2015 NAVER Corp.
+ * egjs projects are licensed under the MIT license
+ */
+import Flicking from "../Flicking";
+import * as AXES from "../const/axes";
+import { MOVE_TYPE } from "../const/external";
+
+/**
+ * An options for the {@link WheelInput}
+ * @ko {@link WheelInput} 생성시 사용되는 옵션
+ * @interface
+ * @property {boolean} crossAxis Whether to move Flicking with the wheel delta of the other axis too, like the vertical wheel of the horizontal Flicking
+ * <ko>가로 Flicking에서의 세로 휠처럼, 다른 축의 휠 이동량으로도 Flicking을 움직일지 여부</ko>
+ * @property {number} releaseDelay Time to wait after the last wheel event before considering the wheel gesture as finished (unit: ms)
+ * <ko>마지막 휠 이벤트 이후 휠 제스쳐가 끝났다고 판단하기까지 기다리는 시간 (단위: ms)</ko>
+ */
+export interface WheelInputOptions {
+  crossAxis: boolean;
+  releaseDelay: number;
+}
+
+/**
+ * An input event that the {@link WheelInput} sends to the input observer of @egjs/axes
+ * The release event has no source wheel event, so it's not considered as a click of the panel
+ * @internal
+ */
+interface WheelInputEvent {
+  srcEvent: WheelEvent | { type: string; target: null };
+  offsetX?: number;
+  offsetY?: number;
+}
+
+/**
+ * The part of the input observer of @egjs/axes that the {@link WheelInput} uses
+ * @internal
+ */
+interface WheelInputObserver {
+  hold(inputType: WheelInput, event: WheelInputEvent): void;
+  change(inputType: WheelInput, event: WheelInputEvent, offset: Record<string, number>): void;
+  release(inputType: WheelInput, event: WheelInputEvent, offset: Record<string, number>, duration?: number): void;
+}
+
+/**
+ * An input type of {@link https://naver.github.io/egjs-axes/ @egjs/axes} that maps the mouse wheel & trackpad deltas onto the position axis
+ * On the snap mode, one wheel gesture moves one panel, while the free scroll mode follows the wheel deltas
+ * @ko 마우스 휠과 트랙패드의 이동량을 좌표 축에 적용하는 {@link https://naver.github.io/egjs-axes/ @egjs/axes}의 입력 타입
+ * snap 모드에서는 한 번의 휠 제스쳐로 한 패널씩 이동하며, freeScroll 모드에서는 휠 이동량을 그대로 따라갑니다
+ * @internal
+ */
+class WheelInput {
+  public axes: string[];
+  public element: HTMLElement;
+
+  private _flicking: Flicking;
+  private _observer: WheelInputObserver | null;
+  private _enabled: boolean;
+  private _holding: boolean;
+  private _gestureDelta: number;
+  private _gestureMoved: boolean;
+  private _releaseTimer: number;
+
+  // Options
+  private _crossAxis: WheelInputOptions["crossAxis"];
+  private _releaseDelay: WheelInputOptions["releaseDelay"];
+
+  /**
+   * @param {Flicking} flicking An instance of Flicking<ko>Flicking의 인스턴스</ko>
+   * @param {Partial<WheelInputOptions>} [options={}] An options object<ko>옵션 오브젝트</ko>
+   */
+  public constructor(flicking: Flicking, {
+    crossAxis = false,
+    releaseDelay = 100
+  }: Partial<WheelInputOptions> = {}) {
+    this.axes = [];
+    this.element = flicking.viewport.element;
+
+    this._flicking = flicking;
+    this._observer = null;
+    this._enabled = false;
+    this._crossAxis = crossAxis;
+    this._releaseDelay = releaseDelay;
+    this._resetGesture();
+  }
+
+  public mapAxes(axes: string[]) {
+    this.axes = axes;
+  }
+
+  public connect(observer: WheelInputObserver): this {
+    this.disconnect();
+
+    this._observer = observer;
+    this._enabled = true;
+    this.element.addEventListener("wheel", this._onWheel);
+
+    return this;
+  }
+
+  public disconnect(): this {
+    if (!this._observer) return this;
+
+    this.element.removeEventListener("wheel", this._onWheel);
+    this._release();
+    this._observer = null;
+    this._enabled = false;
+
+    return this;
+  }
+
+  public destroy(): void {
+    this.disconnect();
+  }
+
+  public enable(): this {
+    this._enabled = !!this._observer;
+    return this;
+  }
+
+  public disable(): this {
+    this._release();
+    this._enabled = false;
+    return this;
+  }
+
+  public isEnable(): boolean {
+    return this._enabled;
+  }
+
+  private _resetGesture() {
+    this._holding = false;
+    this._gestureDelta = 0;
+    this._gestureMoved = false;
+    this._releaseTimer = -1;
+  }
+
+  private _getDelta(e: WheelEvent): number {
+    const flicking = this._flicking;
+    const horizontal = flicking.horizontal;
+    // Panels at the next direction are placed at the left on the right-to-left layout
+    const mainDelta = horizontal
+      ? flicking.rtlEnabled ? -e.deltaX : e.deltaX
+      : e.deltaY;
+    const crossDelta = horizontal ? e.deltaY : e.deltaX;
+    const delta = Math.abs(mainDelta) >= Math.abs(crossDelta)
+      ? mainDelta
+      : this._crossAxis
+        ? crossDelta
+        : 0;
+
+    // Convert lines & pages to px
+    switch (e.deltaMode) {
+      case 1:
+        return delta * 16;
+      case 2:
+        return delta * (horizontal ? flicking.viewport.width : flicking.viewport.height);
+      default:
+        return delta;
+    }
+  }
+
+  private _canMove(delta: number): boolean {
+    const flicking = this._flicking;
+    const camera = flicking.camera;
+    const range = camera.range;
+
+    if (flicking.circularEnabled) return true;
+
+    return delta > 0
+      ? camera.position < range.max
+      : camera.position > range.min;
+  }
+
+  private _isFreeScroll(): boolean {
+    const moveType = this._flicking.moveType;
+    const moveTypeStr = Array.isArray(moveType)
+      ? moveType[0]
+      : moveType;
+
+    return moveTypeStr === MOVE_TYPE.FREE_SCROLL;
+  }
+
+  private _scroll(e: WheelEvent, delta: number) {
+    const observer = this._observer!;
+    const inputEvent: WheelInputEvent = {
+      srcEvent: e,
+      offsetX: this._flicking.rtlEnabled ? delta : -delta,
+      offsetY: -delta
+    };
+
+    if (!this._holding) {
+      observer.hold(this, inputEvent);
+      this._holding = true;
+    }
+
+    observer.change(this, inputEvent, { [AXES.POSITION_KEY]: delta });
+  }
+
+  private _snap(delta: number) {
+    const flicking = this._flicking;
+
+    this._gestureDelta += delta;
+
+    // Move only once for each wheel gesture
+    if (this._gestureMoved || Math.abs(this._gestureDelta) < flicking.threshold) return;
+
+    this._gestureMoved = true;
+
+    // Gestures while the animation is playing are handled by the animationPolicy
+    const move = this._gestureDelta > 0
+      ? flicking.next()
+      : flicking.prev();
+
+    void move.catch(() => void 0);
+  }
+
+  private _release() {
+    const observer = this._observer;
+
+    window.clearTimeout(this._releaseTimer);
+
+    if (observer && this._holding) {
+      // Wheel gestures should not be considered as a click of the panel
+      observer.release(this, { srcEvent: { type: "wheel", target: null } }, { [AXES.POSITION_KEY]: 0 });
+    }
+
+    this._resetGesture();
+  }
+
+  private _onWheel = (e: WheelEvent) => {
+    if (!this._enabled || !this._observer) return;
+
+    const delta = this._getDelta(e);
+    const inGesture = this._holding || this._gestureMoved || this._gestureDelta !== 0;
+
+    // Let the page scroll with the wheel events that Flicking can't handle
+    if (delta === 0 || (!inGesture && !this._canMove(delta))) return;
+
+    e.preventDefault();
+
+    if (this._isFreeScroll()) {
+      this._scroll(e, delta);
+    } else {
+      this._snap(delta);
+    }
+
+    window.clearTimeout(this._releaseTimer);
+    this._releaseTimer = window.setTimeout(() => this._release(), this._releaseDelay);
+  };
+}
+
+export default WheelInput;
@@ -6,6 +6,7 @@ import Control from "./Control";
 import SnapControl from "./SnapControl";
 import FreeControl from "./FreeControl";
 import AxesController from "./AxesController";
+import WheelInput, { WheelInputOptions } from "./WheelInput";
 import State from "./states/State";
 import IdleState from "./states/IdleState";
 import HoldingState from "./states/HoldingState";
@@ -19,6 +20,7 @@ export {
   SnapControl,
   FreeControl,
   AxesController,
+  WheelInput,
   State,
   IdleState,
   HoldingState,
@@ -27,3 +29,7 @@ export {
   DisabledState,
   StateMachine
 };
+
+export type {
+  WheelInputOptions
+};
@@ -85,6 +85,21 @@ class AnimatingState extends State {
       axesEvent
     }));
   }
+
+  public onStop(ctx: Parameters<State["onStop"]>[0]) {
+    const { flicking, transitTo } = ctx;
+
+    transitTo(STATE_TYPE.IDLE);
+
+    const controller = flicking.control.controller;
+    const animatingContext = controller.animatingContext;
+
+    flicking.trigger(new ComponentEvent(EVENTS.MOVE_END, {
+      isTrusted: false,
+      direction: getDirection(animatingContext.start, animatingContext.end),
+      axesEvent: null
+    }));
+  }
 }
 
 export default AnimatingState;
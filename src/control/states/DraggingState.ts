@@ -79,7 +79,8 @@ class DraggingState extends State {
     const position = axesEvent.destPos[AXES.POSITION_KEY];
     const duration = Math.max(axesEvent.duration, flicking.duration);
 
-    void control.moveToPosition(position, duration, axesEvent);
+    // The animation can be interrupted by the method call with the interrupt policy
+    void control.moveToPosition(position, duration, axesEvent).catch(() => void 0);
   }
 }
 
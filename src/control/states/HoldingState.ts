@@ -40,7 +40,7 @@ class HoldingState extends State {
     const inputEvent = axesEvent.inputEvent as { offsetX: number; offsetY: number };
 
     const offset = flicking.horizontal
-      ? inputEvent.offsetX
+      ? flicking.rtlEnabled ? -inputEvent.offsetX : inputEvent.offsetX
       : inputEvent.offsetY;
 
     const moveStartEvent = new ComponentEvent(EVENTS.MOVE_START, {
@@ -124,6 +124,21 @@ abstract class State {
   }): void {
     // DO NOTHING
   }
+
+  /**
+   * A handler called when the animation is stopped before reaching its destination, as Axes doesn't trigger any event for it
+   * @ko 애니메이션이 목적지에 도달하기 전에 멈췄을 때 호출되는 핸들러. Axes는 이 경우에 이벤트를 발생시키지 않습니다
+   * @param {object} [ctx] Event context<ko>이벤트 콘텍스트</ko>
+   * @param {Flicking} [ctx.flicking] An instance of Flicking<ko>Flicking 인스턴스</ko>
+   * @param {function} [ctx.transitTo] A function for changing current state to other state<ko>다른 상태로 변경하기 위한 함수</ko>
+   * @return {void}
+   */
+  public onStop(ctx: {
+    flicking: Flicking;
+    transitTo: (nextState: STATE_TYPE) => State;
+  }): void {
+    // DO NOTHING
+  }
 }
 
 export default State;
@@ -0,0 +1,267 @@
+/*
+ * Copyright (c) 2015 NAVER Corp.
+ * egjs projects are licensed under the MIT license
+ */
+import Flicking from "../Flicking";
+import { EVENTS } from "../const/external";
+import { PanelChangeEvent } from "../type/event";
+import { clamp, find, findIndex, includes } from "../utils";
+
+// Attributes of the viewport element that are added only when the user didn't give them
+const viewportAttributes = {
+  role: "region",
+  "aria-roledescription": "carousel",
+  tabindex: "0"
+};
+
+// Attributes of the panel elements updated by the Accessibility
+const panelAttributes = ["role", "aria-roledescription", "aria-label", "aria-hidden", "inert"];
+
+/**
+ * A component that manages keyboard navigation and ARIA attributes of Flicking
+ * @ko Flicking의 키보드 탐색과 ARIA 속성을 담당하는 컴포넌트
+ */
+class Accessibility {
+  private _flicking: Flicking | null;
+  private _liveRegion: HTMLElement | null;
+  private _originalAttributes: Array<{ el: HTMLElement; values: Record<string, string | null> }>;
+
+  /**
+   * An element that announces the current panel to the screen readers
+   * It's `null` when {@link Flicking#renderExternal renderExternal} is used, as the elements are managed by the framework
+   * @ko 스크린 리더에 현재 패널을 알리기 위한 엘리먼트
+   * {@link Flicking#renderExternal renderExternal}을 사용하는 경우 엘리먼트들이 프레임워크에 의해 관리되므로 `null`입니다
+   * @type {HTMLElement | null}
+   * @readonly
+   */
+  public get liveRegion() { return this._liveRegion; }
+
+  /** */
+  public constructor() {
+    this._resetInternalValues();
+  }
+
+  /**
+   * Initialize Accessibility
+   * This will add ARIA attributes to the viewport & panel elements and start listening to the keyboard input
+   * @ko Accessibility를 초기화합니다
+   * 뷰포트 및 패널 엘리먼트에 ARIA 속성을 추가하고, 키보드 입력을 받기 시작합니다
+   * @param {Flicking} flicking An instance of {@link Flicking}<ko>Flicking의 인스턴스</ko>
+   * @chainable
+   * @return {this}
+   */
+  public init(flicking: Flicking): this {
+    const viewportEl = flicking.viewport.element;
+
+    this._flicking = flicking;
+    this._saveAttributes(viewportEl, Object.keys(viewportAttributes));
+
+    // Keep attributes given by the user
+    Object.keys(viewportAttributes)
+      .filter(name => !viewportEl.hasAttribute(name))
+      .forEach(name => {
+        viewportEl.setAttribute(name, viewportAttributes[name]);
+      });
+
+    // Children of the viewport element are rendered by the framework
+    if (!flicking.renderExternal) {
+      const liveRegion = document.createElement("div");
+
+      liveRegion.setAttribute("aria-live", "polite");
+      liveRegion.setAttribute("aria-atomic", "true");
+      liveRegion.style.cssText = "position:absolute;width:1px;height:1px;margin:-1px;padding:0;border:0;overflow:hidden;clip:rect(0 0 0 0);white-space:nowrap;";
+      viewportEl.appendChild(liveRegion);
+      this._liveRegion = liveRegion;
+    }
+
+    viewportEl.addEventListener("keydown", this._onKeyDown);
+    flicking.on(EVENTS.VISIBLE_CHANGE, this._onPanelsUpdate);
+    flicking.on(EVENTS.CHANGED, this._onChanged);
+    flicking.on(EVENTS.PANEL_CHANGE, this._onPanelChange);
+
+    this.update();
+
+    return this;
+  }
+
+  /**
+   * Restore the attributes of the elements to the values before the initialization and return to initial state
+   * @ko 엘리먼트들의 속성을 초기화 이전의 값으로 되돌리고 초기 상태로 되돌립니다
+   * @return {void}
+   */
+  public destroy(): void {
+    const flicking = this._flicking;
+
+    if (!flicking) return;
+
+    const viewportEl = flicking.viewport.element;
+
+    this._originalAttributes.slice().forEach(({ el }) => {
+      this._restoreAttributes(el);
+    });
+
+    if (this._liveRegion && this._liveRegion.parentNode === viewportEl) {
+      viewportEl.removeChild(this._liveRegion);
+    }
+
+    viewportEl.removeEventListener("keydown", this._onKeyDown);
+    flicking.off(EVENTS.VISIBLE_CHANGE, this._onPanelsUpdate);
+    flicking.off(EVENTS.CHANGED, this._onChanged);
+    flicking.off(EVENTS.PANEL_CHANGE, this._onPanelChange);
+
+    this._resetInternalValues();
+  }
+
+  /**
+   * Update ARIA attributes of all panels
+   * Panels that are not visible at the current position will have `aria-hidden` and `inert` attribute
+   * @ko 모든 패널의 ARIA 속성을 갱신합니다
+   * 현재 위치에서 보이지 않는 패널들에는 `aria-hidden`과 `inert` 속성이 추가됩니다
+   * @chainable
+   * @return {this}
+   */
+  public update(): this {
+    const flicking = this._flicking;
+
+    if (!flicking) return this;
+
+    const panels = flicking.panels;
+    const visiblePanels = flicking.visiblePanels;
+
+    panels.forEach(panel => {
+      const el = panel.element;
+
+      if (!el) return;
+
+      this._saveAttributes(el, panelAttributes);
+      el.setAttribute("role", "group");
+      el.setAttribute("aria-roledescription", "slide");
+      el.setAttribute("aria-label", `${panel.index + 1} / ${panels.length}`);
+
+      if (includes(visiblePanels, panel)) {
+        el.removeAttribute("aria-hidden");
+        el.removeAttribute("inert");
+      } else {
+        el.setAttribute("aria-hidden", "true");
+        el.setAttribute("inert", "");
+      }
+    });
+
+    return this;
+  }
+
+  private _resetInternalValues() {
+    this._flicking = null;
+    this._liveRegion = null;
+    this._originalAttributes = [];
+  }
+
+  private _saveAttributes(el: HTMLElement, names: string[]) {
+    // Values are saved only once, as they're changed by the Accessibility after that
+    if (find(this._originalAttributes, saved => saved.el === el)) return;
+
+    this._originalAttributes.push({
+      el,
+      values: names.reduce((values, name) => {
+        values[name] = el.getAttribute(name);
+        return values;
+      }, {} as Record<string, string | null>)
+    });
+  }
+
+  private _restoreAttributes(el: HTMLElement) {
+    const savedIdx = findIndex(this._originalAttributes, saved => saved.el === el);
+
+    if (savedIdx < 0) return;
+
+    const values = this._originalAttributes[savedIdx].values;
+
+    Object.keys(values).forEach(name => {
+      const value = values[name];
+
+      if (value == null) {
+        el.removeAttribute(name);
+      } else {
+        el.setAttribute(name, value);
+      }
+    });
+
+    this._originalAttributes.splice(savedIdx, 1);
+  }
+
+  private _onPanelsUpdate = () => {
+    this.update();
+  };
+
+  private _onPanelChange = (e: PanelChangeEvent) => {
+    // Removed panels are not managed by Flicking anymore
+    e.removed.forEach(panel => {
+      if (panel.element) {
+        this._restoreAttributes(panel.element);
+      }
+    });
+
+    this.update();
+  };
+
+  private _onChanged = () => {
+    const flicking = this._flicking;
+    const liveRegion = this._liveRegion;
+
+    if (!flicking || !liveRegion) return;
+
+    liveRegion.textContent = `${flicking.index + 1} / ${flicking.panelCount}`;
+  };
+
+  private _onKeyDown = (e: KeyboardEvent) => {
+    const flicking = this._flicking;
+
+    if (!flicking || !flicking.control.controller.enabled || this._isEditable(e.target as HTMLElement)) return;
+
+    const horizontal = flicking.horizontal;
+    const rtl = flicking.rtlEnabled;
+    const lastIndex = flicking.panelCount - 1;
+    const pageSize = Math.max(flicking.visiblePanels.length, 1);
+    let move: (() => Promise<void>) | null = null;
+
+    switch (e.key) {
+      case horizontal ? rtl ? "ArrowRight" : "ArrowLeft" : "ArrowUp":
+        move = () => flicking.prev();
+        break;
+      case horizontal ? rtl ? "ArrowLeft" : "ArrowRight" : "ArrowDown":
+        move = () => flicking.next();
+        break;
+      case "Home":
+        move = () => flicking.moveTo(0);
+        break;
+      case "End":
+        move = () => flicking.moveTo(lastIndex);
+        break;
+      case "PageUp":
+        move = () => flicking.moveTo(clamp(flicking.index - pageSize, 0, lastIndex));
+        break;
+      case "PageDown":
+        move = () => flicking.moveTo(clamp(flicking.index + pageSize, 0, lastIndex));
+        break;
+    }
+
+    if (!move || lastIndex < 0) return;
+
+    e.preventDefault();
+
+    void move().catch(() => void 0);
+  };
+
+  private _isEditable(el: HTMLElement | null) {
+    if (!el) return false;
+
+    const tagName = el.tagName?.toLowerCase();
+
+    return tagName === "input"
+      || tagName === "textarea"
+      || tagName === "select"
+      || !!el.isContentEditable;
+  }
+}
+
+export default Accessibility;
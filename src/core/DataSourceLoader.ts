@@ -0,0 +1,369 @@
+/*
+ * Copyright (c) 2015 NAVER Corp.
+ * egjs projects are licensed under the MIT license
+ */
+import Flicking from "../Flicking";
+import FreeControl from "../control/FreeControl";
+import { DIRECTION, EVENTS } from "../const/external";
+import { ElementLike } from "../type/external";
+import { NeedPanelEvent } from "../type/event";
+import { ValueOf } from "../type/internal";
+import { addClass, parseElement } from "../utils";
+
+import Panel from "./panel/Panel";
+
+/**
+ * A context object given to the {@link Flicking#dataSource dataSource}
+ * @ko {@link Flicking#dataSource dataSource}에 전달되는 컨텍스트 오브젝트
+ * @interface
+ * @property {Flicking} flicking An instance of Flicking that requested the data<ko>데이터를 요청한 Flicking 인스턴스</ko>
+ * @property {Panel | null} panel The first panel when direction is `PREV`, and the last panel when direction is `NEXT`. Placeholders are not included
+ * <ko>방향이 `PREV`일 경우 첫번째 패널, `NEXT`일 경우 마지막 패널. 플레이스홀더는 포함하지 않습니다</ko>
+ */
+export interface DataSourceContext {
+  flicking: Flicking;
+  panel: Panel | null;
+}
+
+/**
+ * A function that loads the panels to add, used for the {@link Flicking#dataSource dataSource} option
+ * Resolving with an empty array means there's no more data in that direction
+ * @ko {@link Flicking#dataSource dataSource} 옵션에 사용되는, 추가할 패널을 불러오는 함수
+ * 빈 배열로 resolve할 경우 해당 방향으로 더 이상 데이터가 없음을 의미합니다
+ * @typedef
+ */
+export type DataSource = (
+  direction: Exclude<ValueOf<typeof DIRECTION>, null>,
+  context: DataSourceContext
+) => Promise<ElementLike | ElementLike[]>;
+
+type LoadDirection = Exclude<ValueOf<typeof DIRECTION>, null>;
+
+/**
+ * A component that loads panels from the {@link Flicking#dataSource dataSource} when {@link Flicking#event:needPanel needPanel} event is triggered
+ * It shows a placeholder panel while loading, and compensates the camera position on prepend so the view doesn't jump
+ * @ko {@link Flicking#event:needPanel needPanel} 이벤트가 발생했을 때 {@link Flicking#dataSource dataSource}로부터 패널을 불러오는 컴포넌트
+ * 불러오는 동안 플레이스홀더 패널을 표시하며, 패널을 앞에 추가할 때 화면이 튀지 않도록 카메라 위치를 보정합니다
+ */
+class DataSourceLoader {
+  private _flicking: Flicking | null;
+  private _loading: Record<LoadDirection, boolean>;
+  private _ended: Record<LoadDirection, boolean>;
+  private _failed: Record<LoadDirection, boolean>;
+  private _placeholders: Record<LoadDirection, Panel | null>;
+  private _pendingPrepends: Array<() => void>;
+
+  /**
+   * Whether the data of each direction is being loaded
+   * @ko 각 방향의 데이터를 불러오고 있는지 여부
+   * @type {object}
+   * @property {boolean} PREV Whether the data of the previous direction is being loaded<ko>이전 방향의 데이터를 불러오고 있는지 여부</ko>
+   * @property {boolean} NEXT Whether the data of the next direction is being loaded<ko>다음 방향의 데이터를 불러오고 있는지 여부</ko>
+   * @readonly
+   */
+  public get loading() { return this._loading; }
+  /**
+   * Whether there's no more data in each direction
+   * @ko 각 방향으로 더 이상 데이터가 없는지 여부
+   * @type {object}
+   * @property {boolean} PREV Whether there's no more data in the previous direction<ko>이전 방향으로 더 이상 데이터가 없는지 여부</ko>
+   * @property {boolean} NEXT Whether there's no more data in the next direction<ko>다음 방향으로 더 이상 데이터가 없는지 여부</ko>
+   * @readonly
+   */
+  public get ended() { return this._ended; }
+  /**
+   * Whether the last loading of each direction has failed. It won't be loaded again until {@link DataSourceLoader#retry retry()} is called
+   * @ko 각 방향의 마지막 데이터 불러오기가 실패했는지 여부. {@link DataSourceLoader#retry retry()}가 호출되기 전까지 다시 불러오지 않습니다
+   * @type {object}
+   * @property {boolean} PREV Whether the loading of the previous direction has failed<ko>이전 방향의 불러오기가 실패했는지 여부</ko>
+   * @property {boolean} NEXT Whether the loading of the next direction has failed<ko>다음 방향의 불러오기가 실패했는지 여부</ko>
+   * @readonly
+   */
+  public get failed() { return this._failed; }
+
+  /** */
+  public constructor() {
+    this._resetInternalValues();
+  }
+
+  /**
+   * Initialize DataSourceLoader and start listening to the {@link Flicking#event:needPanel needPanel} event
+   * @ko DataSourceLoader를 초기화하고 {@link Flicking#event:needPanel needPanel} 이벤트를 받기 시작합니다
+   * @param {Flicking} flicking An instance of {@link Flicking}<ko>Flicking의 인스턴스</ko>
+   * @chainable
+   * @return {this}
+   */
+  public init(flicking: Flicking): this {
+    this._flicking = flicking;
+
+    flicking.on(EVENTS.NEED_PANEL, this._onNeedPanel);
+    flicking.on(EVENTS.HOLD_END, this._onHoldEnd);
+    flicking.on(EVENTS.MOVE_END, this._onMoveEnd);
+
+    return this;
+  }
+
+  /**
+   * Stop listening to the events and return to initial state
+   * Data being loaded will be ignored
+   * @ko 이벤트 핸들러를 제거하고 초기 상태로 되돌립니다
+   * 불러오고 있던 데이터는 무시됩니다
+   * @return {void}
+   */
+  public destroy(): void {
+    const flicking = this._flicking;
+
+    if (!flicking) return;
+
+    flicking.off(EVENTS.NEED_PANEL, this._onNeedPanel);
+    flicking.off(EVENTS.HOLD_END, this._onHoldEnd);
+    flicking.off(EVENTS.MOVE_END, this._onMoveEnd);
+
+    this._resetInternalValues();
+  }
+
+  /**
+   * Load panels of the given direction from the {@link Flicking#dataSource dataSource}
+   * It's called automatically when {@link Flicking#event:needPanel needPanel} event is triggered, and ignored while loading or when there's no more data
+   * @ko {@link Flicking#dataSource dataSource}로부터 주어진 방향의 패널들을 불러옵니다
+   * {@link Flicking#event:needPanel needPanel} 이벤트가 발생할 때 자동으로 호출되며, 불러오는 중이거나 더 이상 데이터가 없을 경우 무시됩니다
+   * @param {Constants.DIRECTION} direction A direction to load panels<ko>패널을 불러올 방향</ko>
+   * @return {Promise<void>} A Promise which will be rejected with the error of the dataSource when loading has failed<ko>불러오기에 실패했을 경우 dataSource의 에러와 함께 reject되는 Promise</ko>
+   */
+  public async load(direction: LoadDirection): Promise<void> {
+    const flicking = this._flicking;
+    const dataSource = flicking?.dataSource;
+
+    if (!flicking || !dataSource || this._loading[direction] || this._ended[direction]) return;
+
+    const panels = flicking.panels.filter(panel => !this._isPlaceholder(panel));
+    const context: DataSourceContext = {
+      flicking,
+      panel: (direction === DIRECTION.PREV ? panels[0] : panels[panels.length - 1]) ?? null
+    };
+
+    this._loading[direction] = true;
+    this._failed[direction] = false;
+    this._addPlaceholder(direction);
+
+    let elements: ElementLike[];
+
+    try {
+      const result = await dataSource(direction, context);
+
+      // Virtual panels are created from the data itself
+      elements = flicking.virtual
+        ? ([] as ElementLike[]).concat(result)
+        : parseElement(result);
+    } catch (err) {
+      if (this._flicking !== flicking) return;
+
+      this._loading[direction] = false;
+      this._failed[direction] = true;
+      this._insertPanels(direction, []);
+
+      throw err;
+    }
+
+    // Destroyed while loading
+    if (this._flicking !== flicking) return;
+
+    this._loading[direction] = false;
+    this._ended[direction] = elements.length <= 0;
+    this._insertPanels(direction, elements);
+  }
+
+  /**
+   * Load panels again for the directions that have failed
+   * @ko 불러오기에 실패한 방향의 패널들을 다시 불러옵니다
+   * @param {Constants.DIRECTION} [direction] A direction to retry. All failed directions will be retried if not given<ko>다시 불러올 방향. 주어지지 않을 경우 실패한 모든 방향을 다시 불러옵니다</ko>
+   * @return {Promise<void>}
+   */
+  public async retry(direction?: LoadDirection): Promise<void> {
+    const directions = direction
+      ? [direction]
+      : [DIRECTION.PREV, DIRECTION.NEXT];
+
+    await Promise.all(directions
+      .filter(dir => this._failed[dir])
+      .map(dir => this.load(dir)));
+  }
+
+  /**
+   * Reset the state of the given direction, so panels can be loaded again even if there was no more data
+   * @ko 주어진 방향의 상태를 초기화하여, 더 이상 데이터가 없었던 경우에도 다시 패널을 불러올 수 있도록 합니다
+   * @param {Constants.DIRECTION} [direction] A direction to reset. All directions will be reset if not given<ko>초기화할 방향. 주어지지 않을 경우 모든 방향을 초기화합니다</ko>
+   * @chainable
+   * @return {this}
+   */
+  public reset(direction?: LoadDirection): this {
+    const directions = direction
+      ? [direction]
+      : [DIRECTION.PREV, DIRECTION.NEXT];
+
+    directions.forEach(dir => {
+      this._ended[dir] = false;
+      this._failed[dir] = false;
+    });
+
+    this._flicking?.camera.resetNeedPanelHistory();
+
+    return this;
+  }
+
+  private _resetInternalValues() {
+    this._flicking = null;
+    this._loading = { PREV: false, NEXT: false };
+    this._ended = { PREV: false, NEXT: false };
+    this._failed = { PREV: false, NEXT: false };
+    this._placeholders = { PREV: null, NEXT: null };
+    this._pendingPrepends = [];
+  }
+
+  private _isPlaceholder(panel: Panel) {
+    const placeholders = this._placeholders;
+
+    return panel === placeholders.PREV || panel === placeholders.NEXT;
+  }
+
+  private _addPlaceholder(direction: LoadDirection) {
+    const flicking = this._flicking;
+
+    // Panels of the VirtualRenderer can't have their own elements
+    if (!flicking || flicking.virtual) return;
+
+    const isPrev = direction === DIRECTION.PREV;
+
+    this._applyInsertion(direction, () => {
+      // Loading is already finished
+      if (!this._loading[direction]) return;
+
+      const panels = flicking.panels;
+      const edgePanel = isPrev ? panels[0] : panels[panels.length - 1];
+      const el = document.createElement("div");
+
+      addClass(el, "flicking-placeholder");
+      el.setAttribute("aria-busy", "true");
+
+      // Use the size of the panel next to it, so the layout doesn't change much after loading
+      el.style[flicking.horizontal ? "width" : "height"] = edgePanel
+        ? `${edgePanel.size}px`
+        : "100%";
+
+      const [placeholder] = flicking.renderer.batchInsert({
+        index: isPrev ? 0 : panels.length,
+        elements: [el]
+      });
+
+      this._placeholders[direction] = placeholder ?? null;
+    });
+  }
+
+  private _insertPanels(direction: LoadDirection, elements: ElementLike[]) {
+    const isPrev = direction === DIRECTION.PREV;
+
+    this._applyInsertion(direction, () => {
+      const flicking = this._flicking;
+
+      if (!flicking) return;
+
+      const renderer = flicking.renderer;
+      const placeholder = this._placeholders[direction];
+
+      this._placeholders[direction] = null;
+
+      if (placeholder && !placeholder.removed) {
+        renderer.batchRemove({ index: placeholder.index, deleteCount: 1 });
+      }
+
+      if (elements.length > 0) {
+        renderer.batchInsert({
+          index: isPrev ? 0 : flicking.panelCount,
+          elements
+        });
+      }
+    });
+  }
+
+  private _applyInsertion(direction: LoadDirection, insert: () => void) {
+    if (direction === DIRECTION.NEXT) {
+      insert();
+      return;
+    }
+
+    const flicking = this._flicking;
+
+    if (!flicking) return;
+
+    // Position can't be compensated while the user is moving Flicking, so wait until it stops
+    if (flicking.holding || flicking.animating) {
+      this._pendingPrepends.push(() => this._prepend(insert));
+    } else {
+      this._prepend(insert);
+    }
+  }
+
+  private _prepend(insert: () => void) {
+    const flicking = this._flicking;
+
+    if (!flicking) return;
+
+    const camera = flicking.camera;
+    const prevPosition = camera.position;
+    const referencePanel = flicking.panels.filter(panel => !this._isPlaceholder(panel))[0];
+    const prevPanelPosition = referencePanel?.position ?? 0;
+
+    insert();
+
+    if (!referencePanel || referencePanel.removed || flicking.panelCount <= 0) return;
+
+    // Move the camera by the size of the panels added before, so the view doesn't jump
+    const positionDiff = referencePanel.position - prevPanelPosition;
+
+    if (positionDiff === 0) return;
+
+    const control = flicking.control;
+    const position = camera.clampToReachablePosition(prevPosition + positionDiff);
+
+    // Move through the control like the renderer does after inserting panels, to update the active panel and its index
+    // The active panel can be the placeholder removed, so it's found again from the position
+    if (control instanceof FreeControl) {
+      void control.moveToPosition(position, 0).catch(() => void 0);
+    } else {
+      const anchor = camera.findNearestAnchor(position);
+
+      if (!anchor) return;
+
+      void control.moveToPanel(anchor.panel, { duration: 0 }).catch(() => void 0);
+    }
+  }
+
+  private _flushPendingPrepends() {
+    const flicking = this._flicking;
+
+    if (!flicking || flicking.holding || flicking.animating) return;
+
+    const pendingPrepends = this._pendingPrepends;
+
+    this._pendingPrepends = [];
+    pendingPrepends.forEach(prepend => prepend());
+  }
+
+  private _onNeedPanel = (e: NeedPanelEvent) => {
+    // Failed directions are loaded again only by retry()
+    if (this._failed[e.direction]) return;
+
+    void this.load(e.direction).catch(() => void 0);
+  };
+
+  private _onHoldEnd = () => {
+    // State of the control changes after the holdEnd event
+    void Promise.resolve().then(() => this._flushPendingPrepends());
+  };
+
+  private _onMoveEnd = () => {
+    this._flushPendingPrepends();
+  };
+}
+
+export default DataSourceLoader;
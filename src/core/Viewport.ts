@@ -13,6 +13,7 @@ class Viewport {
   private _width: number;
   private _height: number;
   private _isBorderBoxSizing: boolean;
+  private _rtl: boolean;
   private _padding: {
     left: number;
     right: number;
@@ -53,6 +54,13 @@ class Viewport {
    * @readonly
    */
   public get padding() { return this._padding; }
+  /**
+   * Whether the computed CSS `direction` of the viewport element is `rtl`
+   * @ko 뷰포트 엘리먼트의 CSS `direction` 계산값이 `rtl`인지 여부
+   * @type {boolean}
+   * @readonly
+   */
+  public get rtl() { return this._rtl; }
 
   /**
    * @param el A viewport element<ko>뷰포트 엘리먼트</ko>
@@ -68,6 +76,7 @@ class Viewport {
       bottom: 0
     };
     this._isBorderBoxSizing = false;
+    this._rtl = false;
   }
 
   /**
@@ -130,6 +139,7 @@ class Viewport {
       bottom: parseFloat(elStyle.paddingBottom)
     };
     this._isBorderBoxSizing = elStyle.boxSizing === "border-box";
+    this._rtl = elStyle.direction === "rtl";
   }
 }
 
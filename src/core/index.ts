@@ -5,11 +5,20 @@
 import Viewport from "./Viewport";
 import FlickingError from "./FlickingError";
 import AnchorPoint from "./AnchorPoint";
+import Accessibility from "./Accessibility";
+import DataSourceLoader, { DataSource, DataSourceContext } from "./DataSourceLoader";
 
 export {
   Viewport,
   FlickingError,
-  AnchorPoint
+  AnchorPoint,
+  Accessibility,
+  DataSourceLoader
+};
+
+export type {
+  DataSource,
+  DataSourceContext
 };
 
 export * from "./panel";
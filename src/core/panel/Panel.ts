@@ -3,9 +3,10 @@
  * egjs projects are licensed under the MIT license
  */
 import Flicking from "../../Flicking";
-import { getProgress, getStyle, parseAlign } from "../../utils";
+import { getCircularToggle, getProgress, getStyle, isCircularToggled, parseAlign } from "../../utils";
 import { ALIGN, DIRECTION } from "../../const/external";
 import { LiteralUnion, ValueOf } from "../../type/internal";
+import { MoveOptions } from "../../type/external";
 
 export interface PanelOptions {
   index: number;
@@ -32,12 +33,12 @@ abstract class Panel {
 
   // Internal States Getter
   /**
-   * `HTMLElement` that panel's referencing
-   * @ko 패널이 참조하고 있는 `HTMLElement`
-   * @type {HTMLElement}
+   * `HTMLElement` that panel's referencing. `null` if the panel doesn't have one, like the {@link VirtualPanel} not rendered
+   * @ko 패널이 참조하고 있는 `HTMLElement`. {@link VirtualPanel}이 렌더링되지 않은 경우처럼 엘리먼트가 없을 경우 `null`입니다
+   * @type {HTMLElement | null}
    * @readonly
    */
-  abstract get element(): HTMLElement;
+  abstract get element(): HTMLElement | null;
   /**
    * Index of the panel
    * @ko 패널의 인덱스
@@ -267,32 +268,46 @@ abstract class Panel {
   /**
    * Update size of the panel
    * @ko 패널의 크기를 갱신합니다
+   * @param {object} [cached] Predefined size of the panel. The element's size will not be measured when it's given<ko>미리 계산된 패널의 크기. 주어질 경우 엘리먼트의 크기를 측정하지 않습니다</ko>
+   * @param {number} [cached.size] Size of the panel<ko>패널의 크기</ko>
+   * @param {object} [cached.margin] Margin of the panel<ko>패널의 margin</ko>
    * @chainable
    * @return {this}
    */
-  public resize(): this {
+  public resize(cached?: { size: number; margin: { prev: number; next: number } }): this {
     const el = this.element;
-    const elStyle = getStyle(el);
     const flicking = this._flicking;
     const horizontal = flicking.horizontal;
     const prevPanel = flicking.renderer.panels[this._index - 1];
 
-    this._size = horizontal ? el.offsetWidth : el.offsetHeight;
-
-    this._margin = horizontal
-      ? {
-        prev: parseFloat(elStyle.marginLeft || "0"),
-        next: parseFloat(elStyle.marginRight || "0")
-      } : {
-        prev: parseFloat(elStyle.marginTop || "0"),
-        next: parseFloat(elStyle.marginBottom || "0")
-      };
+    if (cached) {
+      this._size = cached.size;
+      this._margin = { ...cached.margin };
+    } else if (el) {
+      const elStyle = getStyle(el);
+
+      this._size = horizontal ? el.offsetWidth : el.offsetHeight;
+      const rtl = flicking.rtlEnabled;
+
+      // Panels start from the right on the right-to-left layout
+      this._margin = horizontal
+        ? {
+          prev: parseFloat((rtl ? elStyle.marginRight : elStyle.marginLeft) || "0"),
+          next: parseFloat((rtl ? elStyle.marginLeft : elStyle.marginRight) || "0")
+        } : {
+          prev: parseFloat(elStyle.marginTop || "0"),
+          next: parseFloat(elStyle.marginBottom || "0")
+        };
+    }
 
     this._pos = prevPanel
       ? prevPanel.range.max + prevPanel.margin.next + this._margin.prev
       : this._margin.prev;
 
-    this._height = horizontal ? el.offsetHeight : this._size;
+    // Panels without an element(like VirtualPanel) keep the previous height
+    this._height = horizontal
+      ? (el ? el.offsetHeight : this._height)
+      : this._size;
 
     this._updateAlignPos();
 
@@ -306,7 +321,9 @@ abstract class Panel {
    * @return {boolean} A Boolean value indicating the element is inside of this panel {@link Panel#element element}<ko>패널의 {@link Panel#element element}내에 해당 엘리먼트 포함 여부</ko>
    */
   public contains(element: HTMLElement): boolean {
-    return this.element.contains(element);
+    const el = this.element;
+
+    return !!el && el.contains(element);
   }
 
   /**
@@ -353,11 +370,11 @@ abstract class Panel {
   /**
    * Move {@link Camera} to this panel
    * @ko {@link Camera}를 이 패널로 이동합니다
-   * @param {number} [duration] Duration of the animation (unit: ms)<ko>애니메이션 진행 시간 (단위: ms)</ko>
+   * @param {number | MoveOptions} [options] Duration of the animation (unit: ms), or an {@link MoveOptions options object}<ko>애니메이션 진행 시간 (단위: ms), 혹은 {@link MoveOptions 옵션 오브젝트}</ko>
    * @returns {Promise<void>} A Promise which will be resolved after reaching the panel<ko>패널 도달시에 resolve되는 Promise</ko>
    */
-  public focus(duration?: number) {
-    return this._flicking.moveTo(this._index, duration);
+  public focus(options?: number | MoveOptions) {
+    return this._flicking.moveTo(this._index, options);
   }
 
   /**
@@ -490,30 +507,17 @@ abstract class Panel {
     }
 
     const camera = flicking.camera;
-    const camRange = camera.range;
-    const camAlignPosition = camera.alignPosition;
     const camVisibleRange = camera.visibleRange;
-    const camVisibleSize = camVisibleRange.max - camVisibleRange.min;
-
-    const minimumVisible = camRange.min - camAlignPosition;
-    const maximumVisible = camRange.max - camAlignPosition + camVisibleSize;
-
-    const shouldBeVisibleAtMin = this.includeRange(maximumVisible - camVisibleSize, maximumVisible, false);
-    const shouldBeVisibleAtMax = this.includeRange(minimumVisible, minimumVisible + camVisibleSize, false);
-
-    this._toggled = false;
-    if (shouldBeVisibleAtMin) {
-      this._toggleDirection = DIRECTION.PREV;
-      this._togglePosition = this.range.max + camRange.min - camRange.max + camAlignPosition;
-      this.toggle(Infinity, camera.position);
-    } else if (shouldBeVisibleAtMax) {
-      this._toggleDirection = DIRECTION.NEXT;
-      this._togglePosition = this.range.min + camRange.max - camVisibleSize + camAlignPosition;
-      this.toggle(-Infinity, camera.position);
-    } else {
-      this._toggleDirection = DIRECTION.NONE;
-      this._togglePosition = 0;
-    }
+    const toggle = getCircularToggle(
+      this.range,
+      camera.range,
+      camera.alignPosition,
+      camVisibleRange.max - camVisibleRange.min
+    );
+
+    this._toggleDirection = toggle.direction;
+    this._togglePosition = toggle.position;
+    this._toggled = isCircularToggled(toggle.direction, toggle.position, camera.position);
 
     return this;
   }
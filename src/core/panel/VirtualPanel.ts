@@ -0,0 +1,120 @@
+/*
+ * Copyright (c) 2015 NAVER Corp.
+ * egjs projects are licensed under the MIT license
+ */
+import Panel, { PanelOptions } from "./Panel";
+
+export interface VirtualPanelOptions extends PanelOptions {
+  data: any;
+}
+
+/**
+ * A slide data component used by the {@link VirtualRenderer}
+ * It doesn't own an element, and borrows one from the element pool of the renderer only while it's visible
+ * @ko {@link VirtualRenderer}에서 사용하는 슬라이드 데이터 컴포넌트
+ * 엘리먼트를 소유하지 않으며, 보이는 동안에만 렌더러의 엘리먼트 풀에서 엘리먼트를 빌려서 사용합니다
+ */
+class VirtualPanel extends Panel {
+  private _data: any;
+  private _el: HTMLElement | null;
+  private _renderedIndex: number;
+
+  /**
+   * `HTMLElement` that panel's currently using. `null` if the panel is not rendered
+   * @ko 패널이 현재 사용하고 있는 `HTMLElement`. 패널이 렌더링되지 않은 경우 `null`입니다
+   * @type {HTMLElement | null}
+   * @readonly
+   */
+  public get element() { return this._el; }
+
+  public get rendered() { return !!this._el; }
+
+  /**
+   * Data of the panel given to the {@link VirtualRendererOptions renderPanel}
+   * @ko {@link VirtualRendererOptions renderPanel}에 전달되는 패널의 데이터
+   * @type {any}
+   * @readonly
+   */
+  public get data() { return this._data; }
+
+  /**
+   * Whether the element should be rendered again, as the index of the panel has changed after it's rendered
+   * @ko 렌더링 이후 패널의 인덱스가 변경되어, 엘리먼트를 다시 렌더링해야 하는지 여부
+   * @type {boolean}
+   * @internal
+   * @readonly
+   */
+  public get needsRender() { return !!this._el && this._renderedIndex !== this._index; }
+
+  /**
+   * @param {object} options An options object<ko>옵션 오브젝트</ko>
+   * @param {any} [options.data] Data of the panel<ko>패널의 데이터</ko>
+   * @param {number} [options.index] An initial index of the panel<ko>패널의 초기 인덱스</ko>
+   * @param {Constants.ALIGN | string | number} [options.align] An initial {@link Flicking#align align} value of the panel<ko>패널의 초기 {@link Flicking#align align}값</ko>
+   * @param {Flicking} [options.flicking] A Flicking instance panel's referencing<ko>패널이 참조하는 {@link Flicking} 인스턴스</ko>
+   */
+  public constructor(options: VirtualPanelOptions) {
+    super(options);
+
+    this._data = options.data;
+    this._el = null;
+    this._renderedIndex = -1;
+  }
+
+  public markForShow() {
+    // Elements are assigned by the VirtualRenderer
+  }
+
+  public markForHide() {
+    // Elements are released by the VirtualRenderer
+  }
+
+  /**
+   * Set the element from the element pool of the {@link VirtualRenderer}
+   * @ko {@link VirtualRenderer}의 엘리먼트 풀에서 가져온 엘리먼트를 설정합니다
+   * @internal
+   * @chainable
+   * @param {HTMLElement | null} el An element to use, or `null` to release it<ko>사용할 엘리먼트, 혹은 엘리먼트를 반환할 경우 `null`</ko>
+   * @return {this}
+   */
+  public setElement(el: HTMLElement | null): this {
+    this._el = el;
+    this._renderedIndex = -1;
+    return this;
+  }
+
+  /**
+   * Mark the element as rendered with the current index
+   * @ko 엘리먼트가 현재 인덱스로 렌더링되었음을 표시합니다
+   * @internal
+   * @chainable
+   * @return {this}
+   */
+  public markRendered(): this {
+    this._renderedIndex = this._index;
+    return this;
+  }
+
+  /**
+   * Update size of the panel
+   * As the panel doesn't own an element, the size is not measured and the last size given is kept if `cached` is not given
+   * @ko 패널의 크기를 갱신합니다
+   * 패널이 엘리먼트를 소유하지 않으므로 크기를 측정하지 않으며, `cached`가 주어지지 않을 경우 마지막으로 주어진 크기를 유지합니다
+   * @param {object} [cached] Predefined size of the panel<ko>미리 계산된 패널의 크기</ko>
+   * @param {number} [cached.size] Size of the panel<ko>패널의 크기</ko>
+   * @param {object} [cached.margin] Margin of the panel<ko>패널의 margin</ko>
+   * @chainable
+   * @return {this}
+   */
+  public resize(cached?: { size: number; margin: { prev: number; next: number } }): this {
+    return super.resize(cached ?? { size: this._size, margin: this._margin });
+  }
+
+  public destroy(): void {
+    super.destroy();
+    this._el = null;
+    this._renderedIndex = -1;
+  }
+}
+
+export default VirtualPanel;
@@ -5,15 +5,18 @@
 import Panel, { PanelOptions } from "./Panel";
 import ElementPanel, { ElementPanelOptions } from "./ElementPanel";
 import ExternalPanel, { ExternalPanelOptions } from "./ExternalPanel";
+import VirtualPanel, { VirtualPanelOptions } from "./VirtualPanel";
 
 export {
   Panel,
   ElementPanel,
-  ExternalPanel
+  ExternalPanel,
+  VirtualPanel
 };
 
 export type {
   PanelOptions,
   ElementPanelOptions,
-  ExternalPanelOptions
+  ExternalPanelOptions,
+  VirtualPanelOptions
 };
@@ -8,6 +8,7 @@ export * from "./core";
 export * from "./camera";
 export * from "./control";
 export * from "./renderer";
+export * from "./plugin";
 export * from "./const/external";
 export * from "./type/event";
 export * from "./type/external";
@@ -7,6 +7,7 @@ import * as Core from "./core";
 import * as Camera from "./camera";
 import * as Control from "./control";
 import * as Renderer from "./renderer";
+import * as Plugin from "./plugin";
 import * as Constants from "./const/external";
 import { merge } from "./utils";
 
@@ -14,6 +15,7 @@ merge(Flicking, Core);
 merge(Flicking, Camera);
 merge(Flicking, Control);
 merge(Flicking, Renderer);
+merge(Flicking, Plugin);
 merge(Flicking, Constants);
 
 export default Flicking;
@@ -0,0 +1,254 @@
+/*
+ * Copyright (c) 2015 NAVER Corp.
+ * egjs projects are licensed under the MIT license
+ */
+import Flicking from "../Flicking";
+import { EVENTS } from "../const/external";
+import { Plugin } from "../type/external";
+import { addClass, getElement, removeClass } from "../utils";
+
+/**
+ * An options for the {@link Arrow}
+ * @ko {@link Arrow} 생성시 사용되는 옵션
+ * @interface
+ * @property {HTMLElement | string | null} parentEl An element or a CSS selector of the element to find the arrow elements in. The viewport element will be used if it's `null`
+ * <ko>화살표 엘리먼트들을 찾을 엘리먼트 혹은 엘리먼트의 CSS 선택자. `null`일 경우 뷰포트 엘리먼트를 사용합니다</ko>
+ * @property {HTMLElement | string} prevEl An element or a CSS selector of the element that moves to the previous panel<ko>이전 패널로 이동하는 엘리먼트 혹은 엘리먼트의 CSS 선택자</ko>
+ * @property {HTMLElement | string} nextEl An element or a CSS selector of the element that moves to the next panel<ko>다음 패널로 이동하는 엘리먼트 혹은 엘리먼트의 CSS 선택자</ko>
+ * @property {string} disabledClass A class name that will be added to the arrow element when it can't move to that direction<ko>해당 방향으로 이동할 수 없을 때 화살표 엘리먼트에 추가되는 클래스명</ko>
+ */
+export interface ArrowOptions {
+  parentEl: HTMLElement | string | null;
+  prevEl: HTMLElement | string;
+  nextEl: HTMLElement | string;
+  disabledClass: string;
+}
+
+/**
+ * A {@link Plugin} that binds the arrow elements to {@link Flicking#prev prev()} and {@link Flicking#next next()}
+ * Clicks while the animation is playing are ignored, and the arrows are disabled at the edges of the non-circular Flicking
+ * @ko 화살표 엘리먼트를 {@link Flicking#prev prev()}와 {@link Flicking#next next()}에 연결하는 {@link Plugin}
+ * 애니메이션 진행중의 클릭은 무시되며, circular가 아닌 Flicking의 끝에 도달하면 화살표가 비활성화됩니다
+ * @example
+ * ```ts
+ * import Flicking, { Arrow } from "@egjs/flicking";
+ *
+ * const flicking = new Flicking("#el");
+ *
+ * flicking.addPlugins(new Arrow({ prevEl: ".my-prev", nextEl: ".my-next" }));
+ * ```
+ */
+class Arrow implements Plugin {
+  // Internal States
+  private _flicking: Flicking | null;
+  private _prevArrow: HTMLElement | null;
+  private _nextArrow: HTMLElement | null;
+
+  // Options
+  private _parentEl: ArrowOptions["parentEl"];
+  private _prevEl: ArrowOptions["prevEl"];
+  private _nextEl: ArrowOptions["nextEl"];
+  private _disabledClass: ArrowOptions["disabledClass"];
+
+  // Internal states getter
+  /**
+   * An arrow element that moves to the previous panel
+   * @ko 이전 패널로 이동하는 화살표 엘리먼트
+   * @type {HTMLElement | null}
+   * @readonly
+   */
+  public get prevArrow() { return this._prevArrow; }
+  /**
+   * An arrow element that moves to the next panel
+   * @ko 다음 패널로 이동하는 화살표 엘리먼트
+   * @type {HTMLElement | null}
+   * @readonly
+   */
+  public get nextArrow() { return this._nextArrow; }
+
+  // Options getter
+  /**
+   * An element or a CSS selector of the element to find the arrow elements in. The viewport element will be used if it's `null`
+   * @ko 화살표 엘리먼트들을 찾을 엘리먼트 혹은 엘리먼트의 CSS 선택자. `null`일 경우 뷰포트 엘리먼트를 사용합니다
+   * @type {HTMLElement | string | null}
+   * @default null
+   * @readonly
+   */
+  public get parentEl() { return this._parentEl; }
+  /**
+   * An element or a CSS selector of the element that moves to the previous panel
+   * @ko 이전 패널로 이동하는 엘리먼트 혹은 엘리먼트의 CSS 선택자
+   * @type {HTMLElement | string}
+   * @default ".flicking-arrow-prev"
+   * @readonly
+   */
+  public get prevEl() { return this._prevEl; }
+  /**
+   * An element or a CSS selector of the element that moves to the next panel
+   * @ko 다음 패널로 이동하는 엘리먼트 혹은 엘리먼트의 CSS 선택자
+   * @type {HTMLElement | string}
+   * @default ".flicking-arrow-next"
+   * @readonly
+   */
+  public get nextEl() { return this._nextEl; }
+  /**
+   * A class name that will be added to the arrow element when it can't move to that direction
+   * @ko 해당 방향으로 이동할 수 없을 때 화살표 엘리먼트에 추가되는 클래스명
+   * @type {string}
+   * @default "flicking-arrow-disabled"
+   * @readonly
+   */
+  public get disabledClass() { return this._disabledClass; }
+
+  /**
+   * @param {Partial<ArrowOptions>} [options={}] An options object<ko>옵션 오브젝트</ko>
+   */
+  public constructor({
+    parentEl = null,
+    prevEl = ".flicking-arrow-prev",
+    nextEl = ".flicking-arrow-next",
+    disabledClass = "flicking-arrow-disabled"
+  }: Partial<ArrowOptions> = {}) {
+    this._flicking = null;
+    this._prevArrow = null;
+    this._nextArrow = null;
+
+    this._parentEl = parentEl;
+    this._prevEl = prevEl;
+    this._nextEl = nextEl;
+    this._disabledClass = disabledClass;
+  }
+
+  /**
+   * Initialize Arrow and attach click handlers to the arrow elements
+   * @ko Arrow를 초기화하고 화살표 엘리먼트들에 클릭 핸들러를 부착합니다
+   * @param {Flicking} flicking An instance of {@link Flicking}<ko>Flicking의 인스턴스</ko>
+   * @throws {FlickingError}
+   * {@link ERROR_CODE ELEMENT_NOT_FOUND} When the arrow element with the given CSS selector does not exist
+   * <ko>{@link ERROR_CODE ELEMENT_NOT_FOUND} 주어진 CSS 선택자로 화살표 엘리먼트를 찾지 못했을 경우</ko>
+   * @return {void}
+   */
+  public init(flicking: Flicking): void {
+    if (this._flicking) {
+      this.destroy();
+    }
+
+    const parentEl = this._parentEl
+      ? getElement(this._parentEl)
+      : flicking.element;
+    const prevArrow = getElement(this._prevEl, parentEl);
+    const nextArrow = getElement(this._nextEl, parentEl);
+
+    prevArrow.addEventListener("click", this._onPrevClick);
+    nextArrow.addEventListener("click", this._onNextClick);
+
+    this._flicking = flicking;
+    this._prevArrow = prevArrow;
+    this._nextArrow = nextArrow;
+
+    flicking.on(EVENTS.MOVE, this._onEdgeChange);
+    flicking.on(EVENTS.REACH_EDGE, this._onEdgeChange);
+    flicking.on(EVENTS.CHANGED, this._onEdgeChange);
+    flicking.on(EVENTS.RESTORED, this._onEdgeChange);
+    flicking.on(EVENTS.AFTER_RESIZE, this._onEdgeChange);
+    flicking.on(EVENTS.PANEL_CHANGE, this._onEdgeChange);
+
+    this.update();
+  }
+
+  /**
+   * Detach all event handlers and remove the disabled class of the arrow elements
+   * @ko 부착된 모든 이벤트 핸들러를 제거하고, 화살표 엘리먼트들의 비활성화 클래스를 제거합니다
+   * @return {void}
+   */
+  public destroy(): void {
+    const flicking = this._flicking;
+    const prevArrow = this._prevArrow;
+    const nextArrow = this._nextArrow;
+
+    if (!flicking || !prevArrow || !nextArrow) return;
+
+    flicking.off(EVENTS.MOVE, this._onEdgeChange);
+    flicking.off(EVENTS.REACH_EDGE, this._onEdgeChange);
+    flicking.off(EVENTS.CHANGED, this._onEdgeChange);
+    flicking.off(EVENTS.RESTORED, this._onEdgeChange);
+    flicking.off(EVENTS.AFTER_RESIZE, this._onEdgeChange);
+    flicking.off(EVENTS.PANEL_CHANGE, this._onEdgeChange);
+
+    prevArrow.removeEventListener("click", this._onPrevClick);
+    nextArrow.removeEventListener("click", this._onNextClick);
+    this._setDisabled(prevArrow, false);
+    this._setDisabled(nextArrow, false);
+
+    this._flicking = null;
+    this._prevArrow = null;
+    this._nextArrow = null;
+  }
+
+  /**
+   * Update the disabled state of the arrow elements to match the current position of the camera
+   * @ko 화살표 엘리먼트들의 비활성화 상태를 현재 카메라 위치에 맞게 갱신합니다
+   * @return {void}
+   */
+  public update(): void {
+    const flicking = this._flicking;
+    const prevArrow = this._prevArrow;
+    const nextArrow = this._nextArrow;
+
+    if (!flicking || !prevArrow || !nextArrow) return;
+
+    const camera = flicking.camera;
+    const range = camera.range;
+    const position = camera.position;
+
+    if (flicking.panelCount <= 0) {
+      this._setDisabled(prevArrow, true);
+      this._setDisabled(nextArrow, true);
+    } else if (flicking.circularEnabled || !camera.atEdge) {
+      this._setDisabled(prevArrow, false);
+      this._setDisabled(nextArrow, false);
+    } else {
+      this._setDisabled(prevArrow, position <= range.min);
+      this._setDisabled(nextArrow, position >= range.max);
+    }
+  }
+
+  private _setDisabled(el: HTMLElement, disabled: boolean) {
+    const disabledClass = this._disabledClass;
+
+    if (disabled) {
+      addClass(el, disabledClass);
+      el.setAttribute("aria-disabled", "true");
+    } else {
+      removeClass(el, disabledClass);
+      el.removeAttribute("aria-disabled");
+    }
+  }
+
+  private _move(moveToNext: boolean) {
+    const flicking = this._flicking;
+
+    if (!flicking) return;
+
+    // Clicks while the animation is playing are handled by the animationPolicy
+    const move = moveToNext
+      ? flicking.next()
+      : flicking.prev();
+
+    void move.catch(() => void 0);
+  }
+
+  private _onPrevClick = () => {
+    this._move(false);
+  };
+
+  private _onNextClick = () => {
+    this._move(true);
+  };
+
+  private _onEdgeChange = () => {
+    this.update();
+  };
+}
+
+export default Arrow;
@@ -0,0 +1,309 @@
+/*
+ * Copyright (c) 2015 NAVER Corp.
+ * egjs projects are licensed under the MIT license
+ */
+import Flicking from "../Flicking";
+import FlickingError from "../core/FlickingError";
+import * as ERROR from "../const/error";
+import { DIRECTION, EVENTS } from "../const/external";
+import { Plugin } from "../type/external";
+import { ValueOf } from "../type/internal";
+
+/**
+ * An options for the {@link AutoPlay}
+ * @ko {@link AutoPlay} 생성시 사용되는 옵션
+ * @interface
+ * @property {number} interval Time to wait before moving to the next panel (unit: ms)<ko>다음 패널로 이동하기 전까지 대기하는 시간 (단위: ms)</ko>
+ * @property {number | undefined} animationDuration Duration of the panel movement animation. {@link Flicking#duration duration} of the Flicking will be used if it's `undefined` (unit: ms)
+ * <ko>패널 이동 애니메이션 진행 시간. `undefined`일 경우 Flicking의 {@link Flicking#duration duration} 옵션을 사용합니다 (단위: ms)</ko>
+ * @property {DIRECTION} direction Direction to move, either {@link DIRECTION DIRECTION.NEXT} or {@link DIRECTION DIRECTION.PREV}<ko>이동할 방향. {@link DIRECTION DIRECTION.NEXT} 또는 {@link DIRECTION DIRECTION.PREV}</ko>
+ * @property {boolean} pauseOnHover Pause while the mouse is over the viewport element<ko>마우스가 뷰포트 엘리먼트 위에 있는 동안 자동 재생을 일시정지합니다</ko>
+ * @property {boolean} pauseOnHidden Pause while the document is hidden, like when the browser tab is inactive<ko>브라우저 탭이 비활성화된 경우 등, 문서가 보이지 않는 동안 자동 재생을 일시정지합니다</ko>
+ */
+export interface AutoPlayOptions {
+  interval: number;
+  animationDuration: number | undefined;
+  direction: ValueOf<typeof DIRECTION>;
+  pauseOnHover: boolean;
+  pauseOnHidden: boolean;
+}
+
+/**
+ * A {@link Plugin} that moves Flicking to the next or previous panel periodically
+ * The timer pauses while the user is holding the Flicking, and resumes after the movement ends
+ * @ko 일정 시간마다 Flicking을 다음 혹은 이전 패널로 이동시키는 {@link Plugin}
+ * 사용자가 Flicking을 잡고 있는 동안에는 타이머가 일시정지되고, 이동이 끝난 후에 다시 시작됩니다
+ * @example
+ * ```ts
+ * import Flicking, { AutoPlay } from "@egjs/flicking";
+ *
+ * const flicking = new Flicking("#el", { circular: true });
+ *
+ * flicking.addPlugins(new AutoPlay({ interval: 3000 }));
+ * ```
+ */
+class AutoPlay implements Plugin {
+  // Internal States
+  private _flicking: Flicking | null;
+  private _timerId: number;
+  private _playing: boolean;
+  private _hovering: boolean;
+
+  // Options
+  private _interval: AutoPlayOptions["interval"];
+  private _animationDuration: AutoPlayOptions["animationDuration"];
+  private _direction: AutoPlayOptions["direction"];
+  private _pauseOnHover: AutoPlayOptions["pauseOnHover"];
+  private _pauseOnHidden: AutoPlayOptions["pauseOnHidden"];
+
+  // Internal states getter
+  /**
+   * Whether the AutoPlay is playing. This is `true` while the timer is paused by the user input
+   * @ko 자동 재생중인지 여부. 사용자 입력 등에 의해 타이머가 일시정지된 경우에도 `true`입니다
+   * @type {boolean}
+   * @readonly
+   */
+  public get playing() { return this._playing; }
+
+  // Options getter
+  /**
+   * Time to wait before moving to the next panel (unit: ms)
+   * @ko 다음 패널로 이동하기 전까지 대기하는 시간 (단위: ms)
+   * @type {number}
+   * @default 2000
+   */
+  public get interval() { return this._interval; }
+  /**
+   * Duration of the panel movement animation. {@link Flicking#duration duration} of the Flicking will be used if it's `undefined` (unit: ms)
+   * @ko 패널 이동 애니메이션 진행 시간. `undefined`일 경우 Flicking의 {@link Flicking#duration duration} 옵션을 사용합니다 (단위: ms)
+   * @type {number | undefined}
+   * @default undefined
+   */
+  public get animationDuration() { return this._animationDuration; }
+  /**
+   * Direction to move, either {@link DIRECTION DIRECTION.NEXT} or {@link DIRECTION DIRECTION.PREV}
+   * @ko 이동할 방향. {@link DIRECTION DIRECTION.NEXT} 또는 {@link DIRECTION DIRECTION.PREV}
+   * @type {DIRECTION}
+   * @default DIRECTION.NEXT
+   */
+  public get direction() { return this._direction; }
+  /**
+   * Pause while the mouse is over the viewport element
+   * @ko 마우스가 뷰포트 엘리먼트 위에 있는 동안 자동 재생을 일시정지합니다
+   * @type {boolean}
+   * @default true
+   */
+  public get pauseOnHover() { return this._pauseOnHover; }
+  /**
+   * Pause while the document is hidden, like when the browser tab is inactive
+   * @ko 브라우저 탭이 비활성화된 경우 등, 문서가 보이지 않는 동안 자동 재생을 일시정지합니다
+   * @type {boolean}
+   * @default true
+   */
+  public get pauseOnHidden() { return this._pauseOnHidden; }
+
+  // Options setter
+  public set interval(val: AutoPlayOptions["interval"]) { this._interval = val; }
+  public set animationDuration(val: AutoPlayOptions["animationDuration"]) { this._animationDuration = val; }
+  public set direction(val: AutoPlayOptions["direction"]) { this._direction = val; }
+  public set pauseOnHover(val: AutoPlayOptions["pauseOnHover"]) { this._pauseOnHover = val; }
+  public set pauseOnHidden(val: AutoPlayOptions["pauseOnHidden"]) { this._pauseOnHidden = val; }
+
+  /**
+   * @param {Partial<AutoPlayOptions>} [options={}] An options object<ko>옵션 오브젝트</ko>
+   */
+  public constructor({
+    interval = 2000,
+    animationDuration = undefined,
+    direction = DIRECTION.NEXT,
+    pauseOnHover = true,
+    pauseOnHidden = true
+  }: Partial<AutoPlayOptions> = {}) {
+    this._flicking = null;
+    this._timerId = -1;
+    this._playing = false;
+    this._hovering = false;
+
+    this._interval = interval;
+    this._animationDuration = animationDuration;
+    this._direction = direction;
+    this._pauseOnHover = pauseOnHover;
+    this._pauseOnHidden = pauseOnHidden;
+  }
+
+  /**
+   * Initialize AutoPlay and start playing
+   * @ko AutoPlay를 초기화하고 자동 재생을 시작합니다
+   * @param {Flicking} flicking An instance of {@link Flicking}<ko>Flicking의 인스턴스</ko>
+   * @return {void}
+   */
+  public init(flicking: Flicking): void {
+    if (this._flicking) {
+      this.destroy();
+    }
+
+    this._flicking = flicking;
+
+    flicking.on(EVENTS.HOLD_START, this._onHoldStart);
+    flicking.on(EVENTS.HOLD_END, this._onMoveEnd);
+    flicking.on(EVENTS.MOVE_END, this._onMoveEnd);
+
+    if (this._pauseOnHover) {
+      const viewportEl = flicking.element;
+
+      viewportEl.addEventListener("mouseenter", this._onMouseEnter);
+      viewportEl.addEventListener("mouseleave", this._onMouseLeave);
+    }
+    if (this._pauseOnHidden) {
+      document.addEventListener("visibilitychange", this._onVisibilityChange);
+    }
+
+    this.play();
+  }
+
+  /**
+   * Stop playing and detach all event handlers
+   * @ko 자동 재생을 중단하고 부착된 모든 이벤트 핸들러를 제거합니다
+   * @return {void}
+   */
+  public destroy(): void {
+    const flicking = this._flicking;
+
+    if (!flicking) return;
+
+    this.stop();
+
+    flicking.off(EVENTS.HOLD_START, this._onHoldStart);
+    flicking.off(EVENTS.HOLD_END, this._onMoveEnd);
+    flicking.off(EVENTS.MOVE_END, this._onMoveEnd);
+
+    const viewportEl = flicking.element;
+
+    viewportEl.removeEventListener("mouseenter", this._onMouseEnter);
+    viewportEl.removeEventListener("mouseleave", this._onMouseLeave);
+    document.removeEventListener("visibilitychange", this._onVisibilityChange);
+
+    this._flicking = null;
+    this._hovering = false;
+  }
+
+  /**
+   * Restart the timer to match the current options
+   * @ko 현재 옵션에 맞게 타이머를 다시 시작합니다
+   * @return {void}
+   */
+  public update(): void {
+    if (!this._playing) return;
+
+    this._schedule();
+  }
+
+  /**
+   * Start playing
+   * @ko 자동 재생을 시작합니다
+   * @return {void}
+   */
+  public play(): void {
+    this._playing = true;
+    this._schedule();
+  }
+
+  /**
+   * Stop playing
+   * @ko 자동 재생을 중단합니다
+   * @return {void}
+   */
+  public stop(): void {
+    this._playing = false;
+    this._clearTimer();
+  }
+
+  private _schedule(): void {
+    this._clearTimer();
+
+    if (!this._flicking || this._hovering || (this._pauseOnHidden && document.hidden)) return;
+
+    this._timerId = window.setTimeout(this._move, this._interval);
+  }
+
+  private _clearTimer(): void {
+    if (this._timerId >= 0) {
+      window.clearTimeout(this._timerId);
+    }
+
+    this._timerId = -1;
+  }
+
+  private _move = () => {
+    const flicking = this._flicking;
+
+    this._timerId = -1;
+
+    if (!flicking) return;
+
+    const move = this._direction === DIRECTION.PREV
+      ? flicking.prev(this._animationDuration)
+      : flicking.next(this._animationDuration);
+
+    void move.then(() => {
+      // Schedule again in case the moveEnd event is not triggered
+      this._scheduleIfStopped();
+    }).catch((err: FlickingError) => {
+      switch (err.code) {
+        case ERROR.CODE.ANIMATION_ALREADY_PLAYING:
+        case ERROR.CODE.ANIMATION_INTERRUPTED:
+        case ERROR.CODE.ANIMATION_ABORTED:
+          // The user's moving Flicking, the timer will be restarted after the movement ends
+          return;
+        case ERROR.CODE.STOP_CALLED_BY_USER:
+          // The movement is prevented by the event handler, so the moveEnd event won't be triggered
+          this._scheduleIfStopped();
+          return;
+        default:
+          // Reached the end of the non-circular Flicking, or can't move anymore
+          this.stop();
+      }
+    });
+  };
+
+  private _scheduleIfStopped(): void {
+    if (this._playing && this._timerId < 0) {
+      this._schedule();
+    }
+  }
+
+  private _onHoldStart = () => {
+    this._clearTimer();
+  };
+
+  private _onMoveEnd = () => {
+    if (!this._playing) return;
+
+    this._schedule();
+  };
+
+  private _onMouseEnter = () => {
+    this._hovering = true;
+    this._clearTimer();
+  };
+
+  private _onMouseLeave = () => {
+    this._hovering = false;
+
+    if (!this._playing) return;
+
+    this._schedule();
+  };
+
+  private _onVisibilityChange = () => {
+    if (!this._playing) return;
+
+    if (document.hidden) {
+      this._clearTimer();
+    } else {
+      this._schedule();
+    }
+  };
+}
+
+export default AutoPlay;
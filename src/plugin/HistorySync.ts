@@ -0,0 +1,269 @@
+/*
+ * Copyright (c) 2015 NAVER Corp.
+ * egjs projects are licensed under the MIT license
+ */
+import Flicking from "../Flicking";
+import Panel from "../core/panel/Panel";
+import { EVENTS } from "../const/external";
+import { Plugin } from "../type/external";
+import { ValueOf } from "../type/internal";
+import { find } from "../utils";
+
+/**
+ * An object with all possible values for the {@link HistorySyncOptions type} option of the {@link HistorySync}
+ * @ko {@link HistorySync}의 {@link HistorySyncOptions type} 옵션에 사용 가능한 값들을 담고 있는 객체
+ * @type {object}
+ * @property {"hash"} HASH Write the identifier of the active panel as `location.hash`, like `#3`. It replaces the whole hash, so the other contents of the hash are not preserved
+ * <ko>활성화된 패널의 식별자를 `#3`과 같이 `location.hash`에 기록합니다. 해시 전체를 대체하므로, 해시의 다른 내용은 유지되지 않습니다</ko>
+ * @property {"query"} QUERY Write the identifier of the active panel as a query parameter, like `?slide=3`<ko>활성화된 패널의 식별자를 `?slide=3`과 같이 쿼리 파라미터에 기록합니다</ko>
+ */
+export const HISTORY_SYNC_TYPE = {
+  HASH: "hash",
+  QUERY: "query"
+} as const;
+
+/**
+ * An options for the {@link HistorySync}
+ * @ko {@link HistorySync} 생성시 사용되는 옵션
+ * @interface
+ * @property {HISTORY_SYNC_TYPE} type Where to write the identifier of the active panel<ko>활성화된 패널의 식별자를 기록할 위치</ko>
+ * @property {string} key Name of the query parameter when type is `"query"`. It's not used when type is `"hash"`<ko>type이 `"query"`일 때 사용할 쿼리 파라미터의 이름. type이 `"hash"`일 경우 사용되지 않습니다</ko>
+ * @property {string | null} attribute Name of the attribute of the panel element to use as the identifier, like `"data-slide-id"`. The index of the panel is used if it's `null`
+ * <ko>식별자로 사용할 패널 엘리먼트의 속성 이름(예: `"data-slide-id"`). `null`일 경우 패널의 인덱스를 사용합니다</ko>
+ * @property {boolean} push Add a new history entry for each change so the browser's back button moves to the previous panel. The current entry is replaced if it's `false`
+ * <ko>변경시마다 새 히스토리 엔트리를 추가하여 브라우저의 뒤로 가기 버튼으로 이전 패널로 이동할 수 있도록 합니다. `false`일 경우 현재 엔트리를 대체합니다</ko>
+ */
+export interface HistorySyncOptions {
+  type: ValueOf<typeof HISTORY_SYNC_TYPE>;
+  key: string;
+  attribute: string | null;
+  push: boolean;
+}
+
+/**
+ * A {@link Plugin} that synchronizes the active panel with the URL, so each panel can have a shareable link
+ * On init, it shows the panel of the current URL instead of the {@link Flicking#defaultIndex defaultIndex}, without triggering any events
+ * @ko 활성화된 패널을 URL과 동기화하여, 각 패널마다 공유 가능한 링크를 갖도록 하는 {@link Plugin}
+ * 초기화시에 {@link Flicking#defaultIndex defaultIndex} 대신 현재 URL에 해당하는 패널을 이벤트 발생 없이 보여줍니다
+ * @example
+ * ```ts
+ * import Flicking, { HistorySync } from "@egjs/flicking";
+ *
+ * const flicking = new Flicking("#el");
+ *
+ * // https://example.com/?slide=intro
+ * flicking.addPlugins(new HistorySync({ type: "query", key: "slide", attribute: "data-slide-id" }));
+ * ```
+ */
+class HistorySync implements Plugin {
+  // Internal States
+  private _flicking: Flicking | null;
+
+  // Options
+  private _type: HistorySyncOptions["type"];
+  private _key: HistorySyncOptions["key"];
+  private _attribute: HistorySyncOptions["attribute"];
+  private _push: HistorySyncOptions["push"];
+
+  // Options getter
+  /**
+   * Where to write the identifier of the active panel
+   * @ko 활성화된 패널의 식별자를 기록할 위치
+   * @type {HISTORY_SYNC_TYPE}
+   * @default "hash"
+   * @readonly
+   */
+  public get type() { return this._type; }
+  /**
+   * Name of the query parameter when type is `"query"`. It's not used when type is `"hash"`
+   * @ko type이 `"query"`일 때 사용할 쿼리 파라미터의 이름. type이 `"hash"`일 경우 사용되지 않습니다
+   * @type {string}
+   * @default "slide"
+   * @readonly
+   */
+  public get key() { return this._key; }
+  /**
+   * Name of the attribute of the panel element to use as the identifier. The index of the panel is used if it's `null`
+   * @ko 식별자로 사용할 패널 엘리먼트의 속성 이름. `null`일 경우 패널의 인덱스를 사용합니다
+   * @type {string | null}
+   * @default null
+   * @readonly
+   */
+  public get attribute() { return this._attribute; }
+  /**
+   * Add a new history entry for each change. The current entry is replaced if it's `false`
+   * @ko 변경시마다 새 히스토리 엔트리를 추가합니다. `false`일 경우 현재 엔트리를 대체합니다
+   * @type {boolean}
+   * @default true
+   */
+  public get push() { return this._push; }
+
+  // Options setter
+  public set push(val: HistorySyncOptions["push"]) { this._push = val; }
+
+  /**
+   * @param {Partial<HistorySyncOptions>} [options={}] An options object<ko>옵션 오브젝트</ko>
+   */
+  public constructor({
+    type = HISTORY_SYNC_TYPE.HASH,
+    key = "slide",
+    attribute = null,
+    push = true
+  }: Partial<HistorySyncOptions> = {}) {
+    this._flicking = null;
+
+    this._type = type;
+    this._key = key;
+    this._attribute = attribute;
+    this._push = push;
+  }
+
+  /**
+   * Initialize HistorySync and show the panel of the current URL without triggering any events
+   * @ko HistorySync를 초기화하고 현재 URL에 해당하는 패널을 이벤트 발생 없이 보여줍니다
+   * @param {Flicking} flicking An instance of {@link Flicking}<ko>Flicking의 인스턴스</ko>
+   * @return {void}
+   */
+  public init(flicking: Flicking): void {
+    if (this._flicking) {
+      this.destroy();
+    }
+
+    this._flicking = flicking;
+
+    flicking.on(EVENTS.CHANGED, this._onChanged);
+    window.addEventListener("popstate", this._onPopState);
+
+    this._applyURLPanel();
+  }
+
+  /**
+   * Detach all event handlers
+   * @ko 부착된 모든 이벤트 핸들러를 제거합니다
+   * @return {void}
+   */
+  public destroy(): void {
+    const flicking = this._flicking;
+
+    if (!flicking) return;
+
+    flicking.off(EVENTS.CHANGED, this._onChanged);
+    window.removeEventListener("popstate", this._onPopState);
+
+    this._flicking = null;
+  }
+
+  /**
+   * Move to the panel of the current URL
+   * @ko 현재 URL에 해당하는 패널로 이동합니다
+   * @return {void}
+   */
+  public update(): void {
+    this._moveToURLPanel(0);
+  }
+
+  private _getPanelId(panel: Panel): string | null {
+    const attribute = this._attribute;
+    const el = panel.element;
+
+    if (!attribute) return `${panel.index}`;
+
+    // Panels of the VirtualRenderer don't have the element when they're not rendered
+    return el
+      ? el.getAttribute(attribute)
+      : null;
+  }
+
+  private _findPanel(id: string): Panel | null {
+    const flicking = this._flicking;
+
+    if (!flicking || !id) return null;
+
+    return find(flicking.panels, panel => this._getPanelId(panel) === id);
+  }
+
+  private _readURL(): string {
+    if (this._type === HISTORY_SYNC_TYPE.HASH) {
+      return decodeURIComponent(location.hash.slice(1));
+    }
+
+    const param = find(location.search.slice(1).split("&"), val => val.split("=")[0] === encodeURIComponent(this._key));
+
+    return param
+      ? decodeURIComponent(param.slice(param.indexOf("=") + 1))
+      : "";
+  }
+
+  private _createURL(id: string): string {
+    const encoded = encodeURIComponent(id);
+
+    if (this._type === HISTORY_SYNC_TYPE.HASH) {
+      return `${location.pathname}${location.search}#${encoded}`;
+    }
+
+    const key = encodeURIComponent(this._key);
+    const params = location.search.slice(1).split("&")
+      .filter(param => param && param.split("=")[0] !== key);
+
+    params.push(`${key}=${encoded}`);
+
+    return `${location.pathname}?${params.join("&")}${location.hash}`;
+  }
+
+  private _applyURLPanel() {
+    const flicking = this._flicking;
+    const panel = this._findPanel(this._readURL());
+
+    if (!flicking || !panel || panel.index === flicking.index) return;
+
+    const { camera, control } = flicking;
+
+    // Applied like the defaultIndex, as the panel is not changed by the user
+    control.setActivePanel(panel);
+    void camera.lookAt(camera.clampToReachablePosition(panel.position));
+    control.updateInput();
+    camera.updateAdaptiveHeight();
+  }
+
+  private _moveToURLPanel(duration?: number, fallbackToDefault: boolean = false) {
+    const flicking = this._flicking;
+
+    if (!flicking) return;
+
+    const id = this._readURL();
+    // Back to the entry before any panel is written
+    const panel = !id && fallbackToDefault
+      ? flicking.getPanel(flicking.defaultIndex)
+      : this._findPanel(id);
+
+    if (!panel || panel.index === flicking.index) return;
+
+    void flicking.moveTo(panel.index, duration).catch(() => void 0);
+  }
+
+  private _onChanged = () => {
+    const flicking = this._flicking;
+    const activePanel = flicking?.currentPanel;
+
+    if (!activePanel) return;
+
+    const id = this._getPanelId(activePanel);
+
+    // Moved by the URL change
+    if (id == null || id === this._readURL()) return;
+
+    const url = this._createURL(id);
+
+    if (this._push) {
+      history.pushState(null, "", url);
+    } else {
+      history.replaceState(null, "", url);
+    }
+  };
+
+  private _onPopState = () => {
+    this._moveToURLPanel(undefined, true);
+  };
+}
+
+export default HistorySync;
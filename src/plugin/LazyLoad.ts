@@ -0,0 +1,409 @@
+/*
+ * Copyright (c) 2015 NAVER Corp.
+ * egjs projects are licensed under the MIT license
+ */
+import Flicking from "../Flicking";
+import Panel from "../core/panel/Panel";
+import { EVENTS } from "../const/external";
+import { Plugin } from "../type/external";
+import { addClass, includes, toArray } from "../utils";
+
+/**
+ * An options for the {@link LazyLoad}
+ * @ko {@link LazyLoad} 생성시 사용되는 옵션
+ * @interface
+ * @property {number} preload Number of panels to load in advance before and after the visible panels<ko>보이는 패널들의 앞뒤로 미리 불러올 패널의 개수</ko>
+ * @property {number} threshold Distance from the visible range to load the panels in advance(px)<ko>보이는 영역으로부터 패널을 미리 불러올 거리(px)</ko>
+ * @property {string} loadedClass A class name that will be added to the media element when it's loaded<ko>미디어 엘리먼트의 로딩이 끝났을 때 추가될 클래스명</ko>
+ * @property {boolean} resizeOnLoad Whether to update the size of the panel when its media element is loaded<ko>미디어 엘리먼트의 로딩이 끝났을 때 해당 패널의 크기를 갱신할지 여부</ko>
+ */
+export interface LazyLoadOptions {
+  preload: number;
+  threshold: number;
+  loadedClass: string;
+  resizeOnLoad: boolean;
+}
+
+const lazySelector = "[data-src], [data-srcset]";
+
+/**
+ * A {@link Plugin} that loads the media inside the panels only when they're about to be shown
+ * `data-src` and `data-srcset` attributes of the `<img>`, `<source>` in `<picture>` or `<video>`, `<video>` and `<iframe>` elements are changed to `src` and `srcset`
+ * @ko 패널이 보여지기 직전에 패널 내부의 미디어를 불러오는 {@link Plugin}
+ * `<img>`, `<picture>`나 `<video>` 내부의 `<source>`, `<video>`, `<iframe>` 엘리먼트의 `data-src`와 `data-srcset` 속성을 `src`와 `srcset`으로 변경합니다
+ * @example
+ * ```html
+ * <div class="flicking-panel">
+ *   <img data-src="image.jpg" data-srcset="image@2x.jpg 2x" />
+ * </div>
+ * ```
+ * ```ts
+ * import Flicking, { LazyLoad } from "@egjs/flicking";
+ *
+ * const flicking = new Flicking("#el");
+ *
+ * flicking.addPlugins(new LazyLoad({ preload: 2 }));
+ * ```
+ */
+class LazyLoad implements Plugin {
+  // Internal States
+  private _flicking: Flicking | null;
+  private _loadedPanels: Panel[];
+  private _pendingLoads: Array<{ el: HTMLElement; eventName: string; onLoad: () => void; onError: () => void }>;
+  private _panelsToResize: Panel[];
+  private _resizeRequest: number;
+
+  // Options
+  private _preload: LazyLoadOptions["preload"];
+  private _threshold: LazyLoadOptions["threshold"];
+  private _loadedClass: LazyLoadOptions["loadedClass"];
+  private _resizeOnLoad: LazyLoadOptions["resizeOnLoad"];
+
+  // Internal states getter
+  /**
+   * Panels that their media are loaded
+   * @ko 미디어를 불러온 패널들
+   * @type {Panel[]}
+   * @readonly
+   */
+  public get loadedPanels() { return this._loadedPanels; }
+
+  // Options getter
+  /**
+   * Number of panels to load in advance before and after the visible panels
+   * @ko 보이는 패널들의 앞뒤로 미리 불러올 패널의 개수
+   * @type {number}
+   * @default 1
+   */
+  public get preload() { return this._preload; }
+  /**
+   * Distance from the visible range to load the panels in advance(px)
+   * @ko 보이는 영역으로부터 패널을 미리 불러올 거리(px)
+   * @type {number}
+   * @default 0
+   */
+  public get threshold() { return this._threshold; }
+  /**
+   * A class name that will be added to the media element when it's loaded
+   * @ko 미디어 엘리먼트의 로딩이 끝났을 때 추가될 클래스명
+   * @type {string}
+   * @default "flicking-lazy-loaded"
+   */
+  public get loadedClass() { return this._loadedClass; }
+  /**
+   * Whether to update the size of the panel when its media element is loaded
+   * @ko 미디어 엘리먼트의 로딩이 끝났을 때 해당 패널의 크기를 갱신할지 여부
+   * @type {boolean}
+   * @default true
+   */
+  public get resizeOnLoad() { return this._resizeOnLoad; }
+
+  // Options setter
+  public set preload(val: LazyLoadOptions["preload"]) {
+    this._preload = val;
+    this.update();
+  }
+
+  public set threshold(val: LazyLoadOptions["threshold"]) {
+    this._threshold = val;
+    this.update();
+  }
+
+  public set loadedClass(val: LazyLoadOptions["loadedClass"]) { this._loadedClass = val; }
+  public set resizeOnLoad(val: LazyLoadOptions["resizeOnLoad"]) { this._resizeOnLoad = val; }
+
+  /**
+   * @param {Partial<LazyLoadOptions>} [options={}] An options object<ko>옵션 오브젝트</ko>
+   */
+  public constructor({
+    preload = 1,
+    threshold = 0,
+    loadedClass = "flicking-lazy-loaded",
+    resizeOnLoad = true
+  }: Partial<LazyLoadOptions> = {}) {
+    this._flicking = null;
+    this._loadedPanels = [];
+    this._pendingLoads = [];
+    this._panelsToResize = [];
+    this._resizeRequest = -1;
+
+    this._preload = preload;
+    this._threshold = threshold;
+    this._loadedClass = loadedClass;
+    this._resizeOnLoad = resizeOnLoad;
+  }
+
+  /**
+   * Initialize LazyLoad and load the media of the panels near the visible range
+   * @ko LazyLoad를 초기화하고 보이는 영역 근처의 패널들의 미디어를 불러옵니다
+   * @param {Flicking} flicking An instance of {@link Flicking}<ko>Flicking의 인스턴스</ko>
+   * @return {void}
+   */
+  public init(flicking: Flicking): void {
+    if (this._flicking) {
+      this.destroy();
+    }
+
+    this._flicking = flicking;
+
+    flicking.on(EVENTS.VISIBLE_CHANGE, this._onCameraChange);
+    flicking.on(EVENTS.MOVE, this._onCameraChange);
+    flicking.on(EVENTS.CHANGED, this._onCameraChange);
+    flicking.on(EVENTS.AFTER_RESIZE, this._onCameraChange);
+    flicking.on(EVENTS.PANEL_CHANGE, this._onPanelChange);
+
+    this.update();
+  }
+
+  /**
+   * Detach all event handlers, including the ones waiting for the media to be loaded
+   * Media already loaded are not affected
+   * @ko 미디어 로딩을 기다리는 핸들러를 포함하여 부착된 모든 이벤트 핸들러를 제거합니다
+   * 이미 불러온 미디어에는 영향을 주지 않습니다
+   * @return {void}
+   */
+  public destroy(): void {
+    const flicking = this._flicking;
+
+    if (!flicking) return;
+
+    flicking.off(EVENTS.VISIBLE_CHANGE, this._onCameraChange);
+    flicking.off(EVENTS.MOVE, this._onCameraChange);
+    flicking.off(EVENTS.CHANGED, this._onCameraChange);
+    flicking.off(EVENTS.AFTER_RESIZE, this._onCameraChange);
+    flicking.off(EVENTS.PANEL_CHANGE, this._onPanelChange);
+
+    this._pendingLoads.forEach(({ el, eventName, onLoad, onError }) => {
+      el.removeEventListener(eventName, onLoad);
+      el.removeEventListener("error", onError);
+    });
+
+    if (this._resizeRequest >= 0) {
+      window.cancelAnimationFrame(this._resizeRequest);
+    }
+
+    this._flicking = null;
+    this._loadedPanels = [];
+    this._pendingLoads = [];
+    this._panelsToResize = [];
+    this._resizeRequest = -1;
+  }
+
+  /**
+   * Load the media of the panels near the visible range
+   * Only the panels from the visible panels to the preload count or the threshold are checked
+   * @ko 보이는 영역 근처의 패널들의 미디어를 불러옵니다
+   * 보이는 패널들로부터 preload 개수 혹은 threshold 거리까지의 패널들만 확인합니다
+   * @return {void}
+   */
+  public update(): void {
+    const flicking = this._flicking;
+
+    if (!flicking) return;
+
+    const visiblePanels = flicking.camera.visiblePanels;
+    const panelsToLoad: Panel[] = [];
+    const addPanel = (panel: Panel) => {
+      if (!includes(panelsToLoad, panel) && !includes(this._loadedPanels, panel)) {
+        panelsToLoad.push(panel);
+      }
+    };
+
+    visiblePanels.forEach(visiblePanel => {
+      addPanel(visiblePanel);
+      this._forEachNearPanel(visiblePanel, false, addPanel);
+      this._forEachNearPanel(visiblePanel, true, addPanel);
+    });
+
+    panelsToLoad.forEach(panel => this.load(panel));
+  }
+
+  /**
+   * Load the media of the given panel immediately
+   * @ko 주어진 패널의 미디어를 즉시 불러옵니다
+   * @param {Panel} panel A panel to load<ko>불러올 패널</ko>
+   * @return {void}
+   */
+  public load(panel: Panel): void {
+    const panelEl = panel.element;
+
+    if (!panelEl || includes(this._loadedPanels, panel)) return;
+
+    const lazyEls = toArray(panelEl.querySelectorAll<HTMLElement>(lazySelector));
+    const mediaEls: HTMLElement[] = [];
+
+    this._loadedPanels.push(panel);
+
+    lazyEls.forEach(el => {
+      const src = el.getAttribute("data-src");
+      const srcset = el.getAttribute("data-srcset");
+
+      if (srcset) {
+        el.setAttribute("srcset", srcset);
+        el.removeAttribute("data-srcset");
+      }
+      if (src) {
+        el.setAttribute("src", src);
+        el.removeAttribute("data-src");
+      }
+
+      // <source> is loaded by its parent <picture> or <video>
+      const mediaEl = el.tagName.toLowerCase() === "source"
+        ? el.parentElement
+        : el;
+
+      if (mediaEl && !includes(mediaEls, mediaEl)) {
+        mediaEls.push(mediaEl);
+      }
+    });
+
+    mediaEls.forEach(mediaEl => {
+      const tagName = mediaEl.tagName.toLowerCase();
+
+      if (tagName === "picture") {
+        // <img> inside <picture> is the actual element that loads the image
+        const imgEl = mediaEl.querySelector("img");
+
+        if (imgEl && !includes(mediaEls, imgEl)) {
+          this._waitForLoad(panel, imgEl, "load");
+        }
+      } else if (tagName === "video") {
+        this._waitForLoad(panel, mediaEl, "loadeddata");
+        (mediaEl as HTMLVideoElement).load();
+      } else {
+        this._waitForLoad(panel, mediaEl, "load");
+      }
+    });
+  }
+
+  // Walk from the visible panel while the panels are within the preload count or the threshold
+  private _forEachNearPanel(visiblePanel: Panel, toNext: boolean, callback: (panel: Panel) => void) {
+    const flicking = this._flicking!;
+    const visiblePanels = flicking.camera.visiblePanels;
+    const panelCount = flicking.panelCount;
+    let panel: Panel | null = toNext ? visiblePanel.next() : visiblePanel.prev();
+
+    for (let distance = 1; panel && distance < panelCount; distance++) {
+      if (visiblePanels.indexOf(panel) >= 0) break;
+      if (distance > this._preload && !this._isInThreshold(panel)) break;
+
+      callback(panel);
+      panel = toNext ? panel.next() : panel.prev();
+    }
+  }
+
+  private _isInThreshold(panel: Panel): boolean {
+    const threshold = this._threshold;
+
+    if (threshold <= 0) return false;
+
+    const visibleRange = this._flicking!.camera.visibleRange;
+    const panelRange = panel.range;
+    const offset = panel.offset;
+
+    return panelRange.max + offset >= visibleRange.min - threshold
+      && panelRange.min + offset <= visibleRange.max + threshold;
+  }
+
+  private _waitForLoad(panel: Panel, el: HTMLElement, eventName: string) {
+    const detach = () => {
+      el.removeEventListener(eventName, onLoad);
+      el.removeEventListener("error", onError);
+      this._pendingLoads = this._pendingLoads.filter(pending => pending.el !== el);
+    };
+    const onLoad = () => {
+      detach();
+      addClass(el, this._loadedClass);
+      this._requestResize(panel);
+    };
+    const onError = () => {
+      detach();
+    };
+
+    el.addEventListener(eventName, onLoad);
+    el.addEventListener("error", onError);
+    this._pendingLoads.push({ el, eventName, onLoad, onError });
+  }
+
+  private _requestResize(panel: Panel) {
+    const flicking = this._flicking;
+
+    if (!flicking || !this._resizeOnLoad) return;
+
+    if (!includes(this._panelsToResize, panel)) {
+      this._panelsToResize.push(panel);
+    }
+
+    if (this._resizeRequest >= 0) return;
+
+    // Resize once for the media loaded at the same frame
+    this._resizeRequest = window.requestAnimationFrame(() => {
+      const panels = this._panelsToResize;
+
+      this._resizeRequest = -1;
+      this._panelsToResize = [];
+      this._resizePanels(flicking, panels);
+    });
+  }
+
+  // Only the panels loaded are measured again, instead of resizing the whole Flicking
+  private _resizePanels(flicking: Flicking, panels: Panel[]) {
+    const { camera, control, renderer } = flicking;
+    const activePanel = control.activePanel;
+    const prevProgressInPanel = activePanel
+      ? camera.getProgressInPanel(activePanel)
+      : 0;
+    const allPanels = renderer.panels;
+    const resizingPanels = panels
+      .filter(panel => !panel.removed)
+      .sort((a, b) => a.index - b.index);
+
+    if (resizingPanels.length <= 0) return;
+
+    resizingPanels.forEach(panel => {
+      const prevSize = panel.size + panel.margin.prev + panel.margin.next;
+
+      panel.resize();
+
+      const sizeDiff = panel.size + panel.margin.prev + panel.margin.next - prevSize;
+
+      if (sizeDiff === 0) return;
+
+      // Panels after the resized panel are pushed or pulled by its size difference
+      allPanels.slice(panel.index + 1).forEach(nextPanel => {
+        if (sizeDiff > 0) {
+          nextPanel.increasePosition(sizeDiff);
+        } else {
+          nextPanel.decreasePosition(-sizeDiff);
+        }
+      });
+    });
+
+    camera.updateRange();
+    camera.updateAnchors();
+    camera.updateAdaptiveHeight();
+
+    if (control.animating) {
+      control.updateAnimation();
+    } else {
+      void control.updatePosition(prevProgressInPanel)
+        .then(() => {
+          control.updateInput();
+        })
+        .catch(() => void 0);
+    }
+
+    void renderer.render();
+  }
+
+  private _onCameraChange = () => {
+    this.update();
+  };
+
+  private _onPanelChange = () => {
+    this._loadedPanels = this._loadedPanels.filter(panel => !panel.removed);
+    this.update();
+  };
+}
+
+export default LazyLoad;
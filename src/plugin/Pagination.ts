@@ -0,0 +1,344 @@
+/*
+ * Copyright (c) 2015 NAVER Corp.
+ * egjs projects are licensed under the MIT license
+ */
+import Flicking from "../Flicking";
+import { EVENTS } from "../const/external";
+import { Plugin } from "../type/external";
+import { ValueOf } from "../type/internal";
+import { addClass, clamp, findIndex, getElement, removeClass } from "../utils";
+
+/**
+ * An object with all possible values for the {@link PaginationOptions type} option of the {@link Pagination}
+ * @ko {@link Pagination}의 {@link PaginationOptions type} 옵션에 사용 가능한 값들을 담고 있는 객체
+ * @type {object}
+ * @property {"bullet"} BULLET Bullets for each position Flicking can stop at<ko>Flicking이 정지할 수 있는 각 위치마다 불릿을 표시합니다</ko>
+ * @property {"fraction"} FRACTION Current and total count like "3 / 10"<ko>"3 / 10"과 같이 현재 위치와 전체 개수를 표시합니다</ko>
+ * @property {"scroll"} SCROLL A progress bar that shows the camera's progress<ko>카메라의 진행도를 나타내는 프로그레스 바를 표시합니다</ko>
+ */
+export const PAGINATION_TYPE = {
+  BULLET: "bullet",
+  FRACTION: "fraction",
+  SCROLL: "scroll"
+} as const;
+
+/**
+ * An options for the {@link Pagination}
+ * @ko {@link Pagination} 생성시 사용되는 옵션
+ * @interface
+ * @property {HTMLElement | string | null} parentEl An element or a CSS selector of the element to render the pagination in. A new element will be added inside the viewport element if it's `null`
+ * <ko>페이지네이션을 렌더링할 엘리먼트 혹은 엘리먼트의 CSS 선택자. `null`일 경우 뷰포트 엘리먼트 내부에 새로운 엘리먼트를 추가합니다</ko>
+ * @property {PAGINATION_TYPE} type Type of the pagination<ko>페이지네이션의 종류</ko>
+ * @property {string} classPrefix A prefix of the class names of the pagination elements<ko>페이지네이션 엘리먼트들의 클래스명 접두사</ko>
+ */
+export interface PaginationOptions {
+  parentEl: HTMLElement | string | null;
+  type: ValueOf<typeof PAGINATION_TYPE>;
+  classPrefix: string;
+}
+
+/**
+ * A {@link Plugin} that renders the pagination of Flicking
+ * Each page of the pagination matches the {@link Camera#anchorPoints anchorPoints} of the {@link Camera}, so the number of pages can be different from {@link Flicking#panelCount panelCount} when {@link Flicking#bound bound} is enabled
+ * @ko Flicking의 페이지네이션을 렌더링하는 {@link Plugin}
+ * 페이지네이션의 각 페이지는 {@link Camera}의 {@link Camera#anchorPoints anchorPoints}에 대응되므로, {@link Flicking#bound bound} 옵션이 활성화된 경우 페이지의 개수는 {@link Flicking#panelCount panelCount}와 다를 수 있습니다
+ * @example
+ * ```ts
+ * import Flicking, { Pagination } from "@egjs/flicking";
+ *
+ * const flicking = new Flicking("#el");
+ *
+ * flicking.addPlugins(new Pagination({ type: "bullet" }));
+ * ```
+ */
+class Pagination implements Plugin {
+  // Internal States
+  private _flicking: Flicking | null;
+  private _wrapper: HTMLElement | null;
+  private _wrapperCreated: boolean;
+  private _bullets: HTMLElement[];
+
+  // Options
+  private _parentEl: PaginationOptions["parentEl"];
+  private _type: PaginationOptions["type"];
+  private _classPrefix: PaginationOptions["classPrefix"];
+
+  // Internal states getter
+  /**
+   * An element that contains the pagination elements
+   * @ko 페이지네이션 엘리먼트들을 포함하는 엘리먼트
+   * @type {HTMLElement | null}
+   * @readonly
+   */
+  public get wrapper() { return this._wrapper; }
+
+  // Options getter
+  /**
+   * An element or a CSS selector of the element to render the pagination in. A new element will be added inside the viewport element if it's `null`
+   * @ko 페이지네이션을 렌더링할 엘리먼트 혹은 엘리먼트의 CSS 선택자. `null`일 경우 뷰포트 엘리먼트 내부에 새로운 엘리먼트를 추가합니다
+   * @type {HTMLElement | string | null}
+   * @default null
+   * @readonly
+   */
+  public get parentEl() { return this._parentEl; }
+  /**
+   * Type of the pagination
+   * @ko 페이지네이션의 종류
+   * @type {PAGINATION_TYPE}
+   * @default "bullet"
+   * @readonly
+   */
+  public get type() { return this._type; }
+  /**
+   * A prefix of the class names of the pagination elements
+   * @ko 페이지네이션 엘리먼트들의 클래스명 접두사
+   * @type {string}
+   * @default "flicking-pagination"
+   * @readonly
+   */
+  public get classPrefix() { return this._classPrefix; }
+
+  /**
+   * @param {Partial<PaginationOptions>} [options={}] An options object<ko>옵션 오브젝트</ko>
+   */
+  public constructor({
+    parentEl = null,
+    type = PAGINATION_TYPE.BULLET,
+    classPrefix = "flicking-pagination"
+  }: Partial<PaginationOptions> = {}) {
+    this._flicking = null;
+    this._wrapper = null;
+    this._wrapperCreated = false;
+    this._bullets = [];
+
+    this._parentEl = parentEl;
+    this._type = type;
+    this._classPrefix = classPrefix;
+  }
+
+  /**
+   * Initialize Pagination and render the pagination elements
+   * @ko Pagination을 초기화하고 페이지네이션 엘리먼트들을 렌더링합니다
+   * @param {Flicking} flicking An instance of {@link Flicking}<ko>Flicking의 인스턴스</ko>
+   * @return {void}
+   */
+  public init(flicking: Flicking): void {
+    if (this._flicking) {
+      this.destroy();
+    }
+
+    const parentEl = this._parentEl;
+    const classPrefix = this._classPrefix;
+    let wrapper: HTMLElement;
+
+    if (parentEl) {
+      wrapper = getElement(parentEl);
+    } else {
+      wrapper = document.createElement("div");
+      addClass(wrapper, classPrefix);
+      flicking.element.appendChild(wrapper);
+    }
+
+    addClass(wrapper, `${classPrefix}-${this._type}`);
+    wrapper.addEventListener("click", this._onClick);
+
+    this._flicking = flicking;
+    this._wrapper = wrapper;
+    this._wrapperCreated = !parentEl;
+
+    flicking.on(EVENTS.CHANGED, this._onIndexChange);
+    flicking.on(EVENTS.MOVE, this._onMove);
+    flicking.on(EVENTS.PANEL_CHANGE, this._onPanelChange);
+    flicking.on(EVENTS.AFTER_RESIZE, this._onPanelChange);
+
+    this.update();
+  }
+
+  /**
+   * Remove the pagination elements and detach all event handlers
+   * @ko 페이지네이션 엘리먼트들을 제거하고 부착된 모든 이벤트 핸들러를 제거합니다
+   * @return {void}
+   */
+  public destroy(): void {
+    const flicking = this._flicking;
+    const wrapper = this._wrapper;
+
+    if (!flicking || !wrapper) return;
+
+    flicking.off(EVENTS.CHANGED, this._onIndexChange);
+    flicking.off(EVENTS.MOVE, this._onMove);
+    flicking.off(EVENTS.PANEL_CHANGE, this._onPanelChange);
+    flicking.off(EVENTS.AFTER_RESIZE, this._onPanelChange);
+
+    wrapper.removeEventListener("click", this._onClick);
+    wrapper.innerHTML = "";
+    removeClass(wrapper, `${this._classPrefix}-${this._type}`);
+
+    if (this._wrapperCreated && wrapper.parentNode) {
+      wrapper.parentNode.removeChild(wrapper);
+    }
+
+    this._flicking = null;
+    this._wrapper = null;
+    this._wrapperCreated = false;
+    this._bullets = [];
+  }
+
+  /**
+   * Render the pagination elements again to match the current anchors of the {@link Camera}
+   * @ko {@link Camera}의 현재 앵커들에 맞게 페이지네이션 엘리먼트들을 다시 렌더링합니다
+   * @return {void}
+   */
+  public update(): void {
+    const flicking = this._flicking;
+    const wrapper = this._wrapper;
+
+    if (!flicking || !wrapper) return;
+
+    const classPrefix = this._classPrefix;
+    const pageCount = flicking.camera.anchorPoints.length;
+
+    wrapper.innerHTML = "";
+    this._bullets = [];
+
+    switch (this._type) {
+      case PAGINATION_TYPE.BULLET: {
+        for (let pageIdx = 0; pageIdx < pageCount; pageIdx++) {
+          const bullet = document.createElement("span");
+
+          addClass(bullet, `${classPrefix}-bullet`);
+          wrapper.appendChild(bullet);
+          this._bullets.push(bullet);
+        }
+        break;
+      }
+      case PAGINATION_TYPE.FRACTION: {
+        const current = document.createElement("span");
+        const total = document.createElement("span");
+
+        addClass(current, `${classPrefix}-current`);
+        addClass(total, `${classPrefix}-total`);
+        wrapper.appendChild(current);
+        wrapper.appendChild(document.createTextNode(" / "));
+        wrapper.appendChild(total);
+        break;
+      }
+      case PAGINATION_TYPE.SCROLL: {
+        const bar = document.createElement("span");
+
+        addClass(bar, `${classPrefix}-scroll-bar`);
+        wrapper.appendChild(bar);
+        break;
+      }
+    }
+
+    this._updateIndex();
+    this._updateScroll();
+  }
+
+  private _getActivePageIndex(): number {
+    const flicking = this._flicking;
+
+    if (!flicking) return -1;
+
+    const camera = flicking.camera;
+    const activePanel = flicking.currentPanel;
+
+    if (!activePanel) return -1;
+
+    const anchorIndex = findIndex(camera.anchorPoints, anchor => anchor.panel === activePanel);
+
+    return anchorIndex >= 0
+      ? anchorIndex
+      : camera.findAnchorIncludePanel(activePanel)?.index ?? -1;
+  }
+
+  private _updateIndex(): void {
+    const flicking = this._flicking;
+    const wrapper = this._wrapper;
+
+    if (!flicking || !wrapper) return;
+
+    const classPrefix = this._classPrefix;
+    const activeIndex = this._getActivePageIndex();
+
+    switch (this._type) {
+      case PAGINATION_TYPE.BULLET: {
+        const activeClass = `${classPrefix}-bullet-active`;
+
+        this._bullets.forEach((bullet, idx) => {
+          if (idx === activeIndex) {
+            addClass(bullet, activeClass);
+          } else {
+            removeClass(bullet, activeClass);
+          }
+        });
+        break;
+      }
+      case PAGINATION_TYPE.FRACTION: {
+        const current = wrapper.querySelector(`.${classPrefix}-current`);
+        const total = wrapper.querySelector(`.${classPrefix}-total`);
+
+        if (current) current.textContent = `${activeIndex + 1}`;
+        if (total) total.textContent = `${flicking.camera.anchorPoints.length}`;
+        break;
+      }
+    }
+  }
+
+  private _updateScroll(): void {
+    const flicking = this._flicking;
+    const wrapper = this._wrapper;
+
+    if (!flicking || !wrapper || this._type !== PAGINATION_TYPE.SCROLL) return;
+
+    const bar = wrapper.querySelector<HTMLElement>(`.${this._classPrefix}-scroll-bar`);
+
+    if (!bar) return;
+
+    const camera = flicking.camera;
+    const range = camera.range;
+    const progress = flicking.circularEnabled
+      ? (camera.progress + 1) / flicking.panelCount
+      : range.max > range.min
+        ? (camera.position - range.min) / (range.max - range.min)
+        : 1;
+    const percentage = `${clamp(progress || 0, 0, 1) * 100}%`;
+
+    if (flicking.horizontal) {
+      bar.style.width = percentage;
+      bar.style.height = "";
+    } else {
+      bar.style.width = "";
+      bar.style.height = percentage;
+    }
+  }
+
+  private _onIndexChange = () => {
+    this._updateIndex();
+    this._updateScroll();
+  };
+
+  private _onMove = () => {
+    this._updateScroll();
+  };
+
+  private _onPanelChange = () => {
+    this.update();
+  };
+
+  private _onClick = (e: MouseEvent) => {
+    const flicking = this._flicking;
+
+    if (!flicking) return;
+
+    const bulletIndex = this._bullets.indexOf(e.target as HTMLElement);
+    const anchor = flicking.camera.anchorPoints[bulletIndex];
+
+    if (!anchor) return;
+
+    void flicking.moveTo(anchor.panel.index).catch(() => void 0);
+  };
+}
+
+export default Pagination;
@@ -0,0 +1,273 @@
+/*
+ * Copyright (c) 2015 NAVER Corp.
+ * egjs projects are licensed under the MIT license
+ */
+import Flicking from "../Flicking";
+import { EVENTS } from "../const/external";
+import { Plugin, Status } from "../type/external";
+
+/**
+ * A storage that the {@link Persist} saves the status to. `sessionStorage` and `localStorage` can be used as it is
+ * @ko {@link Persist}가 상태값을 저장하는 저장소. `sessionStorage`와 `localStorage`를 그대로 사용할 수 있습니다
+ * @interface
+ * @property {function} getItem Return the value saved with the key, or `null` if there's none<ko>키로 저장된 값을 반환하며, 없을 경우 `null`을 반환합니다</ko>
+ * @property {function} setItem Save the value with the key<ko>키로 값을 저장합니다</ko>
+ * @property {function} removeItem Remove the value saved with the key<ko>키로 저장된 값을 제거합니다</ko>
+ */
+export interface PersistStorage {
+  getItem(key: string): string | null;
+  setItem(key: string, value: string): void;
+  removeItem(key: string): void;
+}
+
+/**
+ * An options for the {@link Persist}
+ * @ko {@link Persist} 생성시 사용되는 옵션
+ * @interface
+ * @property {string} id An identifier of the Flicking, which should be unique among the Flickings of the page<ko>페이지 내의 Flicking들 사이에서 고유해야 하는 Flicking의 식별자</ko>
+ * @property {PersistStorage | null} storage A storage to save the status to. `sessionStorage` is used if it's `null`
+ * <ko>상태값을 저장할 저장소. `null`일 경우 `sessionStorage`를 사용합니다</ko>
+ * @property {boolean} includePanelHTML Save the HTML of the panels too, to restore the panels added after the page load. It's ignored with the {@link Flicking#virtual virtual} option or on the frameworks
+ * <ko>페이지 로드 이후 추가된 패널들을 복원할 수 있도록, 패널의 HTML도 함께 저장합니다. {@link Flicking#virtual virtual} 옵션을 사용하거나 프레임워크에서는 무시됩니다</ko>
+ */
+export interface PersistOptions {
+  id: string;
+  storage: PersistStorage | null;
+  includePanelHTML: boolean;
+}
+
+/**
+ * A {@link Plugin} that saves the {@link Flicking#getStatus status} of Flicking to the `sessionStorage` and restores it on init
+ * With it, navigating back to the page lands on the same panel & camera position as before leaving it
+ * @ko Flicking의 {@link Flicking#getStatus 상태값}을 `sessionStorage`에 저장하고, 초기화시에 복원하는 {@link Plugin}
+ * 이를 통해 페이지로 다시 돌아왔을 때 떠나기 전과 동일한 패널과 카메라 위치를 보여줄 수 있습니다
+ * @example
+ * ```ts
+ * import Flicking, { Persist } from "@egjs/flicking";
+ *
+ * const flicking = new Flicking("#el");
+ *
+ * flicking.addPlugins(new Persist({ id: "product-list" }));
+ * ```
+ */
+class Persist implements Plugin {
+  // Internal States
+  private _flicking: Flicking | null;
+
+  // Options
+  private _id: PersistOptions["id"];
+  private _storage: PersistOptions["storage"];
+  private _includePanelHTML: PersistOptions["includePanelHTML"];
+
+  // Options getter
+  /**
+   * An identifier of the Flicking, which should be unique among the Flickings of the page
+   * @ko 페이지 내의 Flicking들 사이에서 고유해야 하는 Flicking의 식별자
+   * @type {string}
+   * @default "flicking"
+   * @readonly
+   */
+  public get id() { return this._id; }
+  /**
+   * A storage to save the status to. `sessionStorage` is used if it's `null`
+   * @ko 상태값을 저장할 저장소. `null`일 경우 `sessionStorage`를 사용합니다
+   * @type {PersistStorage | null}
+   * @default null
+   * @readonly
+   */
+  public get storage() { return this._storage; }
+  /**
+   * Save the HTML of the panels too, to restore the panels added after the page load
+   * @ko 페이지 로드 이후 추가된 패널들을 복원할 수 있도록, 패널의 HTML도 함께 저장합니다
+   * @type {boolean}
+   * @default false
+   */
+  public get includePanelHTML() { return this._includePanelHTML; }
+
+  // Options setter
+  public set includePanelHTML(val: PersistOptions["includePanelHTML"]) { this._includePanelHTML = val; }
+
+  /**
+   * @param {Partial<PersistOptions>} [options={}] An options object<ko>옵션 오브젝트</ko>
+   */
+  public constructor({
+    id = "flicking",
+    storage = null,
+    includePanelHTML = false
+  }: Partial<PersistOptions> = {}) {
+    this._flicking = null;
+
+    this._id = id;
+    this._storage = storage;
+    this._includePanelHTML = includePanelHTML;
+  }
+
+  /**
+   * Initialize Persist and restore the saved status
+   * @ko Persist를 초기화하고 저장된 상태값을 복원합니다
+   * @param {Flicking} flicking An instance of {@link Flicking}<ko>Flicking의 인스턴스</ko>
+   * @return {void}
+   */
+  public init(flicking: Flicking): void {
+    if (this._flicking) {
+      this.destroy();
+    }
+
+    this._flicking = flicking;
+
+    // Restore first, so it won't save the status while restoring
+    this._restore();
+
+    flicking.on(EVENTS.CHANGED, this.save);
+    flicking.on(EVENTS.MOVE_END, this.save);
+    window.addEventListener("pagehide", this.save);
+  }
+
+  /**
+   * Save the current status and detach all event handlers
+   * @ko 현재 상태값을 저장하고 부착된 모든 이벤트 핸들러를 제거합니다
+   * @return {void}
+   */
+  public destroy(): void {
+    const flicking = this._flicking;
+
+    if (!flicking) return;
+
+    this.save();
+
+    flicking.off(EVENTS.CHANGED, this.save);
+    flicking.off(EVENTS.MOVE_END, this.save);
+    window.removeEventListener("pagehide", this.save);
+
+    this._flicking = null;
+  }
+
+  /**
+   * Save the current status
+   * @ko 현재 상태값을 저장합니다
+   * @return {void}
+   */
+  public update(): void {
+    this.save();
+  }
+
+  /**
+   * Save the current status of Flicking to the storage
+   * @ko 현재 Flicking의 상태값을 저장소에 저장합니다
+   * @return {void}
+   */
+  public save = (): void => {
+    const flicking = this._flicking;
+    const storage = this._getStorage();
+
+    if (!flicking || !flicking.initialized || !storage) return;
+
+    const status = flicking.getStatus({
+      includePanelHTML: this._includePanelHTML && this._canRestorePanelHTML()
+    });
+
+    try {
+      storage.setItem(this._getKey(), JSON.stringify(status));
+    } catch (e) {
+      // Storage can be full or not available, like in the private mode of some browsers
+    }
+  };
+
+  /**
+   * Remove the saved status from the storage
+   * @ko 저장소에서 저장된 상태값을 제거합니다
+   * @return {void}
+   */
+  public clear(): void {
+    const storage = this._getStorage();
+
+    if (!storage) return;
+
+    try {
+      storage.removeItem(this._getKey());
+    } catch (e) {
+      // DO NOTHING
+    }
+  }
+
+  private _getKey(): string {
+    return `flicking-persist:${this._id}`;
+  }
+
+  private _getStorage(): PersistStorage | null {
+    if (this._storage) return this._storage;
+
+    try {
+      // Accessing sessionStorage can throw when it's blocked
+      return window.sessionStorage;
+    } catch (e) {
+      return null;
+    }
+  }
+
+  private _canRestorePanelHTML(): boolean {
+    const flicking = this._flicking!;
+
+    return !flicking.renderExternal && !flicking.virtual;
+  }
+
+  private _restore() {
+    const flicking = this._flicking!;
+    const storage = this._getStorage();
+
+    if (!storage) return;
+
+    let status: Status;
+
+    try {
+      const saved = storage.getItem(this._getKey());
+
+      if (!saved) return;
+
+      status = JSON.parse(saved) as Status;
+    } catch (e) {
+      this.clear();
+      return;
+    }
+
+    try {
+      flicking.setStatus(this._adjustStatus(status));
+    } catch (e) {
+      // Status is malformed or can't be restored anymore
+      this.clear();
+    }
+  }
+
+  private _adjustStatus(status: Status): Status {
+    const flicking = this._flicking!;
+    const panels = Array.isArray(status.panels) ? status.panels : [];
+    const canRestorePanels = this._includePanelHTML
+      && this._canRestorePanelHTML()
+      && panels.length > 0 && panels.every(panel => panel.html != null);
+
+    if (canRestorePanels) return status;
+
+    // Panel HTML can't be restored, so the panels of the Flicking are used as it is
+    const adjusted: Status = {
+      ...status,
+      panels: panels.map(panel => ({ index: panel.index }))
+    };
+    const panelCount = flicking.panelCount;
+
+    if (panels.length !== panelCount) {
+      // Panels have been changed since the status was saved, so the saved position is not valid anymore
+      delete adjusted.position;
+      delete adjusted.visibleOffset;
+
+      if (panelCount <= 0) {
+        delete adjusted.index;
+      } else if (adjusted.index != null) {
+        adjusted.index = Math.min(adjusted.index, panelCount - 1);
+      }
+    }
+
+    return adjusted;
+  }
+}
+
+export default Persist;
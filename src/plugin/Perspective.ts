@@ -0,0 +1,260 @@
+/*
+ * Copyright (c) 2015 NAVER Corp.
+ * egjs projects are licensed under the MIT license
+ */
+import Flicking from "../Flicking";
+import Panel from "../core/panel/Panel";
+import { PanelEffect } from "../type/external";
+import { ValueOf } from "../type/internal";
+import { clamp } from "../utils";
+
+/**
+ * An object with all possible values for the {@link PerspectiveOptions type} option of the {@link Perspective}
+ * @ko {@link Perspective}의 {@link PerspectiveOptions type} 옵션에 사용 가능한 값들을 담고 있는 객체
+ * @type {object}
+ * @property {"coverflow"} COVERFLOW Panels next to the current panel are rotated and pushed back<ko>현재 패널 옆의 패널들이 회전하며 뒤로 밀려납니다</ko>
+ * @property {"cube"} CUBE Each panel becomes a face of the rotating cube<ko>각 패널이 회전하는 정육면체의 한 면이 됩니다</ko>
+ * @property {"carousel"} CAROUSEL Panels are placed around a rotating ring<ko>패널들이 회전하는 고리 위에 배치됩니다</ko>
+ */
+export const PERSPECTIVE_TYPE = {
+  COVERFLOW: "coverflow",
+  CUBE: "cube",
+  CAROUSEL: "carousel"
+} as const;
+
+/**
+ * An options for the {@link Perspective}
+ * @ko {@link Perspective} 생성시 사용되는 옵션
+ * @interface
+ * @property {PERSPECTIVE_TYPE} type Type of the 3D transition<ko>3D 전환 효과의 종류</ko>
+ * @property {number} perspective CSS `perspective` of the camera element(px)<ko>카메라 엘리먼트의 CSS `perspective` 값(px)</ko>
+ * @property {number} rotate Maximum rotation angle of the panels when type is `"coverflow"`(deg)<ko>type이 `"coverflow"`일 때 패널들의 최대 회전 각도(deg)</ko>
+ * @property {number} depth Distance the panels are pushed back for each panel away from the camera when type is `"coverflow"`(px)<ko>type이 `"coverflow"`일 때 카메라로부터 패널 하나만큼 멀어질 때마다 패널이 뒤로 밀려나는 거리(px)</ko>
+ */
+export interface PerspectiveOptions {
+  type: ValueOf<typeof PERSPECTIVE_TYPE>;
+  perspective: number;
+  rotate: number;
+  depth: number;
+}
+
+/**
+ * A {@link PanelEffect} that applies 3D transforms to the panels, like coverflow, cube and carousel ring
+ * The transform of each panel is calculated from its distance to the {@link Camera#position camera position}, including the {@link Panel#offset offset} of the panels toggled by the {@link CircularCamera}
+ * As it uses the CSS transform of the panel elements, it can't be used with the {@link Flicking#fade fade} option
+ * @ko 커버플로우, 정육면체, 회전 고리와 같은 3D transform을 패널에 적용하는 {@link PanelEffect}
+ * 각 패널의 transform은 {@link CircularCamera}에 의해 토글된 패널의 {@link Panel#offset offset}을 포함하여, {@link Camera#position 카메라 위치}로부터의 거리로 계산됩니다
+ * 패널 엘리먼트의 CSS transform을 사용하므로, {@link Flicking#fade fade} 옵션과 함께 사용할 수 없습니다
+ * @example
+ * ```ts
+ * import Flicking, { Perspective } from "@egjs/flicking";
+ *
+ * const flicking = new Flicking("#el", { circular: true });
+ *
+ * flicking.addPlugins(new Perspective({ type: "cube" }));
+ * ```
+ */
+class Perspective implements PanelEffect {
+  // Internal States
+  private _flicking: Flicking | null;
+
+  // Options
+  private _type: PerspectiveOptions["type"];
+  private _perspective: PerspectiveOptions["perspective"];
+  private _rotate: PerspectiveOptions["rotate"];
+  private _depth: PerspectiveOptions["depth"];
+
+  // Options getter
+  /**
+   * Type of the 3D transition
+   * @ko 3D 전환 효과의 종류
+   * @type {PERSPECTIVE_TYPE}
+   * @default "coverflow"
+   */
+  public get type() { return this._type; }
+  /**
+   * CSS `perspective` of the camera element(px)
+   * @ko 카메라 엘리먼트의 CSS `perspective` 값(px)
+   * @type {number}
+   * @default 1000
+   */
+  public get perspective() { return this._perspective; }
+  /**
+   * Maximum rotation angle of the panels when type is `"coverflow"`(deg)
+   * @ko type이 `"coverflow"`일 때 패널들의 최대 회전 각도(deg)
+   * @type {number}
+   * @default 50
+   */
+  public get rotate() { return this._rotate; }
+  /**
+   * Distance the panels are pushed back for each panel away from the camera when type is `"coverflow"`(px)
+   * @ko type이 `"coverflow"`일 때 카메라로부터 패널 하나만큼 멀어질 때마다 패널이 뒤로 밀려나는 거리(px)
+   * @type {number}
+   * @default 100
+   */
+  public get depth() { return this._depth; }
+
+  // Options setter
+  public set type(val: PerspectiveOptions["type"]) {
+    this._type = val;
+    this._reset();
+  }
+
+  public set perspective(val: PerspectiveOptions["perspective"]) {
+    this._perspective = val;
+    this._reset();
+  }
+
+  public set rotate(val: PerspectiveOptions["rotate"]) {
+    this._rotate = val;
+    this._reset();
+  }
+
+  public set depth(val: PerspectiveOptions["depth"]) {
+    this._depth = val;
+    this._reset();
+  }
+
+  /**
+   * @param {Partial<PerspectiveOptions>} [options={}] An options object<ko>옵션 오브젝트</ko>
+   */
+  public constructor({
+    type = PERSPECTIVE_TYPE.COVERFLOW,
+    perspective = 1000,
+    rotate = 50,
+    depth = 100
+  }: Partial<PerspectiveOptions> = {}) {
+    this._flicking = null;
+
+    this._type = type;
+    this._perspective = perspective;
+    this._rotate = rotate;
+    this._depth = depth;
+  }
+
+  /**
+   * Initialize Perspective and apply the perspective to the camera element
+   * @ko Perspective를 초기화하고 카메라 엘리먼트에 원근감을 적용합니다
+   * @param {Flicking} flicking An instance of {@link Flicking}<ko>Flicking의 인스턴스</ko>
+   * @return {void}
+   */
+  public init(flicking: Flicking): void {
+    if (this._flicking) {
+      this.destroy();
+    }
+
+    this._flicking = flicking;
+    flicking.camera.element.style.perspective = `${this._perspective}px`;
+  }
+
+  /**
+   * Remove all styles applied to the camera & panel elements
+   * @ko 카메라와 패널 엘리먼트들에 적용된 모든 스타일을 제거합니다
+   * @return {void}
+   */
+  public destroy(): void {
+    const flicking = this._flicking;
+
+    if (!flicking) return;
+
+    flicking.camera.element.style.perspective = "";
+    flicking.panels.forEach(panel => this._resetPanel(panel));
+
+    this._flicking = null;
+  }
+
+  /**
+   * Apply the 3D transform to all visible panels again
+   * @ko 보이는 모든 패널에 3D transform을 다시 적용합니다
+   * @return {void}
+   */
+  public update(): void {
+    const flicking = this._flicking;
+
+    if (!flicking) return;
+
+    flicking.camera.element.style.perspective = `${this._perspective}px`;
+    flicking.camera.applyPanelEffects();
+  }
+
+  /**
+   * Apply the 3D transform to the panel
+   * @ko 패널에 3D transform을 적용합니다
+   * @param {Panel} panel A panel to apply the transform<ko>transform을 적용할 패널</ko>
+   * @return {void}
+   */
+  public applyEffect(panel: Panel): void {
+    const flicking = this._flicking;
+    const el = panel.element;
+
+    if (!flicking || !el) return;
+
+    const camera = flicking.camera;
+    const horizontal = flicking.horizontal;
+    const size = panel.sizeIncludingMargin;
+    // Distance to the camera in panels, positive when the panel is at the next direction
+    const progress = (panel.position + panel.offset - camera.position) / Math.max(size, 1);
+    const translate = horizontal ? "translateX" : "translateY";
+    const rotate = horizontal ? "rotateY" : "rotateX";
+    // Panels at the next direction are placed at the left on the right-to-left layout
+    const translateDirection = flicking.rtlEnabled ? -1 : 1;
+    // rotateX rotates to the opposite direction of rotateY
+    const rotateDirection = horizontal ? translateDirection : -1;
+    let transform = "";
+    let hidden = false;
+
+    switch (this._type) {
+      case PERSPECTIVE_TYPE.COVERFLOW: {
+        const angle = -clamp(progress, -1, 1) * this._rotate * rotateDirection;
+
+        transform = `translateZ(${-Math.abs(progress) * this._depth}px) ${rotate}(${angle}deg)`;
+        break;
+      }
+      case PERSPECTIVE_TYPE.CUBE: {
+        const angle = clamp(progress, -1, 1) * 90 * rotateDirection;
+
+        // Move the panel to the center of the viewport, then rotate it around the center of the cube
+        transform = `${translate}(${-progress * size * translateDirection}px) translateZ(${-size / 2}px) ${rotate}(${angle}deg) translateZ(${size / 2}px)`;
+        hidden = Math.abs(progress) >= 1;
+        break;
+      }
+      case PERSPECTIVE_TYPE.CAROUSEL: {
+        const panelCount = Math.max(flicking.panelCount, 3);
+        const radius = (size / 2) / Math.tan(Math.PI / panelCount);
+        const angle = progress * (360 / panelCount) * rotateDirection;
+
+        transform = `${translate}(${-progress * size * translateDirection}px) translateZ(${-radius}px) ${rotate}(${angle}deg) translateZ(${radius}px)`;
+        hidden = Math.abs(progress) >= panelCount / 4;
+        break;
+      }
+    }
+
+    el.style.transform = transform;
+    el.style.backfaceVisibility = "hidden";
+    el.style.visibility = hidden ? "hidden" : "";
+    // Panels closer to the camera should be on top
+    el.style.zIndex = `${Math.max(Math.round((flicking.panelCount - Math.abs(progress)) * 100), 0)}`;
+  }
+
+  private _reset() {
+    const flicking = this._flicking;
+
+    if (!flicking) return;
+
+    flicking.panels.forEach(panel => this._resetPanel(panel));
+    this.update();
+  }
+
+  private _resetPanel(panel: Panel) {
+    const el = panel.element;
+
+    if (!el) return;
+
+    el.style.transform = "";
+    el.style.backfaceVisibility = "";
+    el.style.visibility = "";
+    el.style.zIndex = "";
+  }
+}
+
+export default Perspective;
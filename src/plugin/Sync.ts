@@ -0,0 +1,322 @@
+/*
+ * Copyright (c) 2015 NAVER Corp.
+ * egjs projects are licensed under the MIT license
+ */
+import Flicking from "../Flicking";
+import { EVENTS } from "../const/external";
+import { ChangedEvent, MoveEndEvent, MoveEvent, SelectEvent } from "../type/event";
+import { Plugin } from "../type/external";
+import { ValueOf } from "../type/internal";
+import { addClass, clamp, find, includes, removeClass } from "../utils";
+
+/**
+ * An object with all possible values for the {@link SyncOptions type} option of the {@link Sync}
+ * @ko {@link Sync}의 {@link SyncOptions type} 옵션에 사용 가능한 값들을 담고 있는 객체
+ * @type {object}
+ * @property {"camera"} CAMERA Mirror the camera progress of the moving Flicking to the others while it's moving<ko>움직이는 Flicking의 카메라 진행도를 움직이는 동안 다른 Flicking들에 그대로 반영합니다</ko>
+ * @property {"index"} INDEX Move the others to the same panel when the index of a Flicking is changed<ko>Flicking의 인덱스가 변경되었을 때 다른 Flicking들을 같은 패널로 이동시킵니다</ko>
+ */
+export const SYNC_TYPE = {
+  CAMERA: "camera",
+  INDEX: "index"
+} as const;
+
+/**
+ * An options for each Flicking linked by the {@link Sync}
+ * @ko {@link Sync}로 연결되는 각 Flicking의 옵션
+ * @interface
+ * @property {Flicking} flicking An instance of {@link Flicking} to link<ko>연결할 {@link Flicking}의 인스턴스</ko>
+ * @property {boolean} [isClickable=false] Move all linked Flicking to the panel clicked in this Flicking<ko>이 Flicking에서 클릭한 패널로 연결된 모든 Flicking을 이동시킵니다</ko>
+ * @property {boolean} [isSlidable=true] Move the other Flicking when this Flicking is moved<ko>이 Flicking이 움직일 때 다른 Flicking들도 이동시킵니다</ko>
+ * @property {string} [activeClass] A class name that will be added to the active panel element of this Flicking<ko>이 Flicking의 활성화된 패널 엘리먼트에 추가될 클래스명</ko>
+ */
+export interface SyncedFlickingOptions {
+  flicking: Flicking;
+  isClickable?: boolean;
+  isSlidable?: boolean;
+  activeClass?: string;
+}
+
+/**
+ * An options for the {@link Sync}
+ * @ko {@link Sync} 생성시 사용되는 옵션
+ * @interface
+ * @property {SYNC_TYPE} type Type of the synchronization<ko>동기화 방식</ko>
+ * @property {SyncedFlickingOptions[]} synchronizedFlickingOptions Flicking instances to link and their options. The Flicking the plugin is added to is linked even if it's not included<ko>연결할 Flicking 인스턴스들과 그 옵션. 플러그인이 추가된 Flicking은 포함되지 않아도 연결됩니다</ko>
+ */
+export interface SyncOptions {
+  type: ValueOf<typeof SYNC_TYPE>;
+  synchronizedFlickingOptions: SyncedFlickingOptions[];
+}
+
+/**
+ * A {@link Plugin} that links multiple Flicking instances, like a main gallery and its thumbnails
+ * Index of the panel is mapped by the ratio to the last index, so the linked Flicking can have a different number of panels
+ * @ko 메인 갤러리와 섬네일처럼, 여러 Flicking 인스턴스를 서로 연결하는 {@link Plugin}
+ * 패널의 인덱스는 마지막 인덱스에 대한 비율로 변환되므로, 연결된 Flicking들은 서로 다른 개수의 패널을 가질 수 있습니다
+ * @example
+ * ```ts
+ * import Flicking, { Sync } from "@egjs/flicking";
+ *
+ * const main = new Flicking("#main");
+ * const thumbnails = new Flicking("#thumbnails", { bound: true });
+ *
+ * main.addPlugins(new Sync({
+ *   type: "index",
+ *   synchronizedFlickingOptions: [
+ *     { flicking: main, isSlidable: true },
+ *     { flicking: thumbnails, isClickable: true, activeClass: "active" }
+ *   ]
+ * }));
+ * ```
+ */
+class Sync implements Plugin {
+  // Internal States
+  private _flicking: Flicking | null;
+  private _linked: SyncedFlickingOptions[];
+  private _syncing: Flicking[];
+
+  // Options
+  private _type: SyncOptions["type"];
+  private _synchronizedFlickingOptions: SyncOptions["synchronizedFlickingOptions"];
+
+  // Options getter
+  /**
+   * Type of the synchronization
+   * @ko 동기화 방식
+   * @type {SYNC_TYPE}
+   * @default "camera"
+   * @readonly
+   */
+  public get type() { return this._type; }
+  /**
+   * Flicking instances to link and their options
+   * @ko 연결할 Flicking 인스턴스들과 그 옵션
+   * @type {SyncedFlickingOptions[]}
+   * @default []
+   * @readonly
+   */
+  public get synchronizedFlickingOptions() { return this._synchronizedFlickingOptions; }
+
+  /**
+   * @param {Partial<SyncOptions>} [options={}] An options object<ko>옵션 오브젝트</ko>
+   */
+  public constructor({
+    type = SYNC_TYPE.CAMERA,
+    synchronizedFlickingOptions = []
+  }: Partial<SyncOptions> = {}) {
+    this._flicking = null;
+    this._linked = [];
+    this._syncing = [];
+
+    this._type = type;
+    this._synchronizedFlickingOptions = synchronizedFlickingOptions;
+  }
+
+  /**
+   * Initialize Sync and link all Flicking instances
+   * @ko Sync를 초기화하고 모든 Flicking 인스턴스들을 연결합니다
+   * @param {Flicking} flicking An instance of {@link Flicking}<ko>Flicking의 인스턴스</ko>
+   * @return {void}
+   */
+  public init(flicking: Flicking): void {
+    if (this._flicking) {
+      this.destroy();
+    }
+
+    const linked = [...this._synchronizedFlickingOptions];
+
+    if (!find(linked, options => options.flicking === flicking)) {
+      linked.unshift({ flicking });
+    }
+
+    this._flicking = flicking;
+    this._linked = linked;
+
+    linked.forEach(({ flicking: linkedFlicking }) => {
+      linkedFlicking.on(EVENTS.MOVE, this._onMove);
+      linkedFlicking.on(EVENTS.MOVE_END, this._onMoveEnd);
+      linkedFlicking.on(EVENTS.CHANGED, this._onChanged);
+      linkedFlicking.on(EVENTS.SELECT, this._onSelect);
+    });
+
+    this.update();
+  }
+
+  /**
+   * Unlink all Flicking instances and remove the active classes added
+   * @ko 모든 Flicking 인스턴스들의 연결을 해제하고 추가된 활성화 클래스들을 제거합니다
+   * @return {void}
+   */
+  public destroy(): void {
+    if (!this._flicking) return;
+
+    this._linked.forEach(({ flicking, activeClass }) => {
+      flicking.off(EVENTS.MOVE, this._onMove);
+      flicking.off(EVENTS.MOVE_END, this._onMoveEnd);
+      flicking.off(EVENTS.CHANGED, this._onChanged);
+      flicking.off(EVENTS.SELECT, this._onSelect);
+
+      if (activeClass) {
+        flicking.panels.forEach(panel => {
+          if (!panel.element) return;
+
+          removeClass(panel.element, activeClass);
+        });
+      }
+    });
+
+    this._flicking = null;
+    this._linked = [];
+    this._syncing = [];
+  }
+
+  /**
+   * Update the active classes of the linked Flicking instances
+   * @ko 연결된 Flicking 인스턴스들의 활성화 클래스를 갱신합니다
+   * @return {void}
+   */
+  public update(): void {
+    this._linked.forEach(options => this._updateActiveClass(options));
+  }
+
+  private _getOptions(flicking: Flicking): SyncedFlickingOptions | null {
+    return find(this._linked, options => options.flicking === flicking);
+  }
+
+  private _mapIndex(index: number, from: Flicking, to: Flicking): number {
+    const fromLastIndex = from.panelCount - 1;
+    const toLastIndex = to.panelCount - 1;
+
+    if (fromLastIndex <= 0 || toLastIndex < 0) return 0;
+
+    return clamp(Math.round(index / fromLastIndex * toLastIndex), 0, toLastIndex);
+  }
+
+  private _moveOthers(source: Flicking, index: number, duration?: number) {
+    this._linked.forEach(({ flicking }) => {
+      if (flicking === source || flicking.panelCount <= 0) return;
+
+      const targetIndex = this._mapIndex(index, source, flicking);
+
+      if (duration !== 0 && flicking.index === targetIndex) return;
+
+      this._syncTo(flicking, targetIndex, duration);
+    });
+  }
+
+  private _isSyncing(flicking: Flicking): boolean {
+    return includes(this._syncing, flicking);
+  }
+
+  private _syncTo(flicking: Flicking, index: number, duration?: number) {
+    const syncing = this._syncing;
+
+    if (this._isSyncing(flicking) || flicking.animating) return;
+
+    // Events from the Flicking moved by this plugin should be ignored to prevent feedback loops
+    syncing.push(flicking);
+
+    const release = () => {
+      const syncIndex = syncing.indexOf(flicking);
+
+      if (syncIndex >= 0) {
+        syncing.splice(syncIndex, 1);
+      }
+    };
+
+    void flicking.moveTo(index, duration)
+      .then(release, release);
+  }
+
+  private _updateActiveClass({ flicking, activeClass }: SyncedFlickingOptions) {
+    if (!activeClass) return;
+
+    const activePanel = flicking.currentPanel;
+
+    flicking.panels.forEach(panel => {
+      const el = panel.element;
+
+      // Panels of the VirtualRenderer don't have the element when they're not rendered
+      if (!el) return;
+
+      if (panel === activePanel) {
+        addClass(el, activeClass);
+      } else {
+        removeClass(el, activeClass);
+      }
+    });
+  }
+
+  private _canSyncFrom(flicking: Flicking) {
+    const options = this._getOptions(flicking);
+
+    return !!options
+      && options.isSlidable !== false
+      && !this._isSyncing(flicking);
+  }
+
+  private _onMove = (e: MoveEvent) => {
+    const source = e.currentTarget;
+
+    if (this._type !== SYNC_TYPE.CAMERA || !this._canSyncFrom(source)) return;
+
+    const sourceLastIndex = source.panelCount - 1;
+
+    if (sourceLastIndex <= 0) return;
+
+    const ratio = clamp(source.camera.progress / sourceLastIndex, 0, 1);
+
+    this._linked.forEach(({ flicking }) => {
+      if (flicking === source || this._isSyncing(flicking) || flicking.animating) return;
+
+      const panels = flicking.panels;
+      const targetProgress = ratio * (panels.length - 1);
+      const prevPanel = panels[Math.floor(targetProgress)];
+      const nextPanel = panels[Math.ceil(targetProgress)];
+
+      if (!prevPanel || !nextPanel) return;
+
+      const camera = flicking.camera;
+      const position = prevPanel.position + (nextPanel.position - prevPanel.position) * (targetProgress - prevPanel.index);
+
+      void camera.lookAt(camera.clampToReachablePosition(position));
+      // Sync the input to the new position, or the next input will start from the previous position
+      flicking.control.updateInput();
+    });
+  };
+
+  private _onMoveEnd = (e: MoveEndEvent) => {
+    const source = e.currentTarget;
+
+    if (this._type !== SYNC_TYPE.CAMERA || !this._canSyncFrom(source)) return;
+
+    // Align the others to the panel, as the camera moved by this plugin doesn't change the active panel
+    this._moveOthers(source, source.index, 0);
+  };
+
+  private _onChanged = (e: ChangedEvent) => {
+    const source = e.currentTarget;
+    const options = this._getOptions(source);
+
+    if (options) {
+      this._updateActiveClass(options);
+    }
+
+    if (this._type !== SYNC_TYPE.INDEX || !this._canSyncFrom(source)) return;
+
+    this._moveOthers(source, e.index);
+  };
+
+  private _onSelect = (e: SelectEvent) => {
+    const source = e.currentTarget;
+    const options = this._getOptions(source);
+
+    if (!options || !options.isClickable || this._isSyncing(source)) return;
+
+    this._syncTo(source, e.index);
+    this._moveOthers(source, e.index);
+  };
+}
+
+export default Sync;
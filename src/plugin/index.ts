@@ -0,0 +1,40 @@
+/*
+ * Copyright (c) 2015 NAVER Corp.
+ * egjs projects are licensed under the MIT license
+ */
+import AutoPlay, { AutoPlayOptions } from "./AutoPlay";
+import Arrow, { ArrowOptions } from "./Arrow";
+import HistorySync, { HistorySyncOptions, HISTORY_SYNC_TYPE } from "./HistorySync";
+import LazyLoad, { LazyLoadOptions } from "./LazyLoad";
+import Pagination, { PaginationOptions, PAGINATION_TYPE } from "./Pagination";
+import Perspective, { PerspectiveOptions, PERSPECTIVE_TYPE } from "./Perspective";
+import Persist, { PersistOptions, PersistStorage } from "./Persist";
+import Sync, { SyncOptions, SyncedFlickingOptions, SYNC_TYPE } from "./Sync";
+
+export {
+  AutoPlay,
+  Arrow,
+  HistorySync,
+  HISTORY_SYNC_TYPE,
+  LazyLoad,
+  Pagination,
+  PAGINATION_TYPE,
+  Perspective,
+  PERSPECTIVE_TYPE,
+  Persist,
+  Sync,
+  SYNC_TYPE
+};
+
+export type {
+  AutoPlayOptions,
+  ArrowOptions,
+  HistorySyncOptions,
+  LazyLoadOptions,
+  PaginationOptions,
+  PerspectiveOptions,
+  PersistOptions,
+  PersistStorage,
+  SyncOptions,
+  SyncedFlickingOptions
+};
@@ -2,14 +2,19 @@
  * Copyright (c) 2015 NAVER Corp.
  * egjs projects are licensed under the MIT license
  */
+import { ComponentEvent } from "@egjs/component";
+
 import Flicking, { FlickingOptions } from "../Flicking";
 import Panel, { PanelOptions } from "../core/panel/Panel";
-import { ALIGN } from "../const/external";
-import { getFlickingAttached, getMinusCompensatedIndex, includes } from "../utils";
+import { ALIGN, EVENTS } from "../const/external";
+import { find, getFlickingAttached, getMinusCompensatedIndex, includes } from "../utils";
 
 import RenderingStrategy from "./RenderingStrategy/RenderingStrategy";
 import RawRenderingStrategy from "./RenderingStrategy/RawRenderingStrategy";
 
+// Styles of the panel elements applied by the panelsPerView option
+const panelSizeStyles = ["width", "height", "margin-left", "margin-right", "margin-top", "margin-bottom"];
+
 export interface RendererOptions {
   align: FlickingOptions["align"];
   strategy: RenderingStrategy;
@@ -24,6 +29,7 @@ abstract class Renderer {
   protected _flicking: Flicking | null;
   protected _panels: Panel[];
   protected _renderingStrategy: RenderingStrategy;
+  protected _originalPanelStyles: Array<{ el: HTMLElement; values: string[] }>;
 
   // Options
   protected _align: RendererOptions["align"];
@@ -52,6 +58,12 @@ abstract class Renderer {
    * @type {Constants.ALIGN | string | number}
    */
   public get align() { return this._align; }
+  /**
+   * A {@link RenderingStrategy} that decides which panel elements should be rendered
+   * @ko 어떤 패널 엘리먼트를 렌더링할지 결정하는 {@link RenderingStrategy}
+   * @type {RenderingStrategy}
+   */
+  public get strategy() { return this._renderingStrategy; }
 
   // Options Setter
   public set align(val: RendererOptions["align"]) {
@@ -61,6 +73,10 @@ abstract class Renderer {
     this._panels.forEach(panel => { panel.align = panelAlign; });
   }
 
+  public set strategy(val: RendererOptions["strategy"]) {
+    this._renderingStrategy = val;
+  }
+
   /**
    * @param {object} options An options object<ko>옵션 오브젝트</ko>
    * @param {Constants.ALIGN | string | number} [options.align] An {@link Flicking#align align} value that will be applied to all panels<ko>전체 패널에 적용될 {@link Flicking#align align} 값</ko>
@@ -73,6 +89,7 @@ abstract class Renderer {
     this._flicking = null;
     this._renderingStrategy = strategy;
     this._panels = [];
+    this._originalPanelStyles = [];
   }
 
   /**
@@ -135,7 +152,7 @@ abstract class Renderer {
    * @return {this}
    */
   public updatePanelSize(): this {
-    this._panels.forEach(panel => panel.resize());
+    this._resizePanels(this._panels);
     return this;
   }
 
@@ -146,6 +163,7 @@ abstract class Renderer {
    * 해당 인덱스보다 같거나 큰 인덱스를 가진 기존 패널들은 추가한 패널의 개수만큼 인덱스가 증가합니다.
    * @param {number} index Index to insert new panels at<ko>새로 패널들을 추가할 인덱스</ko>
    * @param {any[]} elements An array of element or framework component with element in it<ko>엘리먼트의 배열 혹은 프레임워크에서 엘리먼트를 포함한 컴포넌트들의 배열</ko>
+   * @fires Flicking#panelChange
    * @return {Panel[]} An array of prepended panels<ko>추가된 패널들의 배열</ko>
    */
   public batchInsert(...items: Array<{
@@ -161,12 +179,12 @@ abstract class Renderer {
     const allPanelsInserted = items.reduce((addedPanels, item) => {
       const insertingIdx = getMinusCompensatedIndex(item.index, panels.length);
       const panelsPushed = panels.slice(insertingIdx);
-      const panelsInserted = item.elements.map(el => this._createPanel(el, { index: insertingIdx, align, flicking }));
+      const panelsInserted = item.elements.map((el, elIdx) => this._createPanel(el, { index: insertingIdx + elIdx, align, flicking }));
 
       panels.splice(insertingIdx, 0, ...panelsInserted);
 
       // Resize the newly added panels
-      panelsInserted.forEach(panel => panel.resize());
+      this._resizePanels(panelsInserted);
 
       const insertedSize = this._getPanelSizeSum(panelsInserted);
 
@@ -199,6 +217,11 @@ abstract class Renderer {
 
     flicking.camera.updateOffset();
 
+    flicking.trigger(new ComponentEvent(EVENTS.PANEL_CHANGE, {
+      added: allPanelsInserted,
+      removed: []
+    }));
+
     return allPanelsInserted;
   }
 
@@ -209,6 +232,7 @@ abstract class Renderer {
    * 해당 인덱스보다 큰 인덱스를 가진 기존 패널들은 제거한 패널의 개수만큼 인덱스가 감소합니다
    * @param {number} index Index of panel to remove<ko>제거할 패널의 인덱스</ko>
    * @param {number} [deleteCount=1] Number of panels to remove from index<ko>`index` 이후로 제거할 패널의 개수</ko>
+   * @fires Flicking#panelChange
    * @return An array of removed panels<ko>제거된 패널들의 배열</ko>
    */
   public batchRemove(...items: Array<{ index: number; deleteCount: number }>): Panel[] {
@@ -270,6 +294,13 @@ abstract class Renderer {
 
     flicking.camera.updateOffset();
 
+    if (allPanelsRemoved.length > 0) {
+      flicking.trigger(new ComponentEvent(EVENTS.PANEL_CHANGE, {
+        added: [],
+        removed: allPanelsRemoved
+      }));
+    }
+
     return allPanelsRemoved;
   }
 
@@ -281,6 +312,93 @@ abstract class Renderer {
       : align;
   }
 
+  protected _resizePanels(panels: Panel[]) {
+    const flicking = getFlickingAttached(this._flicking, "Renderer");
+    const panelsPerView = flicking.panelsPerView;
+
+    if (panelsPerView <= 0) {
+      // Measure the size of the panels without the styles applied by the panelsPerView
+      this._restorePanelStyles();
+      panels.forEach(panel => panel.resize());
+      return;
+    }
+
+    const { horizontal, viewport, gap, rtlEnabled } = flicking;
+    const viewportSize = horizontal ? viewport.width : viewport.height;
+    const panelSize = (viewportSize - gap * (panelsPerView - 1)) / panelsPerView;
+    const margin = { prev: 0, next: gap };
+    // Next panel is placed at the left on the right-to-left layout
+    // The styles of the other direction are restored
+    const styles: { [property: string]: string } = horizontal
+      ? {
+        "width": `${panelSize}px`,
+        "margin-left": rtlEnabled ? `${gap}px` : "0px",
+        "margin-right": rtlEnabled ? "0px" : `${gap}px`
+      }
+      : {
+        "height": `${panelSize}px`,
+        "margin-top": "0px",
+        "margin-bottom": `${gap}px`
+      };
+
+    panels.forEach(panel => {
+      const el = panel.element;
+
+      panel.resize({ size: panelSize, margin });
+
+      // Panels of the VirtualRenderer don't have the element when they're not rendered
+      if (!el) return;
+
+      const originalValues = this._saveOriginalPanelStyles(el);
+
+      panelSizeStyles.forEach((property, idx) => {
+        el.style.setProperty(property, styles[property] ?? originalValues[idx]);
+      });
+    });
+  }
+
+  protected _saveOriginalPanelStyles(el: HTMLElement): string[] {
+    const originalStyles = this._originalPanelStyles;
+    const saved = find(originalStyles, styles => styles.el === el);
+
+    if (saved) return saved.values;
+
+    const values = panelSizeStyles.map(property => el.style.getPropertyValue(property));
+
+    originalStyles.push({ el, values });
+
+    return values;
+  }
+
+  protected _restorePanelStyles() {
+    this._originalPanelStyles.forEach(({ el, values }) => {
+      panelSizeStyles.forEach((property, idx) => {
+        el.style.setProperty(property, values[idx]);
+      });
+    });
+
+    this._originalPanelStyles = [];
+  }
+
+  protected _resetPanelElementOrder(panels: Panel[]) {
+    const flicking = getFlickingAttached(this._flicking, "Renderer");
+    const cameraEl = flicking.camera.element;
+
+    // We're using reversed panels here as last panel should be the last element of camera element
+    // Panels without the element, like the VirtualPanel not rendered, are skipped
+    const reversedElements = panels
+      .map(panel => panel.element)
+      .filter((el): el is HTMLElement => !!el)
+      .reverse();
+    reversedElements.forEach((el, idx) => {
+      const nextPanelEl = reversedElements[idx - 1] ?? null;
+
+      if (el.nextElementSibling !== nextPanelEl) {
+        cameraEl.insertBefore(el, nextPanelEl);
+      }
+    });
+  }
+
   protected _getPanelSizeSum(panels: Panel[]): number {
     const firstPanel = panels[0];
     const lastPanel = panels[panels.length - 1];
@@ -17,13 +17,13 @@ class VanillaRenderer extends Renderer {
     const strategy = this._renderingStrategy;
     const flicking = getFlickingAttached(this._flicking, "Renderer");
     const cameraEl = flicking.camera.element;
-    const wasRenderedPanels = this._panels.filter(panel => panel.element.parentElement === cameraEl);
+    const wasRenderedPanels = this._panels.filter(panel => panel.element?.parentElement === cameraEl);
 
     strategy.updateRenderingPanels(flicking);
     const renderingPanels = this._getRenderingPanelsByOrder();
 
     this._removePanelElements(wasRenderedPanels.filter(panel => !panel.rendered));
-    this._insertPanelElements(renderingPanels.filter(panel => panel.element.parentElement !== cameraEl), null);
+    this._insertPanelElements(renderingPanels.filter(panel => panel.element?.parentElement !== cameraEl), null);
     this._resetPanelElementOrder(renderingPanels);
   }
 
@@ -34,7 +34,7 @@ class VanillaRenderer extends Renderer {
     const cameraElement = camera.element;
     const fragment = document.createDocumentFragment();
 
-    this._panels.forEach(panel => fragment.appendChild(panel.element));
+    this._appendPanelElements(fragment, this._panels);
 
     this._removeAllChildsFromCamera();
 
@@ -72,7 +72,7 @@ class VanillaRenderer extends Renderer {
     const nextSiblingElement = nextSibling?.element || null;
     const fragment = document.createDocumentFragment();
 
-    panels.forEach(panel => fragment.appendChild(panel.element));
+    this._appendPanelElements(fragment, panels);
     cameraElement.insertBefore(fragment, nextSiblingElement);
 
     return this;
@@ -83,24 +83,22 @@ class VanillaRenderer extends Renderer {
     const cameraElement = flicking.camera.element;
 
     panels.forEach(panel => {
-      cameraElement.removeChild(panel.element);
+      const el = panel.element;
+
+      if (el) {
+        cameraElement.removeChild(el);
+      }
     });
 
     return this;
   }
 
-  private _resetPanelElementOrder(panels: Panel[]) {
-    const flicking = getFlickingAttached(this._flicking, "Renderer");
-    const cameraEl = flicking.camera.element;
-
-    // We're using reversed panels here as last panel should be the last element of camera element
-    const reversedPanels = [...panels].reverse();
-    reversedPanels.forEach((panel, idx) => {
-      const nextPanel = reversedPanels[idx - 1];
-      const nextPanelEl = nextPanel ? nextPanel.element : null;
+  private _appendPanelElements(fragment: DocumentFragment, panels: Panel[]) {
+    panels.forEach(panel => {
+      const el = panel.element;
 
-      if (panel.element.nextElementSibling !== nextPanelEl) {
-        cameraEl.insertBefore(panel.element, nextPanelEl);
+      if (el) {
+        fragment.appendChild(el);
       }
     });
   }
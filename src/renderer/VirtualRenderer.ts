@@ -0,0 +1,261 @@
+/*
+ * Copyright (c) 2015 NAVER Corp.
+ * egjs projects are licensed under the MIT license
+ */
+import Panel, { PanelOptions } from "../core/panel/Panel";
+import VirtualPanel from "../core/panel/VirtualPanel";
+import FlickingError from "../core/FlickingError";
+import * as ERROR from "../const/error";
+import { addClass, getFlickingAttached } from "../utils";
+
+import Renderer, { RendererOptions } from "./Renderer";
+
+/**
+ * An options for the {@link VirtualRenderer}
+ * @ko {@link VirtualRenderer} 생성시 사용되는 옵션
+ * @interface
+ * @property {any[]} data An array of data to create panels from. A panel will be created for each data<ko>패널을 생성할 데이터의 배열. 각 데이터마다 패널이 하나씩 생성됩니다</ko>
+ * @property {number} panelSize Size of each panel in px, which should be bigger than 0 unless {@link Flicking#panelsPerView panelsPerView} is enabled. This is ignored when {@link Flicking#panelsPerView panelsPerView} is enabled
+ * <ko>각 패널의 크기(px). {@link Flicking#panelsPerView panelsPerView}가 활성화되지 않은 경우 0보다 커야 합니다. {@link Flicking#panelsPerView panelsPerView}가 활성화된 경우 무시됩니다</ko>
+ * @property {function} renderPanel A function that renders the contents of the data to the given element. It's called with the element, index of the panel and the data of the panel
+ * <ko>주어진 엘리먼트에 데이터의 내용을 렌더링하는 함수. 엘리먼트, 패널의 인덱스와 패널의 데이터를 인자로 호출됩니다</ko>
+ * @property {string} panelClass A class name that will be added to the panel elements created<ko>생성되는 패널 엘리먼트에 추가될 클래스명</ko>
+ */
+export interface VirtualRendererOptions extends RendererOptions {
+  data: any[];
+  panelSize: number;
+  renderPanel: (el: HTMLElement, index: number, data: any) => void;
+  panelClass: string;
+}
+
+/**
+ * A {@link Renderer} that renders only the visible panels with a small pool of elements that are recycled as the camera moves
+ * Panels become lightweight position records({@link VirtualPanel}) that borrow an element from the pool only while they're visible, which makes it possible to use a huge number of panels
+ * @ko 카메라가 움직임에 따라 재활용되는 작은 엘리먼트 풀을 사용하여 보이는 패널들만 렌더링하는 {@link Renderer}
+ * 패널들은 보이는 동안에만 풀에서 엘리먼트를 빌려 사용하는 가벼운 위치 정보({@link VirtualPanel})가 되므로, 아주 많은 수의 패널을 사용할 수 있습니다
+ */
+class VirtualRenderer extends Renderer {
+  // Internal States
+  private _elementPool: HTMLElement[];
+
+  // Options
+  private _data: VirtualRendererOptions["data"];
+  private _panelSize: VirtualRendererOptions["panelSize"];
+  private _renderPanel: VirtualRendererOptions["renderPanel"];
+  private _panelClass: VirtualRendererOptions["panelClass"];
+
+  // Internal states Getter
+  /**
+   * Elements that are not used by any panel, and can be used again
+   * @ko 어떤 패널에서도 사용되고 있지 않아 다시 사용될 수 있는 엘리먼트들
+   * @type {HTMLElement[]}
+   * @readonly
+   */
+  public get elementPool() { return this._elementPool; }
+
+  // Options Getter
+  /**
+   * Size of each panel in px
+   * @ko 각 패널의 크기(px)
+   * @type {number}
+   * @readonly
+   */
+  public get panelSize() { return this._panelSize; }
+  /**
+   * A function that renders the contents of the data to the given element
+   * @ko 주어진 엘리먼트에 데이터의 내용을 렌더링하는 함수
+   * @type {function}
+   * @readonly
+   */
+  public get renderPanel() { return this._renderPanel; }
+  /**
+   * A class name that will be added to the panel elements created
+   * @ko 생성되는 패널 엘리먼트에 추가될 클래스명
+   * @type {string}
+   * @readonly
+   */
+  public get panelClass() { return this._panelClass; }
+
+  /**
+   * @param {Partial<VirtualRendererOptions>} [options={}] An options object<ko>옵션 오브젝트</ko>
+   */
+  public constructor({
+    data = [],
+    panelSize = 0,
+    renderPanel = () => void 0,
+    panelClass = "flicking-panel",
+    ...rendererOptions
+  }: Partial<VirtualRendererOptions> = {}) {
+    super(rendererOptions);
+
+    this._elementPool = [];
+
+    this._data = data;
+    this._panelSize = panelSize;
+    this._renderPanel = renderPanel;
+    this._panelClass = panelClass;
+  }
+
+  /**
+   * Destroy Renderer and remove all panel elements it created
+   * @ko Renderer를 초기 상태로 되돌리고, 생성한 모든 패널 엘리먼트들을 제거합니다
+   * @return {void}
+   */
+  public destroy(): void {
+    if (this._flicking) {
+      this._releaseElements(this._panels as VirtualPanel[]);
+    }
+
+    this._elementPool = [];
+    super.destroy();
+  }
+
+  /**
+   * Assign elements from the pool to the visible panels, and release elements of the panels that are not visible anymore
+   * @ko 보이는 패널들에 풀의 엘리먼트를 할당하고, 더 이상 보이지 않는 패널들의 엘리먼트를 반환합니다
+   * @return {Promise<void>}
+   */
+  // eslint-disable-next-line @typescript-eslint/require-await
+  public async render() {
+    const flicking = getFlickingAttached(this._flicking, "Renderer");
+    const camera = flicking.camera;
+    const panels = this._panels as VirtualPanel[];
+    const visiblePanels = camera.visiblePanels as VirtualPanel[];
+
+    // During the input sequence,
+    // Do not remove panel elements as it won't trigger touchend event.
+    if (!flicking.holding) {
+      this._releaseElements(panels.filter(panel => panel.rendered && visiblePanels.indexOf(panel) < 0));
+    }
+
+    visiblePanels.forEach(panel => {
+      if (!panel.rendered) {
+        panel.setElement(this._getElementFromPool());
+        this._applyPanelSize(panel);
+      }
+
+      const el = panel.element;
+
+      if (el && panel.needsRender) {
+        this._renderPanel(el, panel.index, panel.data);
+        panel.markRendered();
+      }
+    });
+
+    this._resetPanelElementOrder(panels
+      .filter(panel => panel.rendered)
+      .sort((a, b) => (a.position + a.offset) - (b.position + b.offset)));
+
+    camera.updateOffset();
+  }
+
+  /**
+   * As all panels have the predefined size, there's nothing to render for measuring their sizes
+   * @ko 모든 패널이 미리 정해진 크기를 가지므로, 크기를 측정하기 위해 렌더링할 것이 없습니다
+   * @return {Promise<void>}
+   */
+  public async forceRenderAllPanels() {
+    return Promise.resolve();
+  }
+
+  protected _collectPanels() {
+    const flicking = getFlickingAttached(this._flicking, "Renderer");
+    const align = this._getPanelAlign();
+
+    this._panels = this._data.map(
+      (data, index) => new VirtualPanel({ flicking, data, index, align })
+    );
+  }
+
+  protected _createPanel(data: any, options: PanelOptions): VirtualPanel {
+    return new VirtualPanel({ data, ...options });
+  }
+
+  // eslint-disable-next-line @typescript-eslint/no-unused-vars
+  protected _insertPanelElements(panels: Panel[], nextSibling: Panel | null): void {
+    // Elements are assigned to the visible panels on render
+  }
+
+  protected _removePanelElements(panels: Panel[]): void {
+    this._releaseElements(panels as VirtualPanel[]);
+  }
+
+  protected _resizePanels(panels: Panel[]) {
+    const flicking = getFlickingAttached(this._flicking, "Renderer");
+    const { horizontal, viewport, gap, panelsPerView } = flicking;
+
+    // Panels can't be measured without their elements
+    if (panelsPerView <= 0 && !(this._panelSize > 0)) {
+      throw new FlickingError(ERROR.MESSAGE.WRONG_OPTION("virtual.panelSize", this._panelSize), ERROR.CODE.WRONG_OPTION);
+    }
+
+    const viewportSize = horizontal ? viewport.width : viewport.height;
+    const panelSize = panelsPerView > 0
+      ? (viewportSize - gap * (panelsPerView - 1)) / panelsPerView
+      : this._panelSize;
+    const margin = { prev: 0, next: gap };
+
+    panels.forEach(panel => {
+      panel.resize({ size: panelSize, margin });
+
+      if (panel.rendered) {
+        this._applyPanelSize(panel);
+      }
+    });
+  }
+
+  private _applyPanelSize(panel: Panel) {
+    const flicking = getFlickingAttached(this._flicking, "Renderer");
+    const el = panel.element;
+
+    if (!el) return;
+
+    const elStyle = el.style;
+
+    if (flicking.horizontal) {
+      const rtl = flicking.rtlEnabled;
+
+      // Next panel is placed at the left on the right-to-left layout
+      elStyle.width = `${panel.size}px`;
+      elStyle.height = "";
+      elStyle.marginLeft = `${rtl ? panel.margin.next : panel.margin.prev}px`;
+      elStyle.marginRight = `${rtl ? panel.margin.prev : panel.margin.next}px`;
+    } else {
+      elStyle.width = "";
+      elStyle.height = `${panel.size}px`;
+      elStyle.marginTop = `${panel.margin.prev}px`;
+      elStyle.marginBottom = `${panel.margin.next}px`;
+    }
+  }
+
+  private _getElementFromPool(): HTMLElement {
+    const pooledEl = this._elementPool.pop();
+
+    if (pooledEl) return pooledEl;
+
+    const el = document.createElement("div");
+    addClass(el, this._panelClass);
+
+    return el;
+  }
+
+  private _releaseElements(panels: VirtualPanel[]) {
+    const flicking = getFlickingAttached(this._flicking, "Renderer");
+    const cameraEl = flicking.camera.element;
+
+    panels.forEach(panel => {
+      const el = panel.element;
+
+      if (!el) return;
+
+      if (el.parentNode === cameraEl) {
+        cameraEl.removeChild(el);
+      }
+
+      panel.setElement(null);
+      this._elementPool.push(el);
+    });
+  }
+}
+
+export default VirtualRenderer;
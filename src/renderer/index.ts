@@ -5,16 +5,19 @@
 import Renderer, { RendererOptions } from "./Renderer";
 import VanillaRenderer from "./VanillaRenderer";
 import ExternalRenderer from "./ExternalRenderer";
+import VirtualRenderer, { VirtualRendererOptions } from "./VirtualRenderer";
 
 
 export {
   Renderer,
   VanillaRenderer,
-  ExternalRenderer
+  ExternalRenderer,
+  VirtualRenderer
 };
 
 export * from "./RenderingStrategy";
 
 export type {
-  RendererOptions
+  RendererOptions,
+  VirtualRendererOptions
 };
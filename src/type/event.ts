@@ -6,7 +6,7 @@
 import { OnChange, OnFinish, OnHold, OnRelease } from "@egjs/axes";
 import { ComponentEvent } from "@egjs/component";
 
-import Flicking from "../Flicking";
+import Flicking, { FlickingOptions } from "../Flicking";
 import Panel from "../core/panel/Panel";
 import { EVENTS, DIRECTION } from "../const/external";
 import { ValueOf } from "../type/internal";
@@ -147,13 +147,13 @@ export interface MoveEvent<T extends Flicking = Flicking> extends ComponentEvent
  * @property {boolean} isTrusted Boolean that indicates whether the event was generated by a user action<ko>이벤트가 사용자 입력에 의하여 발생되었는지를 나타내는 값</ko>
  * @property {boolean} holding Boolean that indicates whether the user is dragging the viewport element<ko>사용자가 현재 viewport 엘리먼트를 드래그하고있는지를 나타내는 값</ko>
  * @property {DIRECTION} direction Moving direction relative to previous position of the camera<ko>이전 카메라 위치 대비 이동 방향</ko>
- * @property {object} axesEvent {@link https://naver.github.io/egjs-axes/release/latest/doc/eg.Axes.html#event:finish finish} event of {@link https://naver.github.io/egjs-axes/ Axes}
- * <ko>{@link https://naver.github.io/egjs-axes/ Axes}의 {@link https://naver.github.io/egjs-axes/release/latest/doc/eg.Axes.html#event:finish finish} 이벤트</ko>
+ * @property {object | null} axesEvent {@link https://naver.github.io/egjs-axes/release/latest/doc/eg.Axes.html#event:finish finish} event of {@link https://naver.github.io/egjs-axes/ Axes}. It's null when the animation is stopped before reaching its destination
+ * <ko>{@link https://naver.github.io/egjs-axes/ Axes}의 {@link https://naver.github.io/egjs-axes/release/latest/doc/eg.Axes.html#event:finish finish} 이벤트. 애니메이션이 목적지에 도달하기 전에 멈췄을 경우 null입니다</ko>
  */
 export interface MoveEndEvent<T extends Flicking = Flicking> extends ComponentEvent<{}, typeof EVENTS["MOVE_END"], T> {
   isTrusted: boolean;
   direction: ValueOf<typeof DIRECTION>;
-  axesEvent: OnFinish;
+  axesEvent: OnFinish | null;
 }
 
 /**
@@ -298,3 +298,35 @@ export interface VisibleChangeEvent<T extends Flicking = Flicking> extends Compo
 export interface ReachEdgeEvent<T extends Flicking = Flicking> extends ComponentEvent<{}, typeof EVENTS["REACH_EDGE"], T> {
   direction: ValueOf<typeof DIRECTION>;
 }
+
+/**
+ * Event that fires when the viewport width crosses a boundary of the {@link Flicking#breakpoints breakpoints} option, after applying the options of the new breakpoint
+ * @ko 뷰포트 너비가 {@link Flicking#breakpoints breakpoints} 옵션의 경계를 넘었을 때, 새 브레이크포인트의 옵션을 적용한 이후에 발생하는 이벤트
+ * @event Flicking#breakpointChange
+ * @type {object}
+ * @property {Flicking} currentTarget An Flicking instance that triggered this event<ko>이 이벤트를 트리거한 Flicking의 인스턴스</ko>
+ * @property {string} eventType Name of the event<ko>이벤트명</ko>
+ * @property {number | null} breakpoint A new breakpoint applied, or `null` if no breakpoint matches the viewport width<ko>새로 적용된 브레이크포인트. 뷰포트 너비에 해당하는 브레이크포인트가 없을 경우 `null`</ko>
+ * @property {number | null} prevBreakpoint A previous breakpoint<ko>이전 브레이크포인트</ko>
+ * @property {object} options Options of the new breakpoint<ko>새 브레이크포인트의 옵션</ko>
+ */
+export interface BreakpointChangeEvent<T extends Flicking = Flicking> extends ComponentEvent<{}, typeof EVENTS["BREAKPOINT_CHANGE"], T> {
+  breakpoint: number | null;
+  prevBreakpoint: number | null;
+  options: FlickingOptions["breakpoints"][number];
+}
+
+/**
+ * Event that fires when panels are added or removed, after updating the {@link Camera} and the {@link Control}
+ * @ko 패널이 추가되거나 제거되었을 때, {@link Camera}와 {@link Control}을 갱신한 이후에 발생하는 이벤트
+ * @event Flicking#panelChange
+ * @type {object}
+ * @property {Flicking} currentTarget An Flicking instance that triggered this event<ko>이 이벤트를 트리거한 Flicking의 인스턴스</ko>
+ * @property {string} eventType Name of the event<ko>이벤트명</ko>
+ * @property {Panel[]} added An array of new panels added<ko>새로 추가된 패널들의 배열</ko>
+ * @property {Panel[]} removed An array of panels removed<ko>제거된 패널들의 배열</ko>
+ */
+export interface PanelChangeEvent<T extends Flicking = Flicking> extends ComponentEvent<{}, typeof EVENTS["PANEL_CHANGE"], T> {
+  added: Panel[];
+  removed: Panel[];
+}
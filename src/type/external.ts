@@ -1,6 +1,8 @@
 import Flicking from "../Flicking";
+import Panel from "../core/panel/Panel";
 import { FreeControlOptions } from "../control/FreeControl";
-import { MOVE_TYPE } from "../const/external";
+import { SnapControlOptions } from "../control/SnapControl";
+import { ANIMATION_POLICY, MOVE_TYPE } from "../const/external";
 import { ValueOf } from "../type/internal";
 
 /**
@@ -25,35 +27,95 @@ export interface Plugin {
   update(flicking: Flicking): void;
 }
 
+/**
+ * Values of the panel given to the {@link PanelEffect}
+ * @ko {@link PanelEffect}에 전달되는 패널의 값들
+ * @interface
+ * @property {number} progress {@link Panel#progress progress} of the panel<ko>패널의 {@link Panel#progress progress}</ko>
+ * @property {number} outsetProgress {@link Panel#outsetProgress outsetProgress} of the panel<ko>패널의 {@link Panel#outsetProgress outsetProgress}</ko>
+ * @property {number} visibleRatio {@link Panel#visibleRatio visibleRatio} of the panel<ko>패널의 {@link Panel#visibleRatio visibleRatio}</ko>
+ */
+export interface PanelEffectState {
+  progress: number;
+  outsetProgress: number;
+  visibleRatio: number;
+}
+
+/**
+ * A {@link Plugin} that applies effects to each panel whenever the camera moves
+ * {@link PanelEffect#applyEffect applyEffect} is called for every {@link Camera#lookAt lookAt} of the camera, including the ones from {@link Flicking#resize resize()} and panel insertion/removal
+ * It is called for every visible panel, and once more for the panels that became invisible with that movement
+ * @ko 카메라가 움직일 때마다 각 패널에 효과를 적용하는 {@link Plugin}
+ * {@link Flicking#resize resize()}나 패널 추가/제거에 의한 것을 포함하여, 카메라의 모든 {@link Camera#lookAt lookAt} 호출마다 {@link PanelEffect#applyEffect applyEffect}가 호출됩니다
+ * 보이는 모든 패널에 대해 호출되며, 해당 이동으로 인해 보이지 않게 된 패널들에 대해서도 한 번 더 호출됩니다
+ * @interface
+ * @extends Plugin
+ * @property - Apply the effect to the panel<ko>패널에 효과를 적용합니다</ko>
+ * @typedef
+ */
+export interface PanelEffect extends Plugin {
+  applyEffect(panel: Panel, state: PanelEffectState): void;
+}
+
 /**
  * Flicking Status returned by {@link Flicking#getStatus}
  * @ko {@link Flicking#getStatus}에 의해 반환된 Flicking 상태 객체
  * @interface
+ * @property {number} [version] A version of the status format. The status without the version is considered as the version 1
+ * <ko>상태 형식의 버전. 버전이 없는 상태값은 버전 1로 간주합니다</ko>
  * @property {number} index An index of the active panel<ko>활성화된 패널의 인덱스</ko>
- * @property {object} position A info to restore camera {@link Camera#position position}<ko>카메라 {@link Camera#position position}을 설정하기 위한 정보들</ko>
+ * @property {object} position A info to restore camera {@link Camera#position position}. If the {@link Flicking#moveType moveType} is not `"freeScroll"`, the camera moves to the nearest anchor of it, and only when the index is not given
+ * <ko>카메라 {@link Camera#position position}을 설정하기 위한 정보들. {@link Flicking#moveType moveType}이 `"freeScroll"`이 아닐 경우, 인덱스가 주어지지 않았을 때만 해당 좌표에서 가장 가까운 앵커로 이동합니다</ko>
  * @property {number} [position.panel] An index of the panel camera is located at<ko>카메라가 위치한 패널의 인덱스</ko>
  * @property {number} [position.progressInPanel] A progress of the camera position inside the panel<ko>패널 내에서의 카메라 위치의 진행도</ko>
+ * @property {number} [position.absolute] An exact camera position. It's restored instead of the progress when the panels are placed the same as when the status is saved
+ * <ko>정확한 카메라 좌표. 상태값을 저장했을 때와 패널이 동일하게 배치되어 있을 경우 진행도 대신 복원됩니다</ko>
+ * @property {boolean} [circular] Whether the {@link Flicking#circularEnabled circular} mode was enabled. The exact camera position can't be restored on a different mode
+ * <ko>{@link Flicking#circularEnabled circular} 모드가 활성화되어 있었는지 여부. 다른 모드에서는 정확한 카메라 좌표를 복원할 수 없습니다</ko>
  * @property {number} visibleOffset An offset to visible panel's original index. This value is available only when `visiblePanelsOnly` is `true`
  * <ko>현재 보이는 패널들을 저장했을 때, 원래의 인덱스 대비 offset. `visiblePanelsOnly` 옵션을 사용했을 때만 사용 가능합니다</ko>
  * @property {object[]} panels A data array of panels<ko>패널의 정보를 담은 배열</ko>
  * @property {index} [panels.index] An index of the panel<ko>패널의 인덱스</ko>
  * @property {string | undefined} [panels.html] An `outerHTML` of the panel element<ko>패널 엘리먼트의 `outerHTML`</ko>
+ * @property {any} [panels.data] A data of the {@link VirtualPanel}<ko>{@link VirtualPanel}의 데이터</ko>
  */
 export interface Status {
+  version?: number;
   index?: number;
   position?: {
     panel: number;
     progressInPanel: number;
+    absolute?: number;
   };
+  circular?: boolean;
   visibleOffset?: number;
   panels: Array<{
     index: number;
     html?: string;
+    data?: any;
   }>;
 }
 
+/**
+ * An options for the move methods like {@link Flicking#moveTo moveTo()}, {@link Flicking#prev prev()}, {@link Flicking#next next()} and {@link Panel#focus focus()}
+ * @ko {@link Flicking#moveTo moveTo()}, {@link Flicking#prev prev()}, {@link Flicking#next next()}와 {@link Panel#focus focus()} 같은 이동 메소드에 사용되는 옵션
+ * @interface
+ * @property {number} [duration={@link Flicking#duration options.duration}] Duration of the animation (unit: ms)<ko>애니메이션 진행 시간 (단위: ms)</ko>
+ * @property {function} [easing={@link Flicking#easing options.easing}] An easing function applied to this animation only<ko>이 애니메이션에만 적용할 easing 함수</ko>
+ * @property {AbortSignal} [signal] A signal to abort the animation. The camera stops at the current position and the move is rejected with {@link ERROR_CODE ANIMATION_ABORTED}
+ * <ko>애니메이션을 중단하기 위한 signal. 카메라는 현재 위치에 멈추고, 이동은 {@link ERROR_CODE ANIMATION_ABORTED} 에러와 함께 reject됩니다</ko>
+ * @property {ANIMATION_POLICY} [policy={@link Flicking#animationPolicy options.animationPolicy}] What to do when the animation is already playing<ko>애니메이션이 이미 진행중일 때의 동작</ko>
+ */
+export interface MoveOptions {
+  duration?: number;
+  easing?: (x: number) => number;
+  signal?: AbortSignal;
+  policy?: ValueOf<typeof ANIMATION_POLICY>;
+}
+
 /* eslint-disable @typescript-eslint/indent */
 export type MoveTypeOptions<T extends ValueOf<typeof MOVE_TYPE>> =
   T extends typeof MOVE_TYPE.FREE_SCROLL ? [T] | [T, Partial<FreeControlOptions>] :
+  T extends typeof MOVE_TYPE.SNAP ? [T] | [T, Partial<SnapControlOptions>] :
   [T];
 /* eslint-enable */
@@ -194,6 +194,10 @@ export const includes = <T>(array: T[], target: any): target is T => {
 
 export const isString = (val: any): val is string => typeof val === "string";
 
+export const isFiniteNumber = (val: any): val is number => typeof val === "number" && isFinite(val);
+
+export const isInteger = (val: any): val is number => isFiniteNumber(val) && Math.floor(val) === val;
+
 export const circulatePosition = (pos: number, min: number, max: number) => {
   const size = max - min;
 
@@ -208,6 +212,50 @@ export const circulatePosition = (pos: number, min: number, max: number) => {
   return pos;
 };
 
+// Every panel should be able to be placed outside of the viewport
+// When panel sizes are calculated from the viewport size, compare with the panel count to avoid the floating point error
+export const canSetCircularMode = (panelSizes: number[], panelAreaSize: number, visibleSize: number, panelsPerView: number): boolean => panelsPerView > 0
+  ? panelSizes.length >= panelsPerView + 1
+  : panelSizes.every(size => panelAreaSize - size >= visibleSize);
+
+// Compare with the panel count when panel sizes are calculated from the viewport size, to avoid the floating point error
+export const canSetBoundMode = (panelCount: number, panelAreaSize: number, visibleSize: number, panelsPerView: number): boolean => panelsPerView > 0
+  ? panelCount > panelsPerView
+  : visibleSize < panelAreaSize;
+
+export const getBoundRange = (panelAreaMin: number, panelAreaMax: number, visibleSize: number, alignPos: number) => ({
+  min: panelAreaMin + alignPos,
+  max: panelAreaMax - visibleSize + alignPos
+});
+
+export const getCircularToggle = (
+  panelRange: { min: number; max: number },
+  cameraRange: { min: number; max: number },
+  alignPos: number,
+  visibleSize: number
+): { direction: ValueOf<typeof DIRECTION>; position: number } => {
+  const minimumVisible = cameraRange.min - alignPos;
+  const maximumVisible = cameraRange.max - alignPos + visibleSize;
+  const includeRange = (min: number, max: number) => max >= panelRange.min && min <= panelRange.max;
+
+  if (includeRange(maximumVisible - visibleSize, maximumVisible)) {
+    // Should be visible when the camera is at the min of the range
+    return { direction: DIRECTION.PREV, position: panelRange.max + cameraRange.min - cameraRange.max + alignPos };
+  } else if (includeRange(minimumVisible, minimumVisible + visibleSize)) {
+    // Should be visible when the camera is at the max of the range
+    return { direction: DIRECTION.NEXT, position: panelRange.min + cameraRange.max - visibleSize + alignPos };
+  }
+
+  return { direction: DIRECTION.NONE, position: 0 };
+};
+
+export const isCircularToggled = (direction: ValueOf<typeof DIRECTION>, togglePosition: number, cameraPosition: number): boolean => {
+  if (direction === DIRECTION.PREV) return togglePosition >= cameraPosition;
+  if (direction === DIRECTION.NEXT) return togglePosition <= cameraPosition;
+
+  return false;
+};
+
 export const find = <T>(array: T[], checker: (val: T) => boolean): T | null => {
   for (const val of array) {
     if (checker(val)) {
@@ -243,3 +291,33 @@ export const getProgress = (pos: number, prev: number, next: number) => (pos - p
 
 // eslint-disable-next-line @typescript-eslint/no-unsafe-member-access
 export const getStyle = (el: HTMLElement): CSSStyleDeclaration => window.getComputedStyle(el) || (el as any).currentStyle as CSSStyleDeclaration;
+
+export const hasClass = (el: HTMLElement, className: string): boolean => {
+  if (el.classList) {
+    return el.classList.contains(className);
+  } else {
+    return new RegExp(`(^|\\s)${className}(\\s|$)`).test(el.className);
+  }
+};
+
+export const addClass = (el: HTMLElement, className: string): void => {
+  if (hasClass(el, className)) return;
+
+  if (el.classList) {
+    el.classList.add(className);
+  } else {
+    el.className = el.className ? `${el.className} ${className}` : className;
+  }
+};
+
+export const removeClass = (el: HTMLElement, className: string): void => {
+  if (!hasClass(el, className)) return;
+
+  if (el.classList) {
+    el.classList.remove(className);
+  } else {
+    el.className = el.className
+      .replace(new RegExp(`(^|\\s)${className}(\\s|$)`), " ")
+      .replace(/^\s+|\s+$/g, "");
+  }
+};
@@ -1,12 +1,16 @@
 import FlickingError from "~/core/FlickingError";
 import Viewport from "~/core/Viewport";
+import VirtualPanel from "~/core/panel/VirtualPanel";
 import Flicking from "~/Flicking";
 import * as ERROR from "~/const/error";
-import { ALIGN, DIRECTION, EVENTS, MOVE_TYPE } from "~/const/external";
+import { ALIGN, ANIMATION_POLICY, DIRECTION, EVENTS, MOVE_TYPE, STATUS_VERSION } from "~/const/external";
 import { AfterResizeEvent, BeforeResizeEvent } from "~/type/event";
+import { BoundCamera, CircularCamera, LinearCamera } from "~/camera";
+import { FreeControl, SnapControl } from "~/control";
+import { RawRenderingStrategy, VisibleRenderingStrategy } from "~/renderer";
 
 import El from "./helper/El";
-import { cleanup, createFlicking, range, simulate, tick } from "./helper/test-util";
+import { cleanup, createFlicking, flushPromises, range, simulate, tick } from "./helper/test-util";
 import { Plugin } from "~/type/external";
 
 describe("Flicking", () => {
@@ -153,6 +157,109 @@ describe("Flicking", () => {
 
         expect(flicking.horizontal).to.be.false;
       });
+
+      it("should add vertical class to the viewport element when changed to false", async () => {
+        const flicking = await createFlicking(El.DEFAULT_HORIZONTAL);
+
+        flicking.horizontal = false;
+
+        expect(flicking.element.classList.contains("vertical")).to.be.true;
+
+        flicking.horizontal = true;
+
+        expect(flicking.element.classList.contains("vertical")).to.be.false;
+      });
+
+      it("should keep the current panel when changed after init", async () => {
+        const flicking = await createFlicking(El.DEFAULT_HORIZONTAL, { defaultIndex: 1 });
+
+        flicking.horizontal = false;
+        await flicking.resize();
+
+        expect(flicking.index).to.equal(1);
+        expect(flicking.getPanel(1).element.parentElement).to.equal(flicking.camera.element);
+      });
+    });
+
+    describe("rtl", () => {
+      const rtlHorizontal = () => {
+        const el = El.DEFAULT_HORIZONTAL;
+
+        el.el.setAttribute("dir", "rtl");
+
+        return el;
+      };
+
+      it("is auto by default", async () => {
+        const flicking = await createFlicking(El.DEFAULT_HORIZONTAL);
+
+        expect(flicking.rtl).to.equal("auto");
+        expect(flicking.rtlEnabled).to.be.false;
+      });
+
+      it("should be enabled when the viewport element has rtl direction", async () => {
+        const flicking = await createFlicking(rtlHorizontal());
+
+        expect(flicking.rtlEnabled).to.be.true;
+      });
+
+      it("should not be enabled when it's set to false", async () => {
+        const flicking = await createFlicking(rtlHorizontal(), { rtl: false });
+
+        expect(flicking.rtlEnabled).to.be.false;
+      });
+
+      it("should not be enabled when horizontal is false", async () => {
+        const flicking = await createFlicking(rtlHorizontal(), { horizontal: false });
+
+        expect(flicking.rtlEnabled).to.be.false;
+      });
+
+      it("should show the panel at the viewport after moving to it", async () => {
+        const flicking = await createFlicking(rtlHorizontal(), { duration: 0 });
+
+        await flicking.moveTo(1);
+
+        const viewportRect = flicking.element.getBoundingClientRect();
+        const panelRect = flicking.panels[1].element.getBoundingClientRect();
+
+        expect(panelRect.left).to.be.closeTo(viewportRect.left, 1);
+        expect(panelRect.right).to.be.closeTo(viewportRect.right, 1);
+      });
+
+      it("should move to the next panel when dragged to the right", async () => {
+        const flicking = await createFlicking(rtlHorizontal());
+        const moveStartSpy = sinon.spy();
+
+        flicking.on(EVENTS.MOVE_START, moveStartSpy);
+
+        await simulate(flicking.element, { deltaX: 100, duration: 3000 });
+
+        expect(flicking.index).to.equal(1);
+        expect(moveStartSpy.firstCall.args[0].direction).to.equal(DIRECTION.NEXT);
+      });
+
+      it("should show the panel at the viewport on circular mode", async () => {
+        const flicking = await createFlicking(rtlHorizontal(), { circular: true, duration: 0, defaultIndex: 2 });
+
+        await flicking.next();
+
+        const viewportRect = flicking.element.getBoundingClientRect();
+        const panelRect = flicking.panels[0].element.getBoundingClientRect();
+
+        expect(flicking.index).to.equal(0);
+        expect(panelRect.left).to.be.closeTo(viewportRect.left, 1);
+      });
+
+      it("should place panels at the positions matching their elements with the gap", async () => {
+        const flicking = await createFlicking(rtlHorizontal(), { panelsPerView: 2, gap: 20 });
+        const [firstPanel, ...restPanels] = flicking.panels;
+
+        restPanels.forEach(panel => {
+          expect(panel.position - firstPanel.position)
+            .to.be.closeTo(firstPanel.element.offsetLeft - panel.element.offsetLeft, 1);
+        });
+      });
     });
 
     describe("circular", () => {
@@ -161,6 +268,35 @@ describe("Flicking", () => {
 
         expect(flicking.circular).to.be.false;
       });
+
+      it("should change camera to CircularCamera when changed to true", async () => {
+        const flicking = await createFlicking(El.DEFAULT_HORIZONTAL, { defaultIndex: 2 });
+
+        flicking.circular = true;
+
+        expect(flicking.camera).to.be.an.instanceOf(CircularCamera);
+        expect(flicking.index).to.equal(2);
+      });
+
+      it("should change camera back to LinearCamera when changed to false", async () => {
+        const flicking = await createFlicking(El.DEFAULT_HORIZONTAL, { circular: true });
+
+        flicking.circular = false;
+
+        expect(flicking.camera).to.be.an.instanceOf(LinearCamera);
+        expect(flicking.circularEnabled).to.be.false;
+      });
+
+      it("should replace the camera even if rendering the panels fails", async () => {
+        const flicking = await createFlicking(El.DEFAULT_HORIZONTAL);
+
+        sinon.stub(flicking.renderer, "render").rejects(new Error("render failed"));
+        flicking.circular = true;
+        await flushPromises();
+
+        expect(() => tick(0)).not.to.throw();
+        expect(flicking.camera).to.be.an.instanceOf(CircularCamera);
+      });
     });
 
     describe("bound", () => {
@@ -169,6 +305,15 @@ describe("Flicking", () => {
 
         expect(flicking.bound).to.be.false;
       });
+
+      it("should change camera to BoundCamera when changed to true", async () => {
+        const flicking = await createFlicking(El.DEFAULT_HORIZONTAL, { defaultIndex: 1 });
+
+        flicking.bound = true;
+
+        expect(flicking.camera).to.be.an.instanceOf(BoundCamera);
+        expect(flicking.index).to.equal(1);
+      });
     });
 
     describe("adaptive", () => {
@@ -179,6 +324,198 @@ describe("Flicking", () => {
       });
     });
 
+    describe("panelsPerView", () => {
+      it("is -1 by default", async () => {
+        const flicking = await createFlicking(El.DEFAULT_HORIZONTAL);
+
+        expect(flicking.panelsPerView).to.equal(-1);
+      });
+
+      it("should recalculate panel sizes on resize", async () => {
+        const flicking = await createFlicking(El.DEFAULT_HORIZONTAL, { panelsPerView: 2 });
+
+        flicking.viewport.setSize({ width: 600 });
+        await flicking.resize();
+
+        expect(flicking.panels.every(panel => panel.size === 300)).to.be.true;
+      });
+
+      it("should restore the styles of the panels when panelsPerView is set back to -1", async () => {
+        const flicking = await createFlicking(El.DEFAULT_HORIZONTAL, { panelsPerView: 2, gap: 20 });
+
+        flicking.panelsPerView = -1;
+        await flicking.resize();
+
+        flicking.panels.forEach(panel => {
+          const elStyle = panel.element.style;
+
+          expect(elStyle.width).to.equal("100%");
+          expect(elStyle.marginLeft).to.equal("");
+          expect(elStyle.marginRight).to.equal("");
+          expect(panel.size).to.equal(flicking.viewport.width);
+          expect(panel.margin).to.deep.equal({ prev: 0, next: 0 });
+        });
+      });
+    });
+
+    describe("gap", () => {
+      it("is 0 by default", async () => {
+        const flicking = await createFlicking(El.DEFAULT_HORIZONTAL);
+
+        expect(flicking.gap).to.equal(0);
+      });
+
+      it("should place panels at the positions matching their elements", async () => {
+        const flicking = await createFlicking(El.DEFAULT_HORIZONTAL, { panelsPerView: 2, gap: 20 });
+        const [firstPanel, ...restPanels] = flicking.panels;
+
+        restPanels.forEach(panel => {
+          expect(panel.position - firstPanel.position)
+            .to.be.closeTo(panel.element.offsetLeft - firstPanel.element.offsetLeft, 1);
+        });
+      });
+    });
+
+    describe("fade", () => {
+      it("is false by default", async () => {
+        const flicking = await createFlicking(El.DEFAULT_HORIZONTAL);
+
+        expect(flicking.fade).to.be.false;
+      });
+
+      it("should not translate the camera and stack panels with opacity", async () => {
+        const flicking = await createFlicking(El.DEFAULT_HORIZONTAL, { fade: true, duration: 0 });
+
+        await flicking.moveTo(1);
+
+        const panelEls = flicking.panels.map(panel => panel.element);
+
+        expect(flicking.camera.element.style.transform).to.equal("");
+        expect(panelEls.map(el => el.getBoundingClientRect().left))
+          .to.deep.equal(panelEls.map(() => flicking.element.getBoundingClientRect().left));
+        expect(panelEls.map(el => el.style.opacity)).to.deep.equal(["0", "1", "0"]);
+        expect(panelEls[0].style.visibility).to.equal("hidden");
+      });
+
+      it("should crossfade between the panels while moving", async () => {
+        const flicking = await createFlicking(El.DEFAULT_HORIZONTAL, { fade: true });
+        const camera = flicking.camera;
+
+        await camera.lookAt((flicking.panels[0].position + flicking.panels[1].position) / 2);
+
+        expect(flicking.panels[0].element.style.opacity).to.equal("0.5");
+        expect(flicking.panels[1].element.style.opacity).to.equal("0.5");
+      });
+
+      it("should restore the panel styles when it's disabled", async () => {
+        const flicking = await createFlicking(El.DEFAULT_HORIZONTAL, { fade: true });
+
+        flicking.fade = false;
+        await flicking.camera.lookAt(flicking.camera.position);
+
+        expect(flicking.camera.element.style.transform).not.to.equal("");
+        expect(flicking.panels.every(panel => panel.element.style.opacity === "")).to.be.true;
+        expect(flicking.panels.every(panel => panel.element.style.transform === "")).to.be.true;
+      });
+    });
+
+    describe("breakpoints", () => {
+      it("is an empty object by default", async () => {
+        const flicking = await createFlicking(El.DEFAULT_HORIZONTAL);
+
+        expect(flicking.breakpoints).to.deep.equal({});
+        expect(flicking.breakpoint).to.be.null;
+      });
+
+      it("should apply options of the largest breakpoint that is not bigger than the viewport width on init", async () => {
+        const flicking = await createFlicking(El.DEFAULT_HORIZONTAL, {
+          threshold: 40,
+          breakpoints: {
+            0: { threshold: 10 },
+            500: { threshold: 20 },
+            5000: { threshold: 30 }
+          }
+        });
+
+        expect(flicking.breakpoint).to.equal(500);
+        expect(flicking.threshold).to.equal(20);
+      });
+
+      it("should restore initial options when the viewport gets smaller than the breakpoint", async () => {
+        const flicking = await createFlicking(El.DEFAULT_HORIZONTAL, {
+          threshold: 40,
+          breakpoints: {
+            500: { threshold: 20 }
+          }
+        });
+
+        flicking.viewport.setSize({ width: 400 });
+        await flicking.resize();
+
+        expect(flicking.breakpoint).to.be.null;
+        expect(flicking.threshold).to.equal(40);
+      });
+
+      it("should restore the options changed while they're not overridden by the breakpoint", async () => {
+        const flicking = await createFlicking(El.DEFAULT_HORIZONTAL, {
+          threshold: 40,
+          breakpoints: {
+            500: { threshold: 20 }
+          }
+        });
+
+        flicking.viewport.setSize({ width: 400 });
+        await flicking.resize();
+        flicking.threshold = 50;
+
+        flicking.viewport.setSize({ width: 1000 });
+        await flicking.resize();
+        expect(flicking.threshold).to.equal(20);
+
+        flicking.viewport.setSize({ width: 400 });
+        await flicking.resize();
+        expect(flicking.threshold).to.equal(50);
+      });
+
+      it("should replace components and keep the current panel when the breakpoint changes", async () => {
+        const flicking = await createFlicking(El.DEFAULT_HORIZONTAL, {
+          defaultIndex: 2,
+          breakpoints: {
+            1200: { circular: true, moveType: MOVE_TYPE.FREE_SCROLL }
+          }
+        });
+
+        flicking.viewport.setSize({ width: 1500 });
+        await flicking.resize();
+
+        expect(flicking.circular).to.be.true;
+        expect(flicking.camera).to.be.an.instanceOf(CircularCamera);
+        expect(flicking.control).to.be.an.instanceOf(FreeControl);
+        expect(flicking.index).to.equal(2);
+      });
+
+      it("should trigger breakpointChange event when the breakpoint changes", async () => {
+        const flicking = await createFlicking(El.DEFAULT_HORIZONTAL, {
+          breakpoints: {
+            500: { align: ALIGN.PREV }
+          }
+        });
+        const breakpointChangeSpy = sinon.spy();
+        flicking.on(EVENTS.BREAKPOINT_CHANGE, breakpointChangeSpy);
+
+        await flicking.resize();
+        expect(breakpointChangeSpy.called).to.be.false;
+
+        flicking.viewport.setSize({ width: 400 });
+        await flicking.resize();
+
+        expect(breakpointChangeSpy.calledOnce).to.be.true;
+        expect(breakpointChangeSpy.firstCall.args[0].breakpoint).to.be.null;
+        expect(breakpointChangeSpy.firstCall.args[0].prevBreakpoint).to.equal(500);
+        expect(flicking.align).to.equal(ALIGN.CENTER);
+      });
+    });
+
     describe("deceleration", () => {
       it("is 0.0075 by default", async () => {
         const flicking = await createFlicking(El.DEFAULT_HORIZONTAL);
@@ -207,12 +544,41 @@ describe("Flicking", () => {
       });
     });
 
+    describe("animationPolicy", () => {
+      it("is \"reject\" by default", async () => {
+        const flicking = await createFlicking(El.DEFAULT_HORIZONTAL);
+
+        expect(flicking.animationPolicy).to.equal(ANIMATION_POLICY.REJECT);
+      });
+
+      it("should be used as the default policy of the moves", async () => {
+        const flicking = await createFlicking(El.DEFAULT_HORIZONTAL, { animationPolicy: ANIMATION_POLICY.QUEUE });
+
+        void flicking.moveTo(1, 1000);
+        const queuedMove = flicking.moveTo(2, 0);
+        tick(10000);
+        await queuedMove;
+
+        expect(flicking.index).to.equal(2);
+      });
+    });
+
     describe("inputType", () => {
       it("is ['mouse', 'touch'] by default", async () => {
         const flicking = await createFlicking(El.DEFAULT_HORIZONTAL);
 
         expect(flicking.inputType).to.deep.equal(["mouse", "touch"]);
       });
+
+      it("should recreate the input of the control when changed after init", async () => {
+        const flicking = await createFlicking(El.DEFAULT_HORIZONTAL);
+        const prevPanInput = flicking.control.controller.panInput;
+
+        flicking.inputType = ["touch"];
+
+        expect(flicking.control.controller.panInput).not.to.equal(prevPanInput);
+        expect(flicking.control.controller.panInput.options.inputType).to.deep.equal(["touch"]);
+      });
     });
 
     describe("moveType", () => {
@@ -221,6 +587,53 @@ describe("Flicking", () => {
 
         expect(flicking.moveType).to.equal("snap");
       });
+
+      it("should change control when changed after init", async () => {
+        const flicking = await createFlicking(El.DEFAULT_HORIZONTAL, { defaultIndex: 2 });
+
+        flicking.moveType = MOVE_TYPE.FREE_SCROLL;
+
+        expect(flicking.control).to.be.an.instanceOf(FreeControl);
+        expect(flicking.index).to.equal(2);
+      });
+
+      it("should stop the animation playing before changing the control", async () => {
+        const flicking = await createFlicking(El.DEFAULT_HORIZONTAL);
+        const moveEndSpy = sinon.spy();
+
+        flicking.on(EVENTS.MOVE_END, moveEndSpy);
+
+        const move = flicking.moveTo(2, 1000).catch(e => e);
+        tick(300);
+        const position = flicking.camera.position;
+        flicking.moveType = MOVE_TYPE.FREE_SCROLL;
+        tick(10000);
+
+        expect(await move)
+          .to.be.instanceOf(FlickingError)
+          .with.property("code", ERROR.CODE.ANIMATION_INTERRUPTED);
+        expect(moveEndSpy.calledOnce).to.be.true;
+        expect(flicking.animating).to.be.false;
+        expect(flicking.camera.position).to.equal(position);
+        expect(flicking.control.controller.position).to.equal(position);
+      });
+
+      it("should throw an error and keep the previous control when given moveType is wrong", async () => {
+        const flicking = await createFlicking(El.DEFAULT_HORIZONTAL);
+        const prevControl = flicking.control;
+
+        expect(() => flicking.moveType = "WRONG_TYPE" as any).to.throw(FlickingError)
+          .with.property("code", ERROR.CODE.WRONG_OPTION);
+        expect(flicking.moveType).to.equal(MOVE_TYPE.SNAP);
+        expect(flicking.control).to.equal(prevControl);
+      });
+
+      it("should apply the given options to the control", async () => {
+        const flicking = await createFlicking(El.DEFAULT_HORIZONTAL, { moveType: [MOVE_TYPE.SNAP, { count: 1 }] });
+
+        expect(flicking.control).to.be.an.instanceOf(SnapControl);
+        expect(flicking.control).to.have.property("count", 1);
+      });
     });
 
     describe("threshold", () => {
@@ -348,6 +761,18 @@ describe("Flicking", () => {
 
         expect(flicking.renderOnlyVisible).to.equal(false);
       });
+
+      it("should change rendering strategy when changed after init", async () => {
+        const flicking = await createFlicking(El.DEFAULT_HORIZONTAL);
+
+        flicking.renderOnlyVisible = true;
+
+        expect(flicking.renderer.strategy).to.be.an.instanceOf(VisibleRenderingStrategy);
+
+        flicking.renderOnlyVisible = false;
+
+        expect(flicking.renderer.strategy).to.be.an.instanceOf(RawRenderingStrategy);
+      });
     });
 
     describe("autoInit", () => {
@@ -1064,6 +1489,42 @@ describe("Flicking", () => {
         expect(moveToSpy.secondCall.calledWith(flicking.getPanel(2), { duration: 2000, direction: DIRECTION.NEXT })).to.be.true;
       });
 
+      it("should move to the first panel of the next page when panelsPerPage is set", async () => {
+        const flicking = await createFlicking(
+          El.viewport("1000px").add(El.camera().add(...range(5).map(() => El.panel()))),
+          { align: ALIGN.PREV, panelsPerView: 2, panelsPerPage: 2 }
+        );
+
+        await next(flicking);
+        expect(flicking.index).to.equal(2);
+
+        await next(flicking);
+        expect(flicking.index).to.equal(4);
+      });
+
+      it("should move to the partial last page when bound is enabled", async () => {
+        const flicking = await createFlicking(
+          El.viewport("1000px").add(El.camera().add(...range(5).map(() => El.panel()))),
+          { align: ALIGN.PREV, bound: true, panelsPerView: 2, panelsPerPage: 2, defaultIndex: 2 }
+        );
+
+        await next(flicking);
+
+        expect(flicking.index).to.equal(4);
+        expect(flicking.camera.position).to.equal(flicking.camera.range.max);
+      });
+
+      it("should move to the first page from the last page when circular is enabled", async () => {
+        const flicking = await createFlicking(
+          El.viewport("1000px").add(El.camera().add(...range(5).map(() => El.panel()))),
+          { align: ALIGN.PREV, circular: true, panelsPerView: 2, panelsPerPage: 2, defaultIndex: 4 }
+        );
+
+        await next(flicking);
+
+        expect(flicking.index).to.equal(0);
+      });
+
       it("should throw FlickingError with code INDEX_OUT_OF_RANGE if called on the last index", async () => {
         const flicking = await createFlicking(El.DEFAULT_HORIZONTAL, { defaultIndex: 2 });
 
@@ -1117,6 +1578,17 @@ describe("Flicking", () => {
         expect(moveToSpy.secondCall.calledWith(flicking.getPanel(0), { duration: 2000, direction: DIRECTION.PREV })).to.be.true;
       });
 
+      it("should move to the first panel of the previous page when panelsPerPage is set", async () => {
+        const flicking = await createFlicking(
+          El.viewport("1000px").add(El.camera().add(...range(5).map(() => El.panel()))),
+          { align: ALIGN.PREV, panelsPerView: 2, panelsPerPage: 2, defaultIndex: 4 }
+        );
+
+        await prev(flicking);
+
+        expect(flicking.index).to.equal(2);
+      });
+
       it("should throw FlickingError with code INDEX_OUT_OF_RANGE if called on the first index", async () => {
         const flicking = await createFlicking(El.DEFAULT_HORIZONTAL, { defaultIndex: 0 });
 
@@ -1177,6 +1649,232 @@ describe("Flicking", () => {
           .to.be.instanceOf(FlickingError)
           .with.property("code", ERROR.CODE.ANIMATION_ALREADY_PLAYING);
       });
+
+      it("should move after the current animation if the policy is queue", async () => {
+        const flicking = await createFlicking(El.DEFAULT_HORIZONTAL);
+        const changedSpy = sinon.spy();
+
+        flicking.on(EVENTS.CHANGED, changedSpy);
+        void flicking.moveTo(1, 1000);
+        const queuedMove = flicking.moveTo(2, 0, DIRECTION.NONE, ANIMATION_POLICY.QUEUE);
+        tick(10000);
+        await queuedMove;
+
+        expect(flicking.index).to.equal(2);
+        expect(changedSpy.calledTwice).to.be.true;
+        expect(changedSpy.firstCall.args[0].index).to.equal(1);
+        expect(changedSpy.secondCall.args[0].index).to.equal(2);
+      });
+
+      it("should move from the panel reached by the previous move when prev/next is queued", async () => {
+        const flicking = await createFlicking(El.DEFAULT_HORIZONTAL);
+
+        void flicking.next(1000);
+        const queuedMove = flicking.next(0, ANIMATION_POLICY.QUEUE);
+        tick(10000);
+        await queuedMove;
+
+        expect(flicking.index).to.equal(2);
+      });
+
+      it("should retarget the current animation if the policy is interrupt", async () => {
+        const flicking = await createFlicking(El.DEFAULT_HORIZONTAL);
+        const changedSpy = sinon.spy();
+        const moveEndSpy = sinon.spy();
+
+        flicking.on(EVENTS.CHANGED, changedSpy);
+        flicking.on(EVENTS.MOVE_END, moveEndSpy);
+
+        const prevMove = flicking.moveTo(1, 1000).catch(e => e);
+        tick(500);
+        const newMove = flicking.moveTo(2, 1000, DIRECTION.NONE, ANIMATION_POLICY.INTERRUPT);
+        tick(10000);
+        await newMove;
+
+        expect(await prevMove)
+          .to.be.instanceOf(FlickingError)
+          .with.property("code", ERROR.CODE.ANIMATION_INTERRUPTED);
+        expect(flicking.index).to.equal(2);
+        expect(changedSpy.calledOnce).to.be.true;
+        expect(changedSpy.firstCall.args[0].prevIndex).to.equal(0);
+        expect(moveEndSpy.calledOnce).to.be.true;
+      });
+
+      it("should resolve the finished move when it moves again in the moveEnd event handler", async () => {
+        const flicking = await createFlicking(El.DEFAULT_HORIZONTAL);
+        const nextMove: { move?: Promise<void> } = {};
+
+        flicking.once(EVENTS.MOVE_END, () => {
+          nextMove.move = flicking.moveTo(2, 1000);
+        });
+
+        const move = flicking.moveTo(1, 1000);
+        tick(1000);
+        await move;
+
+        expect(nextMove.move).to.be.an.instanceOf(Promise);
+
+        tick(10000);
+        await nextMove.move;
+
+        expect(flicking.index).to.equal(2);
+      });
+
+      it("should reject the queued moves when Flicking is destroyed", async () => {
+        const flicking = await createFlicking(El.DEFAULT_HORIZONTAL);
+
+        void flicking.moveTo(1, 1000);
+        const queuedMove = flicking.moveTo(2, 0, DIRECTION.NONE, ANIMATION_POLICY.QUEUE).catch(e => e);
+        flicking.destroy();
+
+        expect(await queuedMove)
+          .to.be.instanceOf(FlickingError)
+          .with.property("code", ERROR.CODE.NOT_INITIALIZED);
+      });
+
+      it("should reject the queued move when its signal is aborted, and start the next one in order", async () => {
+        const flicking = await createFlicking(El.DEFAULT_HORIZONTAL);
+        const controller = new AbortController();
+
+        void flicking.moveTo(1, 1000);
+        const abortedMove = flicking.moveTo(0, { duration: 0, signal: controller.signal, policy: ANIMATION_POLICY.QUEUE }).catch(e => e);
+        const queuedMove = flicking.moveTo(2, 0, DIRECTION.NONE, ANIMATION_POLICY.QUEUE);
+        controller.abort();
+
+        expect(await abortedMove)
+          .to.be.instanceOf(FlickingError)
+          .with.property("code", ERROR.CODE.ANIMATION_ABORTED);
+
+        tick(10000);
+        await queuedMove;
+
+        expect(flicking.index).to.equal(2);
+      });
+
+      it("should accept the options object instead of the duration", async () => {
+        const flicking = await createFlicking(El.DEFAULT_HORIZONTAL, { duration: 1000 });
+
+        void flicking.moveTo(2, { duration: 0 });
+
+        expect(flicking.index).to.equal(2);
+        expect(flicking.animating).to.be.false;
+      });
+
+      it("should apply the easing of the options to that animation only", async () => {
+        const flicking = await createFlicking(El.DEFAULT_HORIZONTAL);
+        const axesEasing = flicking.control.controller.axes.options.easing;
+        const startPos = flicking.camera.position;
+        const endPos = flicking.getPanel(1).position;
+
+        const move = flicking.moveTo(1, { duration: 1000, easing: x => x });
+        tick(500);
+
+        expect(flicking.camera.position).to.be.closeTo((startPos + endPos) / 2, 20);
+        expect(flicking.control.controller.axes.options.easing).to.equal(axesEasing);
+
+        tick(10000);
+        await move;
+
+        void flicking.moveTo(0, 1000);
+        tick(500);
+
+        expect(flicking.camera.position).to.be.closeTo(endPos + (startPos - endPos) * flicking.easing(0.5), 20);
+      });
+
+      it("should stop at the current position and reject with ANIMATION_ABORTED when the signal is aborted", async () => {
+        const flicking = await createFlicking(El.DEFAULT_HORIZONTAL);
+        const controller = new AbortController();
+        const moveEndSpy = sinon.spy();
+
+        flicking.on(EVENTS.MOVE_END, moveEndSpy);
+
+        const move = flicking.moveTo(2, { duration: 1000, signal: controller.signal }).catch(e => e);
+        tick(500);
+        const stoppedPos = flicking.camera.position;
+        controller.abort();
+        tick(10000);
+
+        expect(await move)
+          .to.be.instanceOf(FlickingError)
+          .with.property("code", ERROR.CODE.ANIMATION_ABORTED);
+        expect(flicking.animating).to.be.false;
+        expect(flicking.camera.position).to.equal(stoppedPos);
+        expect(flicking.index).to.equal(0);
+        expect(moveEndSpy.calledOnce).to.be.true;
+        expect(moveEndSpy.firstCall.args[0].isTrusted).to.be.false;
+        expect(moveEndSpy.firstCall.args[0].axesEvent).to.be.null;
+      });
+
+      it("should not move if the signal is already aborted", async () => {
+        const flicking = await createFlicking(El.DEFAULT_HORIZONTAL);
+        const controller = new AbortController();
+        const willChangeSpy = sinon.spy();
+
+        flicking.on(EVENTS.WILL_CHANGE, willChangeSpy);
+        controller.abort();
+
+        const err = await flicking.next({ signal: controller.signal }).catch(e => e);
+
+        expect(err)
+          .to.be.instanceOf(FlickingError)
+          .with.property("code", ERROR.CODE.ANIMATION_ABORTED);
+        expect(willChangeSpy.called).to.be.false;
+        expect(flicking.index).to.equal(0);
+      });
+    });
+
+    describe("resize()", () => {
+      it("should retarget the animation playing to the new position of the destination panel", async () => {
+        const flicking = await createFlicking(El.DEFAULT_HORIZONTAL);
+        const changedSpy = sinon.spy();
+
+        flicking.on(EVENTS.CHANGED, changedSpy);
+
+        const move = flicking.moveTo(2, 1000);
+        tick(300);
+        flicking.viewport.setSize({ width: 600 });
+        await flicking.resize();
+        tick(10000);
+        await move;
+
+        expect(flicking.index).to.equal(2);
+        expect(flicking.camera.position).to.equal(flicking.getPanel(2).position);
+        expect(changedSpy.calledOnce).to.be.true;
+      });
+
+      it("should keep the remaining duration of the animation", async () => {
+        const flicking = await createFlicking(El.DEFAULT_HORIZONTAL);
+
+        const move = flicking.moveTo(2, 1000);
+        tick(300);
+        flicking.viewport.setSize({ width: 600 });
+        await flicking.resize();
+
+        expect(flicking.animating).to.be.true;
+
+        tick(750);
+
+        expect(flicking.animating).to.be.false;
+        await move;
+      });
+
+      it("should update the input after the animation ends, instead of while it's playing", async () => {
+        const flicking = await createFlicking(El.DEFAULT_HORIZONTAL);
+        const updateSpy = sinon.spy(flicking.control.controller, "update");
+
+        const move = flicking.moveTo(2, 1000);
+        tick(300);
+        flicking.viewport.setSize({ width: 600 });
+        await flicking.resize();
+
+        expect(updateSpy.called).to.be.false;
+
+        tick(10000);
+        await move;
+
+        expect(updateSpy.calledOnce).to.be.true;
+        expect(flicking.control.controller.position).to.equal(flicking.camera.position);
+      });
     });
 
     describe("getStatus()", () => {
@@ -1354,17 +2052,142 @@ describe("Flicking", () => {
         expect(flicking.camera.position).equals(flicking.camera.range.max);
       });
 
-      it("should not move to the given camera position if moveType is not freeScroll", async () => {
+      it("should move to the given camera position if moveType is snap", async () => {
         const flicking = await createFlicking(El.DEFAULT_HORIZONTAL, { moveType: MOVE_TYPE.SNAP });
         const status = flicking.getStatus({ index: false, position: true });
-        const prevPosition = flicking.camera.position;
 
         flicking.setStatus({ ...status, position: { panel: flicking.panelCount - 1, progressInPanel: 1 } });
 
+        expect(flicking.index).to.equal(flicking.panelCount - 1);
+        expect(flicking.camera.position).equals(flicking.camera.range.max);
+      });
+
+      it("should move to the nearest anchor of the given camera position if moveType is snap", async () => {
+        const flicking = await createFlicking(El.DEFAULT_HORIZONTAL, { moveType: MOVE_TYPE.SNAP });
+        const status = flicking.getStatus({ index: false, position: true });
+        const anchors = flicking.camera.anchorPoints;
+
+        flicking.setStatus({ ...status, position: { panel: 1, progressInPanel: 0.3 } });
+
+        expect(flicking.index).to.equal(1);
+        expect(flicking.camera.position).to.equal(anchors[1].position);
+        expect(flicking.control.controller.position).to.equal(anchors[1].position);
+      });
+
+      it("should restore the index instead of the camera position if moveType is snap", async () => {
+        const flicking = await createFlicking(El.DEFAULT_HORIZONTAL, { moveType: MOVE_TYPE.SNAP });
+        const status = flicking.getStatus({ index: true, position: true });
+
+        flicking.setStatus({ ...status, index: 1, position: { panel: flicking.panelCount - 1, progressInPanel: 1 } });
+
+        expect(flicking.index).to.equal(1);
+        expect(flicking.camera.position).to.equal(flicking.panels[1].position);
+      });
+
+      it("should not move to the given camera position of the status without version if moveType is not freeScroll", async () => {
+        const flicking = await createFlicking(El.DEFAULT_HORIZONTAL, { moveType: MOVE_TYPE.SNAP });
+        const prevPosition = flicking.camera.position;
+
+        flicking.setStatus({ position: { panel: flicking.panelCount - 1, progressInPanel: 1 }, panels: [] });
+
         expect(flicking.camera.position).equals(prevPosition);
         expect(flicking.camera.position).not.equals(flicking.camera.range.max);
       });
 
+      it("should restore the exact camera position", async () => {
+        const flicking = await createFlicking(El.DEFAULT_HORIZONTAL, { moveType: MOVE_TYPE.FREE_SCROLL });
+        const position = (flicking.panels[0].position + flicking.panels[1].position) / 3;
+
+        await flicking.control.moveToPosition(position, 0);
+        const status = flicking.getStatus();
+
+        await flicking.moveTo(2, 0);
+        flicking.setStatus(JSON.parse(JSON.stringify(status)));
+
+        expect(status.version).to.equal(STATUS_VERSION);
+        expect(flicking.camera.position).to.equal(position);
+      });
+
+      it("should restore the camera position on circular mode", async () => {
+        const flicking = await createFlicking(El.DEFAULT_HORIZONTAL, { circular: true, defaultIndex: 0 });
+
+        await flicking.prev(0);
+        const status = flicking.getStatus();
+        const position = flicking.camera.position;
+
+        await flicking.moveTo(1, 0);
+        flicking.setStatus(status);
+
+        expect(flicking.index).to.equal(2);
+        expect(flicking.camera.position).to.equal(position);
+        expect(flicking.panels[2].element.getBoundingClientRect().left).to.be.closeTo(flicking.element.getBoundingClientRect().left, 1);
+      });
+
+      it("should throw INVALID_STATUS error when the status is malformed", async () => {
+        const flicking = await createFlicking(El.DEFAULT_HORIZONTAL);
+
+        expect(() => flicking.setStatus(null))
+          .to.throw(FlickingError)
+          .with.property("code", ERROR.CODE.INVALID_STATUS);
+        expect(() => flicking.setStatus({ index: 0.5, panels: [] }))
+          .to.throw(FlickingError)
+          .with.property("code", ERROR.CODE.INVALID_STATUS);
+        expect(() => flicking.setStatus({ position: { panel: 0, progressInPanel: NaN }, panels: [] }))
+          .to.throw(FlickingError)
+          .with.property("code", ERROR.CODE.INVALID_STATUS);
+        expect(() => flicking.setStatus({ index: 0 } as any))
+          .to.throw(FlickingError)
+          .with.property("code", ERROR.CODE.INVALID_STATUS);
+        expect(() => flicking.setStatus({ panels: [{ index: 0, html: "<div></div><div></div>" }] }))
+          .to.throw(FlickingError)
+          .with.property("code", ERROR.CODE.INVALID_STATUS);
+      });
+
+      it("should throw INCOMPATIBLE_STATUS error when the status can't be restored", async () => {
+        const flicking = await createFlicking(El.DEFAULT_HORIZONTAL);
+        const status = flicking.getStatus();
+
+        expect(() => flicking.setStatus({ ...status, version: STATUS_VERSION + 1 }))
+          .to.throw(FlickingError)
+          .with.property("code", ERROR.CODE.INCOMPATIBLE_STATUS);
+        expect(() => flicking.setStatus({ ...status, index: flicking.panelCount }))
+          .to.throw(FlickingError)
+          .with.property("code", ERROR.CODE.INCOMPATIBLE_STATUS);
+        expect(() => flicking.setStatus({ ...status, circular: true }))
+          .to.throw(FlickingError)
+          .with.property("code", ERROR.CODE.INCOMPATIBLE_STATUS);
+        expect(() => flicking.setStatus({ ...status, panels: [{ index: 0, data: 1 }] }))
+          .to.throw(FlickingError)
+          .with.property("code", ERROR.CODE.INCOMPATIBLE_STATUS);
+      });
+
+      it("should keep the panels when the status with panel HTML can't be restored", async () => {
+        const flicking = await createFlicking(El.DEFAULT_HORIZONTAL, { moveType: MOVE_TYPE.FREE_SCROLL });
+        const status = flicking.getStatus({ includePanelHTML: true });
+        const prevPanels = [...flicking.panels];
+
+        expect(() => flicking.setStatus({ ...status, circular: true }))
+          .to.throw(FlickingError)
+          .with.property("code", ERROR.CODE.INCOMPATIBLE_STATUS);
+        expect(() => flicking.setStatus({ ...status, index: status.panels.length }))
+          .to.throw(FlickingError)
+          .with.property("code", ERROR.CODE.INCOMPATIBLE_STATUS);
+        expect(flicking.panels).to.have.ordered.members(prevPanels);
+      });
+
+      it("should restore the panels from the data on virtual mode", async () => {
+        const flicking = await createFlicking(El.viewport("1000px").add(El.camera()), {
+          virtual: { data: [0, 1, 2], panelSize: 200, renderPanel: (el, index, data) => { el.innerHTML = `${data}`; } }
+        });
+        const status = flicking.getStatus({ includePanelData: true });
+
+        flicking.remove(0, 2);
+        flicking.setStatus(status);
+
+        expect(status.panels.map(panel => panel.data)).to.deep.equal([0, 1, 2]);
+        expect(flicking.panels.map(panel => (panel as VirtualPanel).data)).to.deep.equal([0, 1, 2]);
+      });
+
       it("should restore index using the visible offset if given", async () => {
         const flicking = await createFlicking(
           El.viewport("1000px", "400px").add(
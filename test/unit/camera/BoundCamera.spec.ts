@@ -64,6 +64,34 @@ describe("BoundCamera", () => {
           max: flicking.getPanel(2).range.max - camera.alignPosition
         });
       });
+
+      it("should not set bound range when panel count is not bigger than panelsPerView", async () => {
+        const camera = new BoundCamera();
+        const flicking = await createFlicking(El.DEFAULT_HORIZONTAL, { panelsPerView: 3 });
+
+        camera.init(flicking);
+        camera.updateAlignPos();
+        camera.updateRange();
+
+        expect(camera.range).to.deep.equal({
+          min: flicking.getPanel(0).position,
+          max: flicking.getPanel(2).position
+        });
+      });
+
+      it("should set bound range when panel count is bigger than panelsPerView", async () => {
+        const camera = new BoundCamera();
+        const flicking = await createFlicking(El.DEFAULT_HORIZONTAL, { panelsPerView: 2.5 });
+
+        camera.init(flicking);
+        camera.updateAlignPos();
+        camera.updateRange();
+
+        expect(camera.range).to.deep.equal({
+          min: flicking.getPanel(0).range.min + camera.alignPosition,
+          max: flicking.getPanel(2).range.max - camera.size + camera.alignPosition
+        });
+      });
     });
   });
 });
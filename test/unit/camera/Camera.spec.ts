@@ -3,7 +3,7 @@ import Camera from "~/camera/Camera";
 import FlickingError from "~/core/FlickingError";
 import * as ERROR from "~/const/error";
 
-import { createFlicking } from "../helper/test-util";
+import { createFlicking, range } from "../helper/test-util";
 import El from "../helper/El";
 
 class CameraImpl extends Camera {
@@ -251,6 +251,42 @@ describe("Camera", () => {
       });
     });
 
+    describe("applyPanelEffects", () => {
+      it("should call applyEffect of the panel effect plugins for every visible panel", async () => {
+        const flicking = await createFlicking(El.DEFAULT_HORIZONTAL);
+        const effect = { init: sinon.spy(), destroy: sinon.spy(), update: sinon.spy(), applyEffect: sinon.spy() };
+
+        flicking.addPlugins(effect);
+        effect.applyEffect.resetHistory();
+        flicking.camera.applyPanelEffects();
+
+        expect(effect.applyEffect.callCount).to.equal(flicking.visiblePanels.length);
+        expect(effect.applyEffect.firstCall.args[0]).to.equal(flicking.panels[0]);
+        expect(effect.applyEffect.firstCall.args[1]).to.deep.equal({
+          progress: flicking.panels[0].progress,
+          outsetProgress: flicking.panels[0].outsetProgress,
+          visibleRatio: flicking.panels[0].visibleRatio
+        });
+      });
+
+      it("should be called on lookAt, including the panels that became invisible", async () => {
+        const flicking = await createFlicking(El.viewport("1000px").add(El.camera().add(...range(5).map(() => El.panel("100%")))));
+        const camera = flicking.camera;
+        const effect = { init: sinon.spy(), destroy: sinon.spy(), update: sinon.spy(), applyEffect: sinon.spy() };
+
+        flicking.addPlugins(effect);
+        await camera.lookAt(flicking.panels[1].position);
+        effect.applyEffect.resetHistory();
+        await camera.lookAt(flicking.panels[3].position);
+
+        const appliedPanels = effect.applyEffect.getCalls().map(call => call.args[0]);
+
+        expect(appliedPanels).to.include(flicking.panels[1]);
+        expect(appliedPanels).to.include(flicking.panels[3]);
+        expect(flicking.visiblePanels).not.to.include(flicking.panels[1]);
+      });
+    });
+
     describe("findAnchorIncludePosition", () => {
       it("should return panel at given position", async () => {
         const camera = new CameraImpl();
@@ -400,6 +436,61 @@ describe("Camera", () => {
       });
     });
 
+    describe("updateAnchors", () => {
+      it("should create anchors for every panel by default", async () => {
+        const camera = new CameraImpl();
+        const flicking = await createFlicking(El.DEFAULT_HORIZONTAL);
+
+        camera.init(flicking);
+        camera.updateAnchors();
+
+        expect(camera.anchorPoints.map(anchor => anchor.panel)).to.deep.equal(flicking.panels);
+      });
+
+      it("should create anchors only for the first panels of pages when panelsPerPage is set", async () => {
+        const camera = new CameraImpl();
+        const flicking = await createFlicking(
+          El.viewport("1000px").add(El.camera().add(...range(5).map(() => El.panel()))),
+          { panelsPerView: 2, panelsPerPage: 2 }
+        );
+
+        camera.init(flicking);
+        camera.updateAnchors();
+
+        expect(camera.anchorPoints.map(anchor => anchor.panel.index)).to.deep.equal([0, 2, 4]);
+      });
+
+      it("should create anchors per viewport-sized page when panelsPerPage is auto", async () => {
+        const camera = new CameraImpl();
+        const flicking = await createFlicking(
+          El.viewport("1000px").add(El.camera().add(...range(7).map(() => El.panel("300px")))),
+          { panelsPerPage: "auto" }
+        );
+
+        camera.init(flicking);
+        camera.updateAlignPos();
+        camera.updateAnchors();
+
+        expect(camera.anchorPoints.map(anchor => anchor.panel.index)).to.deep.equal([0, 3, 6]);
+      });
+    });
+
+    describe("findAnchorIncludePanel", () => {
+      it("should return the anchor of the page that includes the given panel", async () => {
+        const camera = new CameraImpl();
+        const flicking = await createFlicking(
+          El.viewport("1000px").add(El.camera().add(...range(5).map(() => El.panel()))),
+          { panelsPerView: 2, panelsPerPage: 2 }
+        );
+
+        camera.init(flicking);
+        camera.updateAnchors();
+
+        expect(camera.findAnchorIncludePanel(flicking.getPanel(3)).panel).to.equal(flicking.getPanel(2));
+        expect(camera.findAnchorIncludePanel(flicking.getPanel(4)).panel).to.equal(flicking.getPanel(4));
+      });
+    });
+
     describe("updateAlignPos", () => {
       it("should update alignPosition using current align value", async () => {
         const camera = new CameraImpl({ align: "80%" });
@@ -65,6 +65,28 @@ describe("CircularCamera", () => {
       });
     });
 
+    describe("updateRange", () => {
+      it("should disable circular when panel count is smaller than panelsPerView + 1", async () => {
+        const camera = new CircularCamera();
+        const flicking = await createFlicking(El.DEFAULT_HORIZONTAL, { panelsPerView: 2.5 });
+
+        camera.init(flicking);
+        camera.updateRange();
+
+        expect(camera.controlParams.circular).to.be.false;
+      });
+
+      it("should enable circular when panel count is same or bigger than panelsPerView + 1", async () => {
+        const camera = new CircularCamera();
+        const flicking = await createFlicking(El.DEFAULT_HORIZONTAL, { panelsPerView: 2 });
+
+        camera.init(flicking);
+        camera.updateRange();
+
+        expect(camera.controlParams.circular).to.be.true;
+      });
+    });
+
     describe("canReach", () => {
       it("should always return true for any panel when circular is enabled", async () => {
         const camera = new CircularCamera();
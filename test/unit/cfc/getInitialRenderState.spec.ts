@@ -0,0 +1,151 @@
+import Flicking, { FlickingOptions } from "~/Flicking";
+import getInitialRenderState from "~/cfc/getInitialRenderState";
+import { ALIGN, MOVE_TYPE, STATUS_VERSION } from "~/const/external";
+
+import El from "../helper/El";
+import { createFlicking, range } from "../helper/test-util";
+
+const createPanels = (count: number, size: number) => El.viewport("1000px").add(
+  El.camera().add(...range(count).map(() => El.panel(`${size}px`, "300px")))
+);
+
+const getRenderedIndexes = (flicking: Flicking) => [].slice.call(flicking.camera.element.children)
+  .map((el: HTMLElement) => flicking.panels.filter(panel => panel.element === el)[0].index);
+
+const expectSameState = async (options: Partial<FlickingOptions>, count = 6, size = 300) => {
+  const flicking = await createFlicking(createPanels(count, size), options);
+  const state = getInitialRenderState({
+    options,
+    viewportSize: 1000,
+    panelSizes: range(count).map(() => size)
+  });
+
+  expect(state.index).to.equal(flicking.index);
+  expect(state.position).to.equal(flicking.camera.position);
+  expect(state.cameraStyle.transform).to.equal(flicking.camera.element.style.transform);
+  expect(state.panels.map(panel => panel.index)).to.deep.equal(getRenderedIndexes(flicking));
+
+  return state;
+};
+
+describe("getInitialRenderState", () => {
+  it("should return the classes of the viewport & camera", () => {
+    const horizontalState = getInitialRenderState({ viewportSize: 1000, panelSizes: [] });
+    const verticalState = getInitialRenderState({ options: { horizontal: false }, viewportSize: 1000, panelSizes: [] });
+
+    expect(horizontalState.viewportClass).to.equal("flicking-viewport");
+    expect(verticalState.viewportClass).to.equal("flicking-viewport vertical");
+    expect(horizontalState.cameraClass).to.equal("flicking-camera");
+  });
+
+  it("should return an empty state when there're no panels", () => {
+    const state = getInitialRenderState({ viewportSize: 1000, panelSizes: [] });
+
+    expect(state.index).to.equal(-1);
+    expect(state.panels).to.deep.equal([]);
+  });
+
+  it("should match the camera transform of Flicking with the defaultIndex", async () => {
+    await expectSameState({ defaultIndex: 2 });
+  });
+
+  it("should match the camera transform of Flicking with the align", async () => {
+    await expectSameState({ align: ALIGN.PREV, defaultIndex: 1 });
+    await expectSameState({ align: { camera: "30%", panel: "10px" }, defaultIndex: 3 });
+  });
+
+  it("should clamp the position on bound mode", async () => {
+    await expectSameState({ bound: true, align: ALIGN.PREV, defaultIndex: 5 });
+  });
+
+  it("should match the order of the panels on circular mode", async () => {
+    const state = await expectSameState({ circular: true, defaultIndex: 0 });
+
+    expect(state.panels[0].index).to.equal(4);
+  });
+
+  it("should return only the visible panels when renderOnlyVisible is true", async () => {
+    const state = await expectSameState({ renderOnlyVisible: true, align: ALIGN.PREV, defaultIndex: 3 });
+
+    expect(state.panels.map(panel => panel.index)).to.deep.equal([2, 3, 4, 5]);
+  });
+
+  it("should return only the visible panels in order on circular mode", async () => {
+    await expectSameState({ renderOnlyVisible: true, circular: true, defaultIndex: 0 });
+  });
+
+  it("should return the panel styles when panelsPerView is set", () => {
+    const state = getInitialRenderState({ options: { panelsPerView: 3, gap: 20 }, viewportSize: 1000, panelSizes: [0, 0, 0] });
+
+    expect(state.panels[0].style).to.deep.equal({
+      width: `${(1000 - 40) / 3}px`,
+      marginLeft: "0px",
+      marginRight: "20px"
+    });
+  });
+
+  it("should restore the position from the status", async () => {
+    const state = getInitialRenderState({
+      options: { moveType: MOVE_TYPE.FREE_SCROLL },
+      viewportSize: 1000,
+      panelSizes: [300, 300, 300, 300],
+      status: { index: 1, position: { panel: 2, progressInPanel: 0.5 }, panels: [] }
+    });
+
+    expect(state.index).to.equal(2);
+    expect(state.position).to.equal(750);
+  });
+
+  it("should restore the status like setStatus does on snap mode", async () => {
+    const statuses = [
+      { version: STATUS_VERSION, index: 1, position: { panel: 3, progressInPanel: 0.3 }, panels: [] },
+      { version: STATUS_VERSION, position: { panel: 3, progressInPanel: 0.3 }, panels: [] },
+      { index: 2, position: { panel: 4, progressInPanel: 0.5 }, panels: [] }
+    ];
+
+    for (const status of statuses) {
+      const flicking = await createFlicking(createPanels(6, 300), { moveType: MOVE_TYPE.SNAP });
+      const state = getInitialRenderState({
+        options: { moveType: MOVE_TYPE.SNAP },
+        viewportSize: 1000,
+        panelSizes: range(6).map(() => 300),
+        status
+      });
+
+      flicking.setStatus(status);
+
+      expect(state.index).to.equal(flicking.index);
+      expect(state.position).to.equal(flicking.camera.position);
+    }
+  });
+
+  it("should mirror the camera transform when rtl is true", () => {
+    const ltrState = getInitialRenderState({ options: { defaultIndex: 2 }, viewportSize: 1000, panelSizes: [300, 300, 300] });
+    const rtlState = getInitialRenderState({ options: { defaultIndex: 2, rtl: true }, viewportSize: 1000, panelSizes: [300, 300, 300] });
+
+    expect(ltrState.cameraStyle.transform).to.equal("translate(-250px)");
+    expect(rtlState.cameraStyle.transform).to.equal("translate(250px)");
+  });
+
+  it("should mirror the camera transform when rtl is auto and the direction is rtl", () => {
+    const state = getInitialRenderState({ options: { defaultIndex: 2 }, viewportSize: 1000, panelSizes: [300, 300, 300], direction: "rtl" });
+
+    expect(state.cameraStyle.transform).to.equal("translate(250px)");
+  });
+
+  it("should not mirror the camera transform when rtl is false and the direction is rtl", () => {
+    const state = getInitialRenderState({ options: { defaultIndex: 2, rtl: false }, viewportSize: 1000, panelSizes: [300, 300, 300], direction: "rtl" });
+
+    expect(state.cameraStyle.transform).to.equal("translate(-250px)");
+  });
+
+  it("should put the gap on the left margin when rtl is enabled", () => {
+    const state = getInitialRenderState({ options: { panelsPerView: 3, gap: 20, rtl: true }, viewportSize: 1000, panelSizes: [0, 0, 0] });
+
+    expect(state.panels[0].style).to.deep.equal({
+      width: `${(1000 - 40) / 3}px`,
+      marginRight: "0px",
+      marginLeft: "20px"
+    });
+  });
+});
@@ -4,7 +4,7 @@ import * as ERROR from "~/const/error";
 import { MOVE_TYPE } from "~/const/external";
 
 import El from "../helper/El";
-import { createFlicking, tick } from "../helper/test-util";
+import { createFlicking, range, tick } from "../helper/test-util";
 
 describe("SnapControl", () => {
   describe("Methods", () => {
@@ -74,6 +74,48 @@ describe("SnapControl", () => {
 
         expect(control.activePanel).to.equal(flicking.getPanel(2));
       });
+
+      it("should not pass more panels than the count option", async () => {
+        const flicking = await createFlicking(
+          El.viewport("1000px").add(El.camera().add(...range(5).map(() => El.panel("100%")))),
+          { moveType: [MOVE_TYPE.SNAP, { count: 2 }] }
+        );
+        const control = flicking.control;
+
+        const promise = control.moveToPosition(999999999999999, 500);
+        tick(1000);
+        await promise;
+
+        expect(control.activePanel).to.equal(flicking.getPanel(2));
+      });
+
+      it("should move to the panel nearest to the position if it's within the count option", async () => {
+        const flicking = await createFlicking(
+          El.viewport("1000px").add(El.camera().add(...range(5).map(() => El.panel("100%")))),
+          { moveType: [MOVE_TYPE.SNAP, { count: 3 }] }
+        );
+        const control = flicking.control;
+
+        const promise = control.moveToPosition(control.activePanel.position + 1200, 500);
+        tick(1000);
+        await promise;
+
+        expect(control.activePanel).to.equal(flicking.getPanel(1));
+      });
+
+      it("should count panels from the other side when circular is enabled", async () => {
+        const flicking = await createFlicking(
+          El.viewport("1000px").add(El.camera().add(...range(5).map(() => El.panel("100%")))),
+          { circular: true, moveType: [MOVE_TYPE.SNAP, { count: 2 }] }
+        );
+        const control = flicking.control;
+
+        const promise = control.moveToPosition(control.activePanel.position - 999999, 500);
+        tick(1000);
+        await promise;
+
+        expect(control.activePanel).to.equal(flicking.getPanel(3));
+      });
     });
   });
 });
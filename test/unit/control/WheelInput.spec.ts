@@ -0,0 +1,115 @@
+import WheelInput from "~/control/WheelInput";
+import { MOVE_TYPE } from "~/const/external";
+
+import El from "../helper/El";
+import { createFlicking, tick } from "../helper/test-util";
+
+const wheel = (el: HTMLElement, delta: Partial<{ deltaX: number; deltaY: number }>) => {
+  const event = new WheelEvent("wheel", { bubbles: true, cancelable: true, ...delta });
+
+  el.dispatchEvent(event);
+
+  return event;
+};
+
+describe("WheelInput", () => {
+  it("should not be created if inputType doesn't include wheel", async () => {
+    const flicking = await createFlicking(El.DEFAULT_HORIZONTAL);
+
+    expect(flicking.control.controller.wheelInput).to.be.null;
+  });
+
+  it("should be created if inputType includes wheel", async () => {
+    const flicking = await createFlicking(El.DEFAULT_HORIZONTAL, { inputType: ["mouse", "touch", "wheel"] });
+
+    expect(flicking.control.controller.wheelInput).to.be.an.instanceOf(WheelInput);
+  });
+
+  it("should move one panel for each wheel gesture on snap mode", async () => {
+    const flicking = await createFlicking(El.DEFAULT_HORIZONTAL, { inputType: ["wheel"], duration: 0 });
+
+    wheel(flicking.element, { deltaX: 100 });
+    wheel(flicking.element, { deltaX: 100 });
+    wheel(flicking.element, { deltaX: 100 });
+
+    expect(flicking.index).to.equal(1);
+
+    tick(1000);
+    wheel(flicking.element, { deltaX: 100 });
+
+    expect(flicking.index).to.equal(2);
+
+    tick(1000);
+    wheel(flicking.element, { deltaX: -100 });
+
+    expect(flicking.index).to.equal(1);
+  });
+
+  it("should not move when the wheel delta is smaller than the threshold on snap mode", async () => {
+    const flicking = await createFlicking(El.DEFAULT_HORIZONTAL, { inputType: ["wheel"], duration: 0, threshold: 40 });
+
+    wheel(flicking.element, { deltaX: 10 });
+    wheel(flicking.element, { deltaX: 10 });
+
+    expect(flicking.index).to.equal(0);
+
+    wheel(flicking.element, { deltaX: 20 });
+
+    expect(flicking.index).to.equal(1);
+  });
+
+  it("should follow the wheel delta on freeScroll mode", async () => {
+    const flicking = await createFlicking(El.DEFAULT_HORIZONTAL, { inputType: ["wheel"], moveType: MOVE_TYPE.FREE_SCROLL });
+    const prevPosition = flicking.camera.position;
+
+    wheel(flicking.element, { deltaX: 50 });
+    wheel(flicking.element, { deltaX: 30 });
+
+    expect(flicking.camera.position).to.equal(prevPosition + 80);
+  });
+
+  it("should let the vertical wheel scroll the page when Flicking is horizontal", async () => {
+    const flicking = await createFlicking(El.DEFAULT_HORIZONTAL, { inputType: ["wheel"], duration: 0 });
+
+    const event = wheel(flicking.element, { deltaY: 100 });
+
+    expect(event.defaultPrevented).to.be.false;
+    expect(flicking.index).to.equal(0);
+  });
+
+  it("should move with the vertical wheel when wheelCrossAxis is enabled", async () => {
+    const flicking = await createFlicking(El.DEFAULT_HORIZONTAL, { inputType: ["wheel"], duration: 0, wheelCrossAxis: true });
+
+    const event = wheel(flicking.element, { deltaY: 100 });
+
+    expect(event.defaultPrevented).to.be.true;
+    expect(flicking.index).to.equal(1);
+  });
+
+  it("should let the page scroll when Flicking can't move to that direction", async () => {
+    const flicking = await createFlicking(El.DEFAULT_HORIZONTAL, { inputType: ["wheel"], duration: 0 });
+
+    const event = wheel(flicking.element, { deltaX: -100 });
+
+    expect(event.defaultPrevented).to.be.false;
+    expect(flicking.index).to.equal(0);
+  });
+
+  it("should not move when the input is disabled", async () => {
+    const flicking = await createFlicking(El.DEFAULT_HORIZONTAL, { inputType: ["wheel"], duration: 0 });
+
+    flicking.disableInput();
+    wheel(flicking.element, { deltaX: 100 });
+
+    expect(flicking.index).to.equal(0);
+  });
+
+  it("should apply the changed wheelCrossAxis option", async () => {
+    const flicking = await createFlicking(El.DEFAULT_HORIZONTAL, { inputType: ["wheel"], duration: 0 });
+
+    flicking.wheelCrossAxis = true;
+    wheel(flicking.element, { deltaY: 100 });
+
+    expect(flicking.index).to.equal(1);
+  });
+});
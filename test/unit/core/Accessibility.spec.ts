@@ -0,0 +1,197 @@
+import Accessibility from "~/core/Accessibility";
+
+import El from "../helper/El";
+import { createFlicking } from "../helper/test-util";
+
+const pressKey = (el: HTMLElement, key: string) => {
+  const event = document.createEvent("Event") as KeyboardEvent;
+
+  event.initEvent("keydown", true, true);
+  Object.defineProperty(event, "key", { value: key });
+  el.dispatchEvent(event);
+
+  return event;
+};
+
+describe("Accessibility", () => {
+  describe("Methods", () => {
+    describe("init", () => {
+      it("should add carousel attributes to the viewport element", async () => {
+        const flicking = await createFlicking(El.DEFAULT_HORIZONTAL, { accessibility: true });
+        const viewportEl = flicking.element;
+
+        expect(viewportEl.getAttribute("role")).to.equal("region");
+        expect(viewportEl.getAttribute("aria-roledescription")).to.equal("carousel");
+        expect(viewportEl.getAttribute("tabindex")).to.equal("0");
+      });
+
+      it("should not override attributes of the viewport element given by the user", async () => {
+        const viewport = El.DEFAULT_HORIZONTAL;
+        viewport.el.setAttribute("tabindex", "-1");
+
+        const flicking = await createFlicking(viewport, { accessibility: true });
+
+        expect(flicking.element.getAttribute("tabindex")).to.equal("-1");
+      });
+
+      it("should add aria-hidden & inert to the panels not visible only", async () => {
+        const flicking = await createFlicking(El.DEFAULT_HORIZONTAL, { accessibility: true });
+        const hiddenPanels = flicking.panels.filter(panel => flicking.visiblePanels.indexOf(panel) < 0);
+
+        expect(hiddenPanels.length).to.be.greaterThan(0);
+        expect(flicking.visiblePanels.every(panel => !panel.element.hasAttribute("aria-hidden"))).to.be.true;
+        expect(hiddenPanels.every(panel => panel.element.getAttribute("aria-hidden") === "true")).to.be.true;
+        expect(hiddenPanels.every(panel => panel.element.hasAttribute("inert"))).to.be.true;
+      });
+
+      it("should not add any attributes by default", async () => {
+        const flicking = await createFlicking(El.DEFAULT_HORIZONTAL);
+
+        expect(flicking.element.hasAttribute("role")).to.be.false;
+        expect(flicking.element.querySelector("[aria-live]")).to.be.null;
+        expect(flicking.panels.every(panel => !panel.element.hasAttribute("aria-hidden"))).to.be.true;
+      });
+
+      it("should not add the live region when the elements are rendered by the framework", async () => {
+        const flicking = await createFlicking(El.DEFAULT_HORIZONTAL);
+        const accessibility = new Accessibility();
+
+        sinon.stub(flicking, "renderExternal").get(() => ({ renderer: null, rendererOptions: {} }) as any);
+        accessibility.init(flicking);
+
+        expect(accessibility.liveRegion).to.be.null;
+        expect(flicking.element.querySelector("[aria-live]")).to.be.null;
+        expect(flicking.element.getAttribute("role")).to.equal("region");
+
+        accessibility.destroy();
+      });
+    });
+
+    describe("destroy", () => {
+      it("should remove all attributes & the live region added", async () => {
+        const flicking = await createFlicking(El.DEFAULT_HORIZONTAL, { accessibility: true });
+        const panelEls = flicking.panels.map(panel => panel.element);
+
+        flicking.destroy();
+
+        expect(flicking.element.hasAttribute("role")).to.be.false;
+        expect(flicking.element.hasAttribute("tabindex")).to.be.false;
+        expect(flicking.element.querySelector("[aria-live]")).to.be.null;
+        expect(panelEls.every(el => !el.hasAttribute("aria-hidden") && !el.hasAttribute("role"))).to.be.true;
+      });
+
+      it("should restore the attributes given by the user", async () => {
+        const viewport = El.DEFAULT_HORIZONTAL;
+        const panelEl = viewport.el.querySelector(".flicking-panel");
+        viewport.el.setAttribute("tabindex", "-1");
+        panelEl.setAttribute("role", "listitem");
+        panelEl.setAttribute("aria-label", "First");
+
+        const flicking = await createFlicking(viewport, { accessibility: true });
+        flicking.destroy();
+
+        expect(viewport.el.getAttribute("tabindex")).to.equal("-1");
+        expect(viewport.el.hasAttribute("role")).to.be.false;
+        expect(panelEl.getAttribute("role")).to.equal("listitem");
+        expect(panelEl.getAttribute("aria-label")).to.equal("First");
+        expect(panelEl.hasAttribute("aria-roledescription")).to.be.false;
+      });
+
+      it("should restore the attributes of the panels removed before", async () => {
+        const viewport = El.DEFAULT_HORIZONTAL;
+        const panelEl = viewport.el.querySelector(".flicking-panel");
+        panelEl.setAttribute("role", "listitem");
+
+        const flicking = await createFlicking(viewport, { accessibility: true });
+        flicking.remove(0);
+
+        expect(panelEl.getAttribute("role")).to.equal("listitem");
+        expect(panelEl.hasAttribute("aria-label")).to.be.false;
+      });
+    });
+
+    describe("update", () => {
+      it("should not throw when it's not initialized", () => {
+        const accessibility = new Accessibility();
+
+        expect(() => accessibility.update()).not.to.throw();
+      });
+
+      it("should be called when panels are added", async () => {
+        const flicking = await createFlicking(El.DEFAULT_HORIZONTAL, { accessibility: true });
+        const [panel] = flicking.append("<div>New Panel</div>");
+
+        expect(panel.element.getAttribute("aria-hidden")).to.equal("true");
+        expect(panel.element.getAttribute("aria-label")).to.equal("4 / 4");
+      });
+    });
+  });
+
+  describe("Keyboard", () => {
+    it("should move to the next panel with ArrowRight when horizontal is true", async () => {
+      const flicking = await createFlicking(El.DEFAULT_HORIZONTAL, { accessibility: true, duration: 0 });
+
+      const event = pressKey(flicking.element, "ArrowRight");
+
+      expect(flicking.index).to.equal(1);
+      expect(event.defaultPrevented).to.be.true;
+    });
+
+    it("should not move with ArrowDown when horizontal is true", async () => {
+      const flicking = await createFlicking(El.DEFAULT_HORIZONTAL, { accessibility: true, duration: 0 });
+
+      pressKey(flicking.element, "ArrowDown");
+
+      expect(flicking.index).to.equal(0);
+    });
+
+    it("should move to the next panel with ArrowDown when horizontal is false", async () => {
+      const flicking = await createFlicking(El.DEFAULT_VERTICAL, { accessibility: true, horizontal: false, duration: 0 });
+
+      pressKey(flicking.element, "ArrowDown");
+
+      expect(flicking.index).to.equal(1);
+    });
+
+    it("should move to the first & last panel with Home & End", async () => {
+      const flicking = await createFlicking(El.DEFAULT_HORIZONTAL, { accessibility: true, duration: 0 });
+
+      pressKey(flicking.element, "End");
+      expect(flicking.index).to.equal(2);
+
+      pressKey(flicking.element, "Home");
+      expect(flicking.index).to.equal(0);
+    });
+
+    it("should move by the number of visible panels with PageUp & PageDown", async () => {
+      const flicking = await createFlicking(El.DEFAULT_HORIZONTAL, { accessibility: true, duration: 0 });
+      const pageSize = flicking.visiblePanels.length;
+
+      pressKey(flicking.element, "PageDown");
+      expect(flicking.index).to.equal(Math.min(pageSize, 2));
+
+      const prevIndex = flicking.index;
+      const prevPageSize = flicking.visiblePanels.length;
+
+      pressKey(flicking.element, "PageUp");
+      expect(flicking.index).to.equal(Math.max(prevIndex - prevPageSize, 0));
+    });
+
+    it("should not move when the input is disabled", async () => {
+      const flicking = await createFlicking(El.DEFAULT_HORIZONTAL, { accessibility: true, duration: 0 });
+
+      flicking.disableInput();
+      pressKey(flicking.element, "ArrowRight");
+
+      expect(flicking.index).to.equal(0);
+    });
+
+    it("should announce the current panel when the panel is changed", async () => {
+      const flicking = await createFlicking(El.DEFAULT_HORIZONTAL, { accessibility: true, duration: 0 });
+
+      pressKey(flicking.element, "ArrowRight");
+
+      expect(flicking.element.querySelector("[aria-live]").textContent).to.equal("2 / 3");
+    });
+  });
+});
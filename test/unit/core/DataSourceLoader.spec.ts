@@ -0,0 +1,154 @@
+import DataSourceLoader from "~/core/DataSourceLoader";
+import { DIRECTION } from "~/const/external";
+
+import El from "../helper/El";
+import { createFlicking, flushPromises } from "../helper/test-util";
+
+const createDataSource = () => {
+  const deferred: { [direction: string]: { resolve: (val: any) => void; reject: (err: Error) => void } } = {};
+  const dataSource = sinon.spy((direction: string, _context?: any) => new Promise<any>((resolve, reject) => {
+    deferred[direction] = { resolve, reject };
+  }));
+
+  return {
+    dataSource,
+    resolve: async (direction: string, val: any) => {
+      deferred[direction].resolve(val);
+      await flushPromises();
+    },
+    reject: async (direction: string, err: Error) => {
+      deferred[direction].reject(err);
+      await flushPromises();
+    }
+  };
+};
+
+const panelHTML = (text: string) => `<div style="width: 100%">${text}</div>`;
+
+describe("DataSourceLoader", () => {
+  it("should not have dataSource by default", async () => {
+    const flicking = await createFlicking(El.DEFAULT_HORIZONTAL);
+
+    expect(flicking.dataSourceLoader).to.be.an.instanceOf(DataSourceLoader);
+    expect(flicking.dataSource).to.be.null;
+  });
+
+  it("should call dataSource with the direction and the panel at the edge", async () => {
+    const { dataSource } = createDataSource();
+    const flicking = await createFlicking(El.DEFAULT_HORIZONTAL, { dataSource, duration: 0 });
+
+    expect(dataSource.calledWith(DIRECTION.PREV)).to.be.true;
+    expect(dataSource.firstCall.args[1].panel).to.equal(flicking.panels[1]);
+
+    await flicking.moveTo(flicking.panelCount - 1);
+
+    expect(dataSource.calledWith(DIRECTION.NEXT)).to.be.true;
+    expect(dataSource.lastCall.args[1].panel).to.equal(flicking.panels[flicking.panelCount - 2]);
+  });
+
+  it("should show a placeholder panel while loading", async () => {
+    const { dataSource } = createDataSource();
+    const flicking = await createFlicking(El.DEFAULT_HORIZONTAL, { dataSource });
+    const placeholder = flicking.panels[0];
+
+    expect(flicking.dataSourceLoader.loading.PREV).to.be.true;
+    expect(placeholder.element.classList.contains("flicking-placeholder")).to.be.true;
+    expect(placeholder.size).to.equal(flicking.panels[1].size);
+  });
+
+  it("should replace the placeholder with the panels loaded", async () => {
+    const { dataSource, resolve } = createDataSource();
+    const flicking = await createFlicking(El.DEFAULT_HORIZONTAL, { dataSource, duration: 0 });
+
+    await flicking.moveTo(flicking.panelCount - 1);
+    await resolve(DIRECTION.NEXT, [panelHTML("4"), panelHTML("5")]);
+
+    const lastPanels = flicking.panels.slice(-2);
+
+    expect(flicking.dataSourceLoader.loading.NEXT).to.be.false;
+    expect(flicking.element.querySelectorAll(".flicking-placeholder").length).to.equal(1);
+    expect(lastPanels.map(panel => panel.element.textContent)).to.deep.equal(["4", "5"]);
+  });
+
+  it("should keep the camera at the same panel after prepending panels", async () => {
+    const { dataSource, resolve } = createDataSource();
+    const flicking = await createFlicking(El.DEFAULT_HORIZONTAL, { dataSource, duration: 0 });
+    const currentPanel = flicking.currentPanel;
+
+    await resolve(DIRECTION.PREV, [panelHTML("-2"), panelHTML("-1")]);
+
+    expect(flicking.panels[0].element.textContent).to.equal("-2");
+    expect(flicking.currentPanel).to.equal(currentPanel);
+    expect(currentPanel.index).to.equal(2);
+    expect(flicking.camera.position).to.equal(currentPanel.position);
+  });
+
+  it("should update the active panel when the placeholder was active before prepending panels", async () => {
+    const { dataSource, resolve } = createDataSource();
+    const flicking = await createFlicking(El.DEFAULT_HORIZONTAL, { dataSource, duration: 0 });
+
+    await flicking.moveTo(0);
+    await resolve(DIRECTION.PREV, [panelHTML("-2"), panelHTML("-1")]);
+
+    expect(flicking.currentPanel.element.textContent).to.equal("-1");
+    expect(flicking.index).to.equal(1);
+    expect(flicking.camera.position).to.equal(flicking.currentPanel.position);
+  });
+
+  it("should stop loading the direction when it's resolved with an empty array", async () => {
+    const { dataSource, resolve } = createDataSource();
+    const flicking = await createFlicking(El.DEFAULT_HORIZONTAL, { dataSource, duration: 0 });
+
+    await resolve(DIRECTION.PREV, []);
+    await flicking.moveTo(1);
+    await flicking.moveTo(0);
+
+    expect(flicking.dataSourceLoader.ended.PREV).to.be.true;
+    expect(flicking.panelCount).to.equal(3);
+    expect(dataSource.withArgs(DIRECTION.PREV).callCount).to.equal(1);
+  });
+
+  it("should load the direction again after reset", async () => {
+    const { dataSource, resolve } = createDataSource();
+    const flicking = await createFlicking(El.DEFAULT_HORIZONTAL, { dataSource, duration: 0 });
+
+    await resolve(DIRECTION.PREV, []);
+    flicking.dataSourceLoader.reset(DIRECTION.PREV);
+    await flicking.moveTo(0);
+
+    expect(flicking.dataSourceLoader.ended.PREV).to.be.false;
+    expect(dataSource.withArgs(DIRECTION.PREV).callCount).to.equal(2);
+  });
+
+  it("should not load the direction that has failed until retry is called", async () => {
+    const { dataSource, reject } = createDataSource();
+    const flicking = await createFlicking(El.DEFAULT_HORIZONTAL, { dataSource, duration: 0 });
+
+    await reject(DIRECTION.PREV, new Error("Failed to load"));
+    await flicking.moveTo(1);
+    await flicking.moveTo(0);
+
+    expect(flicking.dataSourceLoader.failed.PREV).to.be.true;
+    expect(flicking.element.querySelectorAll(".flicking-placeholder").length).to.equal(0);
+    expect(dataSource.withArgs(DIRECTION.PREV).callCount).to.equal(1);
+
+    void flicking.dataSourceLoader.retry();
+
+    expect(flicking.dataSourceLoader.failed.PREV).to.be.false;
+    expect(flicking.dataSourceLoader.loading.PREV).to.be.true;
+    expect(dataSource.withArgs(DIRECTION.PREV).callCount).to.equal(2);
+  });
+
+  it("should ignore the data loaded after destroy", async () => {
+    const { dataSource, resolve } = createDataSource();
+    const flicking = await createFlicking(El.DEFAULT_HORIZONTAL, { dataSource });
+    const cameraEl = flicking.camera.element;
+
+    flicking.destroy();
+    const childCount = cameraEl.children.length;
+
+    await resolve(DIRECTION.PREV, [panelHTML("-1")]);
+
+    expect(cameraEl.children.length).to.equal(childCount);
+  });
+});
@@ -163,6 +163,16 @@ describe("Panel", () => {
 
         expect(panel.position).to.equal(panel.element.offsetLeft + 150); // pos + align
       });
+
+      it("should use the given size & margin instead of measuring the element", async () => {
+        const panel = await createPanel(El.panel().setWidth(300).setHeight(500));
+
+        panel.resize({ size: 123.5, margin: { prev: 0, next: 10 } });
+
+        expect(panel.size).to.equal(123.5);
+        expect(panel.margin).to.deep.equal({ prev: 0, next: 10 });
+        expect(panel.height).to.equal(500);
+      });
     });
 
     describe("includePosition", () => {
@@ -344,6 +354,19 @@ describe("Panel", () => {
 
         expect(moveToSpy.calledWith(panel.index)).to.be.true;
       });
+
+      it("should pass the options object to Flicking's 'moveTo'", async () => {
+        const flicking = await createFlicking(El.DEFAULT_HORIZONTAL);
+        const panel = new PanelImpl({ index: 5, flicking, align: ALIGN.PREV });
+        const options = { duration: 300, easing: (x: number) => x };
+
+        const moveToSpy = sinon.spy();
+        flicking.moveTo = moveToSpy;
+
+        void panel.focus(options);
+
+        expect(moveToSpy.calledWith(panel.index, options)).to.be.true;
+      });
     });
 
     describe("prev", () => {
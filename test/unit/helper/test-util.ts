@@ -57,6 +57,13 @@ export const tick = (time) => {
   (window as any).timer.tick(time);
 };
 
+// Settle the promise chains, which aren't run by tick()
+export const flushPromises = async () => {
+  for (let i = 0; i < 5; i++) {
+    await Promise.resolve();
+  }
+};
+
 export const range = (end: number): number[] => {
   if (!end || end <= 0) {
     return [];
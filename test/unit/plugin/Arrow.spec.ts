@@ -0,0 +1,170 @@
+import Arrow from "~/plugin/Arrow";
+import * as ERROR from "~/const/error";
+import { ANIMATION_POLICY } from "~/const/external";
+
+import El from "../helper/El";
+import { createFlicking, createSandbox, flushPromises, tick } from "../helper/test-util";
+
+const appendArrows = (parentEl: HTMLElement) => {
+  const prevEl = document.createElement("span");
+  const nextEl = document.createElement("span");
+
+  prevEl.className = "flicking-arrow-prev";
+  nextEl.className = "flicking-arrow-next";
+  parentEl.appendChild(prevEl);
+  parentEl.appendChild(nextEl);
+
+  return { prevEl, nextEl };
+};
+
+describe("Arrow", () => {
+  describe("Options", () => {
+    it("should find the arrow elements inside the viewport element by default", async () => {
+      const flicking = await createFlicking(El.DEFAULT_HORIZONTAL);
+      const { prevEl, nextEl } = appendArrows(flicking.element);
+      const arrow = new Arrow();
+
+      flicking.addPlugins(arrow);
+
+      expect(arrow.prevArrow).to.equal(prevEl);
+      expect(arrow.nextArrow).to.equal(nextEl);
+    });
+
+    it("should find the arrow elements inside the given parentEl", async () => {
+      const flicking = await createFlicking(El.DEFAULT_HORIZONTAL);
+      const parentEl = createSandbox("arrow-parent");
+      const { prevEl, nextEl } = appendArrows(parentEl);
+      const arrow = new Arrow({ parentEl });
+
+      flicking.addPlugins(arrow);
+
+      expect(arrow.prevArrow).to.equal(prevEl);
+      expect(arrow.nextArrow).to.equal(nextEl);
+    });
+
+    it("should throw ELEMENT_NOT_FOUND when the arrow element does not exist", async () => {
+      const flicking = await createFlicking(El.DEFAULT_HORIZONTAL);
+
+      expect(() => flicking.addPlugins(new Arrow()))
+        .to.throw()
+        .with.property("code", ERROR.CODE.ELEMENT_NOT_FOUND);
+    });
+
+    it("should add the given disabledClass to the arrow that can't move", async () => {
+      const flicking = await createFlicking(El.DEFAULT_HORIZONTAL);
+      const { prevEl } = appendArrows(flicking.element);
+
+      flicking.addPlugins(new Arrow({ disabledClass: "my-disabled" }));
+
+      expect(prevEl.classList.contains("my-disabled")).to.be.true;
+    });
+  });
+
+  describe("Methods", () => {
+    it("should disable the prev arrow at the first panel and the next arrow at the last panel", async () => {
+      const flicking = await createFlicking(El.DEFAULT_HORIZONTAL, { duration: 0 });
+      const { prevEl, nextEl } = appendArrows(flicking.element);
+
+      flicking.addPlugins(new Arrow());
+
+      expect(prevEl.classList.contains("flicking-arrow-disabled")).to.be.true;
+      expect(prevEl.getAttribute("aria-disabled")).to.equal("true");
+      expect(nextEl.classList.contains("flicking-arrow-disabled")).to.be.false;
+
+      await flicking.moveTo(1);
+      expect(prevEl.classList.contains("flicking-arrow-disabled")).to.be.false;
+      expect(nextEl.classList.contains("flicking-arrow-disabled")).to.be.false;
+
+      await flicking.moveTo(2);
+      expect(prevEl.classList.contains("flicking-arrow-disabled")).to.be.false;
+      expect(nextEl.classList.contains("flicking-arrow-disabled")).to.be.true;
+    });
+
+    it("should not disable any arrows when circular is enabled", async () => {
+      const flicking = await createFlicking(El.DEFAULT_HORIZONTAL, { circular: true });
+      const { prevEl, nextEl } = appendArrows(flicking.element);
+
+      flicking.addPlugins(new Arrow());
+
+      expect(prevEl.classList.contains("flicking-arrow-disabled")).to.be.false;
+      expect(nextEl.classList.contains("flicking-arrow-disabled")).to.be.false;
+    });
+
+    it("should remove the click handlers and the disabled class on destroy", async () => {
+      const flicking = await createFlicking(El.DEFAULT_HORIZONTAL, { duration: 0 });
+      const { prevEl, nextEl } = appendArrows(flicking.element);
+      const arrow = new Arrow();
+
+      flicking.addPlugins(arrow);
+      flicking.removePlugins(arrow);
+      nextEl.click();
+
+      expect(flicking.index).to.equal(0);
+      expect(prevEl.classList.contains("flicking-arrow-disabled")).to.be.false;
+      expect(prevEl.hasAttribute("aria-disabled")).to.be.false;
+      expect(arrow.prevArrow).to.be.null;
+    });
+  });
+
+  describe("Events", () => {
+    it("should move to the next/prev panel when the arrow is clicked", async () => {
+      const flicking = await createFlicking(El.DEFAULT_HORIZONTAL, { duration: 0 });
+      const { prevEl, nextEl } = appendArrows(flicking.element);
+
+      flicking.addPlugins(new Arrow());
+
+      nextEl.click();
+      expect(flicking.index).to.equal(1);
+
+      prevEl.click();
+      expect(flicking.index).to.equal(0);
+    });
+
+    it("should not move again when clicked while the animation is playing by default", async () => {
+      const flicking = await createFlicking(El.DEFAULT_HORIZONTAL, { duration: 500 });
+      const { nextEl } = appendArrows(flicking.element);
+
+      flicking.addPlugins(new Arrow());
+
+      nextEl.click();
+      nextEl.click();
+      nextEl.click();
+      tick(1000);
+      await flushPromises();
+
+      expect(flicking.index).to.equal(1);
+    });
+
+    it("should queue the clicks while the animation is playing when animationPolicy is queue", async () => {
+      const flicking = await createFlicking(El.DEFAULT_HORIZONTAL, { duration: 500, animationPolicy: ANIMATION_POLICY.QUEUE });
+      const { nextEl } = appendArrows(flicking.element);
+
+      flicking.addPlugins(new Arrow());
+
+      nextEl.click();
+      nextEl.click();
+
+      for (let i = 0; i < 2; i++) {
+        tick(1000);
+        await flushPromises();
+      }
+
+      expect(flicking.index).to.equal(2);
+    });
+
+    it("should move to the panel of the last click while the animation is playing when animationPolicy is interrupt", async () => {
+      const flicking = await createFlicking(El.DEFAULT_HORIZONTAL, { duration: 500, defaultIndex: 1, animationPolicy: ANIMATION_POLICY.INTERRUPT });
+      const { prevEl, nextEl } = appendArrows(flicking.element);
+
+      flicking.addPlugins(new Arrow());
+
+      nextEl.click();
+      tick(100);
+      prevEl.click();
+      tick(1000);
+      await flushPromises();
+
+      expect(flicking.index).to.equal(0);
+    });
+  });
+});
@@ -0,0 +1,174 @@
+import { ComponentEvent } from "@egjs/component";
+
+import AutoPlay from "~/plugin/AutoPlay";
+import FlickingError from "~/core/FlickingError";
+import * as ERROR from "~/const/error";
+import { DIRECTION, EVENTS } from "~/const/external";
+
+import El from "../helper/El";
+import { createFlicking, flushPromises, tick } from "../helper/test-util";
+
+describe("AutoPlay", () => {
+  describe("Options", () => {
+    it("should move to the next panel after the interval", async () => {
+      const flicking = await createFlicking(El.DEFAULT_HORIZONTAL);
+
+      flicking.addPlugins(new AutoPlay({ interval: 1000, animationDuration: 0 }));
+
+      tick(999);
+      expect(flicking.index).to.equal(0);
+
+      tick(1);
+      expect(flicking.index).to.equal(1);
+    });
+
+    it("should move to the previous panel when direction is PREV", async () => {
+      const flicking = await createFlicking(El.DEFAULT_HORIZONTAL, { defaultIndex: 2 });
+
+      flicking.addPlugins(new AutoPlay({ interval: 1000, animationDuration: 0, direction: DIRECTION.PREV }));
+      tick(1000);
+
+      expect(flicking.index).to.equal(1);
+    });
+
+    it("should pause while the mouse is over the viewport when pauseOnHover is true", async () => {
+      const flicking = await createFlicking(El.DEFAULT_HORIZONTAL);
+
+      flicking.addPlugins(new AutoPlay({ interval: 1000, animationDuration: 0 }));
+
+      flicking.element.dispatchEvent(new Event("mouseenter"));
+      tick(1000);
+      expect(flicking.index).to.equal(0);
+
+      flicking.element.dispatchEvent(new Event("mouseleave"));
+      tick(1000);
+      expect(flicking.index).to.equal(1);
+    });
+
+    it("should not pause while the mouse is over the viewport when pauseOnHover is false", async () => {
+      const flicking = await createFlicking(El.DEFAULT_HORIZONTAL);
+
+      flicking.addPlugins(new AutoPlay({ interval: 1000, animationDuration: 0, pauseOnHover: false }));
+
+      flicking.element.dispatchEvent(new Event("mouseenter"));
+      tick(1000);
+
+      expect(flicking.index).to.equal(1);
+    });
+  });
+
+  describe("Methods", () => {
+    it("should not move after stop() is called", async () => {
+      const flicking = await createFlicking(El.DEFAULT_HORIZONTAL);
+      const autoPlay = new AutoPlay({ interval: 1000, animationDuration: 0 });
+
+      flicking.addPlugins(autoPlay);
+      autoPlay.stop();
+      tick(1000);
+
+      expect(autoPlay.playing).to.be.false;
+      expect(flicking.index).to.equal(0);
+    });
+
+    it("should not move after destroy() is called", async () => {
+      const flicking = await createFlicking(El.DEFAULT_HORIZONTAL);
+      const autoPlay = new AutoPlay({ interval: 1000, animationDuration: 0 });
+
+      flicking.addPlugins(autoPlay);
+      flicking.removePlugins(autoPlay);
+      tick(1000);
+
+      expect(flicking.index).to.equal(0);
+    });
+  });
+
+  describe("Events", () => {
+    it("should pause on holdStart and resume on moveEnd", async () => {
+      const flicking = await createFlicking(El.DEFAULT_HORIZONTAL);
+
+      flicking.addPlugins(new AutoPlay({ interval: 1000, animationDuration: 0 }));
+
+      flicking.trigger(new ComponentEvent(EVENTS.HOLD_START) as any);
+      tick(1000);
+      expect(flicking.index).to.equal(0);
+
+      flicking.trigger(new ComponentEvent(EVENTS.MOVE_END) as any);
+      tick(1000);
+      expect(flicking.index).to.equal(1);
+    });
+
+    it("should keep playing when the animation is already playing", async () => {
+      const flicking = await createFlicking(El.DEFAULT_HORIZONTAL);
+      const autoPlay = new AutoPlay({ interval: 1000, animationDuration: 0 });
+      const nextStub = sinon.stub(flicking, "next")
+        .rejects(new FlickingError(ERROR.MESSAGE.ANIMATION_ALREADY_PLAYING, ERROR.CODE.ANIMATION_ALREADY_PLAYING));
+
+      flicking.addPlugins(autoPlay);
+      tick(1000);
+      await flushPromises();
+
+      expect(nextStub.calledOnce).to.be.true;
+      expect(autoPlay.playing).to.be.true;
+    });
+
+    it("should keep playing when the change is stopped by the willChange event", async () => {
+      const flicking = await createFlicking(El.DEFAULT_HORIZONTAL);
+      const autoPlay = new AutoPlay({ interval: 1000, animationDuration: 0 });
+      const willChangeHandler = sinon.spy((evt: ComponentEvent) => evt.stop());
+
+      flicking.once(EVENTS.WILL_CHANGE, willChangeHandler);
+      flicking.addPlugins(autoPlay);
+      tick(1000);
+      await flushPromises();
+
+      expect(willChangeHandler.calledOnce).to.be.true;
+      expect(autoPlay.playing).to.be.true;
+      expect(flicking.index).to.equal(0);
+
+      tick(1000);
+      expect(flicking.index).to.equal(1);
+    });
+
+    it("should not stop when the animation is aborted or interrupted", async () => {
+      const flicking = await createFlicking(El.DEFAULT_HORIZONTAL);
+      const autoPlay = new AutoPlay({ interval: 1000, animationDuration: 0 });
+
+      sinon.stub(flicking, "next")
+        .onFirstCall().rejects(new FlickingError(ERROR.MESSAGE.ANIMATION_ABORTED, ERROR.CODE.ANIMATION_ABORTED))
+        .onSecondCall().rejects(new FlickingError(ERROR.MESSAGE.ANIMATION_INTERRUPTED, ERROR.CODE.ANIMATION_INTERRUPTED));
+
+      flicking.addPlugins(autoPlay);
+      tick(1000);
+      await flushPromises();
+      flicking.trigger(new ComponentEvent(EVENTS.MOVE_END) as any);
+      tick(1000);
+      await flushPromises();
+
+      expect(autoPlay.playing).to.be.true;
+    });
+
+    it("should stop when it fails to move with the unknown error", async () => {
+      const flicking = await createFlicking(El.DEFAULT_HORIZONTAL);
+      const autoPlay = new AutoPlay({ interval: 1000, animationDuration: 0 });
+
+      sinon.stub(flicking, "next").rejects(new Error("unknown"));
+
+      flicking.addPlugins(autoPlay);
+      tick(1000);
+      await flushPromises();
+
+      expect(autoPlay.playing).to.be.false;
+    });
+
+    it("should stop when it reaches the last panel", async () => {
+      const flicking = await createFlicking(El.DEFAULT_HORIZONTAL, { defaultIndex: 2 });
+      const autoPlay = new AutoPlay({ interval: 1000, animationDuration: 0 });
+
+      flicking.addPlugins(autoPlay);
+      tick(1000);
+      await flushPromises();
+
+      expect(autoPlay.playing).to.be.false;
+    });
+  });
+});
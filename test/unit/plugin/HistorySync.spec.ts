@@ -0,0 +1,142 @@
+import HistorySync, { HISTORY_SYNC_TYPE } from "~/plugin/HistorySync";
+import { EVENTS } from "~/const/external";
+
+import El from "../helper/El";
+import { createFlicking, flushPromises } from "../helper/test-util";
+
+describe("HistorySync", () => {
+  let initialURL: string;
+
+  beforeEach(() => {
+    initialURL = `${location.pathname}${location.search}${location.hash}`;
+  });
+
+  afterEach(() => {
+    history.replaceState(null, "", initialURL);
+  });
+
+  describe("Options", () => {
+    it("should write the index of the active panel to the hash by default", async () => {
+      const flicking = await createFlicking(El.DEFAULT_HORIZONTAL, { duration: 0 });
+
+      flicking.addPlugins(new HistorySync());
+      await flicking.moveTo(2);
+
+      expect(location.hash).to.equal("#2");
+    });
+
+    it("should write the identifier to the query parameter when type is query", async () => {
+      const flicking = await createFlicking(El.DEFAULT_HORIZONTAL, { duration: 0 });
+
+      flicking.addPlugins(new HistorySync({ type: HISTORY_SYNC_TYPE.QUERY, key: "page" }));
+      await flicking.moveTo(1);
+
+      expect(location.search).to.contain("page=1");
+    });
+
+    it("should use the given attribute of the panel element as the identifier", async () => {
+      const flicking = await createFlicking(El.DEFAULT_HORIZONTAL, { duration: 0 });
+
+      flicking.panels.forEach(panel => panel.element.setAttribute("data-slide-id", `slide-${panel.index}`));
+      flicking.addPlugins(new HistorySync({ attribute: "data-slide-id" }));
+      await flicking.moveTo(1);
+
+      expect(location.hash).to.equal("#slide-1");
+    });
+
+    it("should replace the current history entry when push is false", async () => {
+      const flicking = await createFlicking(El.DEFAULT_HORIZONTAL, { duration: 0 });
+      const pushSpy = sinon.spy(history, "pushState");
+      const replaceSpy = sinon.spy(history, "replaceState");
+
+      flicking.addPlugins(new HistorySync({ push: false }));
+      await flicking.moveTo(1);
+
+      expect(pushSpy.called).to.be.false;
+      expect(replaceSpy.calledOnce).to.be.true;
+
+      pushSpy.restore();
+      replaceSpy.restore();
+    });
+  });
+
+  describe("Methods", () => {
+    it("should move to the panel of the current URL on init", async () => {
+      const flicking = await createFlicking(El.DEFAULT_HORIZONTAL, { duration: 0 });
+
+      history.replaceState(null, "", "#2");
+      flicking.addPlugins(new HistorySync());
+      await flushPromises();
+
+      expect(flicking.index).to.equal(2);
+      expect(flicking.camera.position).to.equal(flicking.getPanel(2).position);
+    });
+
+    it("should not trigger any events when it moves to the panel of the current URL on init", async () => {
+      const flicking = await createFlicking(El.DEFAULT_HORIZONTAL, { duration: 0 });
+      const changeSpy = sinon.spy();
+
+      flicking.on(EVENTS.WILL_CHANGE, changeSpy);
+      flicking.on(EVENTS.CHANGED, changeSpy);
+
+      history.replaceState(null, "", "#2");
+      flicking.addPlugins(new HistorySync());
+      await flushPromises();
+
+      expect(flicking.index).to.equal(2);
+      expect(changeSpy.called).to.be.false;
+      expect(location.hash).to.equal("#2");
+    });
+
+    it("should not move when the URL doesn't match any panel", async () => {
+      const flicking = await createFlicking(El.DEFAULT_HORIZONTAL, { duration: 0 });
+
+      history.replaceState(null, "", "#unknown");
+      flicking.addPlugins(new HistorySync());
+      await flushPromises();
+
+      expect(flicking.index).to.equal(0);
+    });
+
+    it("should stop listening to popstate on destroy", async () => {
+      const flicking = await createFlicking(El.DEFAULT_HORIZONTAL, { duration: 0 });
+      const historySync = new HistorySync();
+
+      flicking.addPlugins(historySync);
+      flicking.removePlugins(historySync);
+
+      history.replaceState(null, "", "#1");
+      window.dispatchEvent(new PopStateEvent("popstate"));
+      await flushPromises();
+
+      expect(flicking.index).to.equal(0);
+    });
+  });
+
+  describe("Events", () => {
+    it("should move to the panel of the URL on popstate", async () => {
+      const flicking = await createFlicking(El.DEFAULT_HORIZONTAL, { duration: 0 });
+
+      flicking.addPlugins(new HistorySync());
+
+      history.replaceState(null, "", "#1");
+      window.dispatchEvent(new PopStateEvent("popstate"));
+      await flushPromises();
+
+      expect(flicking.index).to.equal(1);
+    });
+
+    it("should move to the defaultIndex on popstate when the URL doesn't have the identifier", async () => {
+      const flicking = await createFlicking(El.DEFAULT_HORIZONTAL, { duration: 0, defaultIndex: 1 });
+
+      flicking.addPlugins(new HistorySync());
+      await flicking.moveTo(2);
+
+      history.replaceState(null, "", `${location.pathname}${location.search}`);
+      window.dispatchEvent(new PopStateEvent("popstate"));
+      await flushPromises();
+
+      expect(flicking.index).to.equal(1);
+    });
+  });
+});
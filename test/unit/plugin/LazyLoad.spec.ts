@@ -0,0 +1,178 @@
+import LazyLoad from "~/plugin/LazyLoad";
+
+import El from "../helper/El";
+import { createFlicking, range, tick } from "../helper/test-util";
+
+const imageSrc = "data:image/gif;base64,R0lGODlhAQABAAAAACw=";
+
+const createLazyPanels = (count: number, html: string = `<img data-src="${imageSrc}" />`) => {
+  const panels = range(count).map(() => El.panel("100%"));
+
+  panels.forEach(panel => {
+    panel.el.innerHTML = html;
+  });
+
+  return El.viewport("1000px").add(El.camera().add(...panels));
+};
+
+const isLoaded = (el: HTMLElement) => !el.querySelector("[data-src], [data-srcset]");
+
+describe("LazyLoad", () => {
+  describe("Options", () => {
+    it("should load the visible panels and the panels within the preload count", async () => {
+      const flicking = await createFlicking(createLazyPanels(5));
+
+      flicking.addPlugins(new LazyLoad({ preload: 1 }));
+
+      const loaded = flicking.panels.map(panel => isLoaded(panel.element));
+
+      expect(loaded).to.deep.equal([true, true, true, false, false]);
+      expect(flicking.panels[0].element.querySelector("img").getAttribute("src")).to.equal(imageSrc);
+    });
+
+    it("should load the panels within the threshold from the visible range", async () => {
+      const flicking = await createFlicking(createLazyPanels(5));
+
+      flicking.addPlugins(new LazyLoad({ preload: 0, threshold: 1000 }));
+
+      const loaded = flicking.panels.map(panel => isLoaded(panel.element));
+
+      expect(loaded).to.deep.equal([true, true, true, false, false]);
+    });
+
+    it("should load the panels at the other end when circular is enabled", async () => {
+      const flicking = await createFlicking(createLazyPanels(5), { circular: true });
+
+      flicking.addPlugins(new LazyLoad({ preload: 1 }));
+
+      expect(isLoaded(flicking.panels[4].element)).to.be.true;
+    });
+
+    it("should change data-srcset of the source elements inside picture", async () => {
+      const flicking = await createFlicking(createLazyPanels(3, `<picture><source data-srcset="${imageSrc}" /><img data-src="${imageSrc}" /></picture>`));
+
+      flicking.addPlugins(new LazyLoad());
+
+      expect(flicking.panels[0].element.querySelector("source").getAttribute("srcset")).to.equal(imageSrc);
+      expect(flicking.panels[0].element.querySelector("img").getAttribute("src")).to.equal(imageSrc);
+    });
+
+    it("should add the loadedClass and resize the panels when the media is loaded", async () => {
+      const flicking = await createFlicking(createLazyPanels(3));
+      const resizeSpy = sinon.spy(flicking, "resize");
+      const panelResizeSpies = flicking.panels.map(panel => sinon.spy(panel, "resize"));
+
+      flicking.addPlugins(new LazyLoad({ loadedClass: "loaded" }));
+
+      const imgEl = flicking.panels[0].element.querySelector("img");
+
+      imgEl.dispatchEvent(new Event("load"));
+      flicking.panels[1].element.querySelector("img").dispatchEvent(new Event("load"));
+      tick(100);
+
+      expect(imgEl.classList.contains("loaded")).to.be.true;
+      expect(resizeSpy.called).to.be.false;
+      expect(panelResizeSpies.map(spy => spy.callCount)).to.deep.equal([1, 1, 0]);
+    });
+
+    it("should move the panels after the resized panel by its size difference", async () => {
+      const flicking = await createFlicking(createLazyPanels(3));
+
+      flicking.addPlugins(new LazyLoad());
+
+      const firstPanel = flicking.panels[0];
+      const prevPosition = flicking.panels[1].position;
+
+      firstPanel.element.style.width = "500px";
+      firstPanel.element.querySelector("img").dispatchEvent(new Event("load"));
+      tick(100);
+
+      expect(flicking.panels[1].position).to.equal(prevPosition - 500);
+      expect(flicking.panels[2].position).to.equal(flicking.panels[1].range.max + flicking.panels[2].margin.prev + flicking.panels[1].margin.next);
+    });
+
+    it("should not resize the panels when resizeOnLoad is false", async () => {
+      const flicking = await createFlicking(createLazyPanels(3));
+      const panelResizeSpy = sinon.spy(flicking.panels[0], "resize");
+
+      flicking.addPlugins(new LazyLoad({ resizeOnLoad: false }));
+      flicking.panels[0].element.querySelector("img").dispatchEvent(new Event("load"));
+      tick(100);
+
+      expect(panelResizeSpy.called).to.be.false;
+    });
+  });
+
+  describe("Methods", () => {
+    it("should load the panel immediately when load() is called", async () => {
+      const flicking = await createFlicking(createLazyPanels(5));
+      const lazyLoad = new LazyLoad({ preload: 0 });
+
+      flicking.addPlugins(lazyLoad);
+      lazyLoad.load(flicking.panels[4]);
+
+      expect(isLoaded(flicking.panels[4].element)).to.be.true;
+      expect(lazyLoad.loadedPanels).to.include(flicking.panels[4]);
+    });
+
+    it("should not load panels after destroy", async () => {
+      const flicking = await createFlicking(createLazyPanels(5), { duration: 0 });
+      const lazyLoad = new LazyLoad({ preload: 0 });
+
+      flicking.addPlugins(lazyLoad);
+      flicking.removePlugins(lazyLoad);
+      await flicking.moveTo(4);
+
+      expect(isLoaded(flicking.panels[4].element)).to.be.false;
+    });
+
+    it("should remove the handlers waiting for the media on destroy", async () => {
+      const flicking = await createFlicking(createLazyPanels(3));
+      const lazyLoad = new LazyLoad({ loadedClass: "loaded" });
+
+      flicking.addPlugins(lazyLoad);
+      flicking.removePlugins(lazyLoad);
+
+      const imgEl = flicking.panels[0].element.querySelector("img");
+
+      imgEl.dispatchEvent(new Event("load"));
+
+      expect(imgEl.classList.contains("loaded")).to.be.false;
+    });
+
+    it("should check only the panels near the visible panels on update", async () => {
+      const flicking = await createFlicking(createLazyPanels(20));
+      const lazyLoad = new LazyLoad({ preload: 0, threshold: 1 });
+
+      flicking.addPlugins(lazyLoad);
+
+      const thresholdSpy = sinon.spy(lazyLoad as any, "_isInThreshold");
+
+      lazyLoad.update();
+
+      expect(thresholdSpy.callCount).to.be.at.most(2);
+    });
+  });
+
+  describe("Events", () => {
+    it("should load the panels near the new position when moved", async () => {
+      const flicking = await createFlicking(createLazyPanels(5), { duration: 0 });
+
+      flicking.addPlugins(new LazyLoad({ preload: 0 }));
+      await flicking.moveTo(4);
+
+      expect(isLoaded(flicking.panels[4].element)).to.be.true;
+    });
+
+    it("should load the panels inserted near the visible range", async () => {
+      const flicking = await createFlicking(createLazyPanels(1));
+      const panelEl = El.panel("100%").el;
+
+      panelEl.innerHTML = `<img data-src="${imageSrc}" />`;
+      flicking.addPlugins(new LazyLoad({ preload: 1 }));
+      flicking.append(panelEl);
+
+      expect(isLoaded(panelEl)).to.be.true;
+    });
+  });
+});
@@ -0,0 +1,133 @@
+import Pagination, { PAGINATION_TYPE } from "~/plugin/Pagination";
+import { ALIGN } from "~/const/external";
+
+import El from "../helper/El";
+import { createFlicking, createSandbox, range } from "../helper/test-util";
+
+describe("Pagination", () => {
+  describe("Options", () => {
+    it("should render the pagination inside the viewport element by default", async () => {
+      const flicking = await createFlicking(El.DEFAULT_HORIZONTAL);
+      const pagination = new Pagination();
+
+      flicking.addPlugins(pagination);
+
+      expect(pagination.wrapper.parentElement).to.equal(flicking.element);
+      expect(pagination.wrapper.classList.contains("flicking-pagination")).to.be.true;
+    });
+
+    it("should render the pagination inside the given parentEl", async () => {
+      const flicking = await createFlicking(El.DEFAULT_HORIZONTAL);
+      const parentEl = createSandbox("pagination-parent");
+      const pagination = new Pagination({ parentEl });
+
+      flicking.addPlugins(pagination);
+
+      expect(pagination.wrapper).to.equal(parentEl);
+      expect(parentEl.querySelectorAll(".flicking-pagination-bullet").length).to.equal(3);
+    });
+
+    it("should render bullets for each anchor when type is bullet", async () => {
+      const flicking = await createFlicking(El.DEFAULT_HORIZONTAL);
+      const pagination = new Pagination({ type: PAGINATION_TYPE.BULLET });
+
+      flicking.addPlugins(pagination);
+      const bullets = pagination.wrapper.querySelectorAll(".flicking-pagination-bullet");
+
+      expect(bullets.length).to.equal(flicking.camera.anchorPoints.length);
+      expect(bullets[0].classList.contains("flicking-pagination-bullet-active")).to.be.true;
+    });
+
+    it("should render the current and total count when type is fraction", async () => {
+      const flicking = await createFlicking(El.DEFAULT_HORIZONTAL, { duration: 0 });
+      const pagination = new Pagination({ type: PAGINATION_TYPE.FRACTION });
+
+      flicking.addPlugins(pagination);
+      expect(pagination.wrapper.textContent).to.equal("1 / 3");
+
+      await flicking.moveTo(2);
+      expect(pagination.wrapper.textContent).to.equal("3 / 3");
+    });
+
+    it("should render the progress of the camera when type is scroll", async () => {
+      const flicking = await createFlicking(El.DEFAULT_HORIZONTAL, { duration: 0 });
+      const pagination = new Pagination({ type: PAGINATION_TYPE.SCROLL });
+
+      flicking.addPlugins(pagination);
+      const bar = pagination.wrapper.querySelector<HTMLElement>(".flicking-pagination-scroll-bar");
+
+      expect(bar.style.width).to.equal("0%");
+
+      await flicking.moveTo(2);
+      expect(bar.style.width).to.equal("100%");
+    });
+
+    it("should render bullets as many as the anchors when bound is enabled", async () => {
+      const flicking = await createFlicking(
+        El.viewport("1000px").add(El.camera().add(...range(5).map(() => El.panel("300px")))),
+        { align: ALIGN.PREV, bound: true }
+      );
+      const pagination = new Pagination();
+
+      flicking.addPlugins(pagination);
+      const bullets = pagination.wrapper.querySelectorAll(".flicking-pagination-bullet");
+
+      expect(bullets.length).to.equal(flicking.camera.anchorPoints.length);
+      expect(bullets.length).to.be.lessThan(flicking.panelCount);
+    });
+  });
+
+  describe("Methods", () => {
+    it("should remove the pagination element on destroy", async () => {
+      const flicking = await createFlicking(El.DEFAULT_HORIZONTAL);
+      const pagination = new Pagination();
+
+      flicking.addPlugins(pagination);
+      const wrapper = pagination.wrapper;
+
+      flicking.removePlugins(pagination);
+
+      expect(wrapper.parentElement).to.be.null;
+      expect(pagination.wrapper).to.be.null;
+    });
+  });
+
+  describe("Events", () => {
+    it("should change the active bullet when the panel is changed", async () => {
+      const flicking = await createFlicking(El.DEFAULT_HORIZONTAL, { duration: 0 });
+      const pagination = new Pagination();
+
+      flicking.addPlugins(pagination);
+      await flicking.moveTo(1);
+      const bullets = pagination.wrapper.querySelectorAll(".flicking-pagination-bullet");
+
+      expect(bullets[0].classList.contains("flicking-pagination-bullet-active")).to.be.false;
+      expect(bullets[1].classList.contains("flicking-pagination-bullet-active")).to.be.true;
+    });
+
+    it("should move to the panel of the bullet clicked", async () => {
+      const flicking = await createFlicking(El.DEFAULT_HORIZONTAL, { duration: 0 });
+      const pagination = new Pagination();
+
+      flicking.addPlugins(pagination);
+      const bullets = pagination.wrapper.querySelectorAll<HTMLElement>(".flicking-pagination-bullet");
+
+      bullets[2].click();
+
+      expect(flicking.index).to.equal(2);
+    });
+
+    it("should update bullets when panels are added or removed", async () => {
+      const flicking = await createFlicking(El.DEFAULT_HORIZONTAL);
+      const pagination = new Pagination();
+
+      flicking.addPlugins(pagination);
+
+      flicking.append(El.panel().setWidth("100%").el);
+      expect(pagination.wrapper.querySelectorAll(".flicking-pagination-bullet").length).to.equal(4);
+
+      flicking.renderer.batchRemove({ index: 0, deleteCount: 2 });
+      expect(pagination.wrapper.querySelectorAll(".flicking-pagination-bullet").length).to.equal(2);
+    });
+  });
+});
@@ -0,0 +1,154 @@
+import Flicking from "~/Flicking";
+import Persist, { PersistStorage } from "~/plugin/Persist";
+import { EVENTS, MOVE_TYPE } from "~/const/external";
+
+import El from "../helper/El";
+import { createFlicking, range } from "../helper/test-util";
+
+const createStorage = (): PersistStorage & { items: Record<string, string> } => {
+  const items: Record<string, string> = {};
+
+  return {
+    items,
+    getItem: (key: string) => key in items ? items[key] : null,
+    setItem: (key: string, value: string) => { items[key] = value; },
+    removeItem: (key: string) => { delete items[key]; }
+  };
+};
+
+const createPanels = (count: number) => El.viewport("1000px").add(
+  El.camera().add(...range(count).map(() => El.panel("300px", "300px")))
+);
+
+const initWithPlugin = async (el: El, plugin: Persist, options: ConstructorParameters<typeof Flicking>[1] = {}) => {
+  const flicking = await createFlicking(el, { autoInit: false, duration: 0, ...options });
+
+  flicking.addPlugins(plugin);
+  await flicking.init();
+
+  return flicking;
+};
+
+describe("Persist", () => {
+  afterEach(() => {
+    window.sessionStorage.removeItem("flicking-persist:flicking");
+  });
+
+  it("should save the status to the sessionStorage by default", async () => {
+    const flicking = await createFlicking(El.DEFAULT_HORIZONTAL, { duration: 0 });
+
+    flicking.addPlugins(new Persist());
+    await flicking.moveTo(2);
+
+    const saved = JSON.parse(window.sessionStorage.getItem("flicking-persist:flicking")!);
+
+    expect(saved.index).to.equal(2);
+  });
+
+  it("should save the status with the key including the id", async () => {
+    const storage = createStorage();
+    const flicking = await createFlicking(El.DEFAULT_HORIZONTAL, { duration: 0 });
+
+    flicking.addPlugins(new Persist({ id: "products", storage }));
+    await flicking.moveTo(1);
+
+    expect(JSON.parse(storage.items["flicking-persist:products"]).index).to.equal(1);
+  });
+
+  it("should save the status on pagehide", async () => {
+    const storage = createStorage();
+    const flicking = await createFlicking(El.DEFAULT_HORIZONTAL, { moveType: MOVE_TYPE.FREE_SCROLL });
+
+    flicking.addPlugins(new Persist({ storage }));
+    void flicking.camera.lookAt(150);
+    window.dispatchEvent(new Event("pagehide"));
+
+    expect(JSON.parse(storage.items["flicking-persist:flicking"]).position.absolute).to.equal(150);
+  });
+
+  it("should restore the saved status before the ready event", async () => {
+    const storage = createStorage();
+    const prevFlicking = await createFlicking(createPanels(6), { duration: 0 });
+
+    prevFlicking.addPlugins(new Persist({ storage }));
+    await prevFlicking.moveTo(4);
+    const prevPosition = prevFlicking.camera.position;
+
+    const flicking = await createFlicking(createPanels(6), { autoInit: false, duration: 0 });
+    const readySpy = sinon.spy(() => {
+      expect(flicking.index).to.equal(4);
+    });
+
+    flicking.on(EVENTS.READY, readySpy);
+    flicking.addPlugins(new Persist({ storage }));
+    await flicking.init();
+
+    expect(readySpy.calledOnce).to.be.true;
+    expect(flicking.index).to.equal(4);
+    expect(flicking.camera.position).to.equal(prevPosition);
+  });
+
+  it("should clamp the index when the panel count has decreased since the save", async () => {
+    const storage = createStorage();
+    const prevFlicking = await createFlicking(createPanels(6), { duration: 0 });
+
+    prevFlicking.addPlugins(new Persist({ storage }));
+    await prevFlicking.moveTo(5);
+
+    const flicking = await initWithPlugin(createPanels(3), new Persist({ storage }));
+
+    expect(flicking.index).to.equal(2);
+  });
+
+  it("should restore the panels with the HTML when includePanelHTML is true", async () => {
+    const storage = createStorage();
+    const prevFlicking = await createFlicking(createPanels(3), { duration: 0 });
+
+    prevFlicking.addPlugins(new Persist({ storage, includePanelHTML: true }));
+    prevFlicking.append("<div class=\"flicking-panel appended\"></div>");
+    await prevFlicking.moveTo(3);
+
+    const flicking = await initWithPlugin(createPanels(3), new Persist({ storage, includePanelHTML: true }));
+
+    expect(flicking.panelCount).to.equal(4);
+    expect(flicking.index).to.equal(3);
+    expect(flicking.panels[3].element.classList.contains("appended")).to.be.true;
+  });
+
+  it("should keep the current panels when the panel HTML can't be restored", async () => {
+    const storage = createStorage();
+
+    storage.setItem("flicking-persist:flicking", JSON.stringify({
+      version: 2,
+      index: 3,
+      panels: range(4).map(index => ({ index, html: "<div class=\"flicking-panel\"></div>" }))
+    }));
+
+    const flicking = await initWithPlugin(createPanels(3), new Persist({ storage }));
+
+    expect(flicking.panelCount).to.equal(3);
+    expect(flicking.index).to.equal(2);
+  });
+
+  it("should remove the saved status if it can't be restored", async () => {
+    const storage = createStorage();
+
+    storage.setItem("flicking-persist:flicking", "{ not a json");
+    await initWithPlugin(El.DEFAULT_HORIZONTAL, new Persist({ storage }));
+
+    expect(storage.getItem("flicking-persist:flicking")).to.be.null;
+  });
+
+  it("should stop saving the status after it's destroyed", async () => {
+    const storage = createStorage();
+    const flicking = await createFlicking(El.DEFAULT_HORIZONTAL, { duration: 0 });
+    const plugin = new Persist({ storage });
+
+    flicking.addPlugins(plugin);
+    flicking.removePlugins(plugin);
+    plugin.clear();
+    await flicking.moveTo(2);
+
+    expect(storage.getItem("flicking-persist:flicking")).to.be.null;
+  });
+});
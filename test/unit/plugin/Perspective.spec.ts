@@ -0,0 +1,91 @@
+import Perspective, { PERSPECTIVE_TYPE } from "~/plugin/Perspective";
+
+import El from "../helper/El";
+import { createFlicking, range } from "../helper/test-util";
+
+const createFivePanels = () => El.viewport("1000px").add(El.camera().add(...range(5).map(() => El.panel("100%"))));
+
+describe("Perspective", () => {
+  describe("Options", () => {
+    it("should apply the perspective to the camera element", async () => {
+      const flicking = await createFlicking(El.DEFAULT_HORIZONTAL);
+
+      flicking.addPlugins(new Perspective({ perspective: 500 }));
+
+      expect(flicking.camera.element.style.perspective).to.equal("500px");
+    });
+
+    it("should rotate the panels next to the current panel when type is coverflow", async () => {
+      const flicking = await createFlicking(createFivePanels(), { defaultIndex: 2 });
+
+      flicking.addPlugins(new Perspective({ type: PERSPECTIVE_TYPE.COVERFLOW, rotate: 45, depth: 100 }));
+      await flicking.camera.lookAt((flicking.panels[2].position + flicking.panels[3].position) / 2);
+
+      expect(flicking.panels[2].element.style.transform).to.equal("translateZ(-50px) rotateY(22.5deg)");
+      expect(flicking.panels[3].element.style.transform).to.equal("translateZ(-50px) rotateY(-22.5deg)");
+    });
+
+    it("should rotate the panels around the center of the cube when type is cube", async () => {
+      const flicking = await createFlicking(createFivePanels(), { defaultIndex: 2 });
+
+      flicking.addPlugins(new Perspective({ type: PERSPECTIVE_TYPE.CUBE }));
+
+      expect(flicking.panels[2].element.style.transform).to.contain("rotateY(0deg)");
+      expect(flicking.panels[3].element.style.transform).to.contain("rotateY(90deg)");
+      expect(flicking.panels[3].element.style.visibility).to.equal("hidden");
+    });
+
+    it("should place the panels around the ring when type is carousel", async () => {
+      const flicking = await createFlicking(createFivePanels(), { defaultIndex: 2 });
+
+      flicking.addPlugins(new Perspective({ type: PERSPECTIVE_TYPE.CAROUSEL }));
+
+      expect(flicking.panels[3].element.style.transform).to.contain("rotateY(72deg)");
+      expect(flicking.panels[1].element.style.transform).to.contain("rotateY(-72deg)");
+    });
+
+    it("should use rotateX when horizontal is false", async () => {
+      const flicking = await createFlicking(El.DEFAULT_VERTICAL);
+
+      flicking.addPlugins(new Perspective({ type: PERSPECTIVE_TYPE.CUBE }));
+
+      expect(flicking.panels[0].element.style.transform).to.contain("rotateX");
+    });
+  });
+
+  describe("Methods", () => {
+    it("should put the panel closer to the camera on top", async () => {
+      const flicking = await createFlicking(createFivePanels(), { defaultIndex: 2 });
+
+      flicking.addPlugins(new Perspective());
+
+      const zIndexes = flicking.visiblePanels.map(panel => parseFloat(panel.element.style.zIndex));
+      const currentZIndex = parseFloat(flicking.currentPanel.element.style.zIndex);
+
+      expect(zIndexes.every(zIndex => zIndex <= currentZIndex)).to.be.true;
+    });
+
+    it("should use the offset of the toggled panels when circular is enabled", async () => {
+      const flicking = await createFlicking(createFivePanels(), { circular: true });
+
+      flicking.addPlugins(new Perspective({ type: PERSPECTIVE_TYPE.COVERFLOW, rotate: 45 }));
+      await flicking.camera.lookAt(flicking.panels[1].position);
+      await flicking.camera.lookAt(flicking.panels[0].position);
+
+      // Last panel is toggled to the prev direction of the first panel
+      expect(flicking.panels[4].element.style.transform).to.contain("rotateY(45deg)");
+    });
+
+    it("should remove all styles on destroy", async () => {
+      const flicking = await createFlicking(El.DEFAULT_HORIZONTAL);
+      const perspective = new Perspective();
+
+      flicking.addPlugins(perspective);
+      flicking.removePlugins(perspective);
+
+      expect(flicking.camera.element.style.perspective).to.equal("");
+      expect(flicking.panels.every(panel => panel.element.style.transform === "")).to.be.true;
+      expect(flicking.panels.every(panel => panel.element.style.zIndex === "")).to.be.true;
+    });
+  });
+});
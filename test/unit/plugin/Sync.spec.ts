@@ -0,0 +1,185 @@
+import { ComponentEvent } from "@egjs/component";
+
+import Sync, { SYNC_TYPE } from "~/plugin/Sync";
+import { EVENTS } from "~/const/external";
+
+import El from "../helper/El";
+import { createFlicking, flushPromises, range } from "../helper/test-util";
+
+const createPanels = (count: number) => El.viewport("1000px").add(El.camera().add(...range(count).map(() => El.panel("100%"))));
+
+describe("Sync", () => {
+  describe("Options", () => {
+    it("should link the Flicking the plugin is added to even if it's not included", async () => {
+      const main = await createFlicking(El.DEFAULT_HORIZONTAL, { duration: 0 });
+      const sub = await createFlicking(El.DEFAULT_HORIZONTAL, { duration: 0 });
+
+      main.addPlugins(new Sync({
+        type: SYNC_TYPE.INDEX,
+        synchronizedFlickingOptions: [{ flicking: sub }]
+      }));
+
+      await main.moveTo(2);
+
+      await flushPromises();
+
+      expect(sub.index).to.equal(2);
+    });
+
+    it("should move the other Flicking when the index is changed if type is index", async () => {
+      const main = await createFlicking(El.DEFAULT_HORIZONTAL, { duration: 0 });
+      const sub = await createFlicking(El.DEFAULT_HORIZONTAL, { duration: 0 });
+
+      main.addPlugins(new Sync({
+        type: SYNC_TYPE.INDEX,
+        synchronizedFlickingOptions: [{ flicking: main }, { flicking: sub }]
+      }));
+
+      await sub.moveTo(1);
+
+      await flushPromises();
+
+      expect(main.index).to.equal(1);
+    });
+
+    it("should map the index by ratio when the panel counts are different", async () => {
+      const main = await createFlicking(createPanels(3), { duration: 0 });
+      const sub = await createFlicking(createPanels(5), { duration: 0 });
+
+      main.addPlugins(new Sync({
+        type: SYNC_TYPE.INDEX,
+        synchronizedFlickingOptions: [{ flicking: main }, { flicking: sub }]
+      }));
+
+      await main.moveTo(1);
+
+      await flushPromises();
+      expect(sub.index).to.equal(2);
+
+      await main.moveTo(2);
+
+      await flushPromises();
+      expect(sub.index).to.equal(4);
+    });
+
+    it("should not move the others when isSlidable is false", async () => {
+      const main = await createFlicking(El.DEFAULT_HORIZONTAL, { duration: 0 });
+      const sub = await createFlicking(El.DEFAULT_HORIZONTAL, { duration: 0 });
+
+      main.addPlugins(new Sync({
+        type: SYNC_TYPE.INDEX,
+        synchronizedFlickingOptions: [{ flicking: main }, { flicking: sub, isSlidable: false }]
+      }));
+
+      await sub.moveTo(1);
+
+      await flushPromises();
+
+      expect(main.index).to.equal(0);
+    });
+
+    it("should move all Flicking to the selected panel when isClickable is true", async () => {
+      const main = await createFlicking(createPanels(5), { duration: 0 });
+      const thumbnails = await createFlicking(createPanels(5), { duration: 0 });
+
+      main.addPlugins(new Sync({
+        type: SYNC_TYPE.INDEX,
+        synchronizedFlickingOptions: [{ flicking: main }, { flicking: thumbnails, isClickable: true }]
+      }));
+
+      thumbnails.trigger(new ComponentEvent(EVENTS.SELECT, {
+        index: 3,
+        panel: thumbnails.getPanel(3),
+        direction: null
+      }) as any);
+      await flushPromises();
+
+      expect(main.index).to.equal(3);
+      expect(thumbnails.index).to.equal(3);
+    });
+
+    it("should add the activeClass to the active panel", async () => {
+      const main = await createFlicking(El.DEFAULT_HORIZONTAL, { duration: 0 });
+      const thumbnails = await createFlicking(El.DEFAULT_HORIZONTAL, { duration: 0 });
+
+      main.addPlugins(new Sync({
+        type: SYNC_TYPE.INDEX,
+        synchronizedFlickingOptions: [{ flicking: main }, { flicking: thumbnails, activeClass: "active" }]
+      }));
+
+      expect(thumbnails.panels[0].element.classList.contains("active")).to.be.true;
+
+      await main.moveTo(2);
+
+      await flushPromises();
+
+      expect(thumbnails.panels[0].element.classList.contains("active")).to.be.false;
+      expect(thumbnails.panels[2].element.classList.contains("active")).to.be.true;
+    });
+
+    it("should skip the panels which aren't rendered by the VirtualRenderer", async () => {
+      const main = await createFlicking(El.DEFAULT_HORIZONTAL, { duration: 0 });
+      const thumbnails = await createFlicking(El.viewport("1000px").add(El.camera()), {
+        duration: 0,
+        virtual: { data: range(100), panelSize: 200, renderPanel: () => void 0 }
+      });
+      const sync = new Sync({
+        type: SYNC_TYPE.INDEX,
+        synchronizedFlickingOptions: [{ flicking: main }, { flicking: thumbnails, activeClass: "active" }]
+      });
+
+      expect(() => main.addPlugins(sync)).not.to.throw();
+      expect(thumbnails.panels[0].element.classList.contains("active")).to.be.true;
+      expect(() => main.removePlugins(sync)).not.to.throw();
+    });
+
+    it("should mirror the camera progress while moving if type is camera", async () => {
+      const main = await createFlicking(createPanels(3), { duration: 0 });
+      const sub = await createFlicking(createPanels(5), { duration: 0 });
+
+      main.addPlugins(new Sync({
+        type: SYNC_TYPE.CAMERA,
+        synchronizedFlickingOptions: [{ flicking: main }, { flicking: sub }]
+      }));
+
+      await main.camera.lookAt((main.panels[0].position + main.panels[1].position) / 2);
+      main.trigger(new ComponentEvent(EVENTS.MOVE) as any);
+
+      expect(sub.camera.progress).to.equal(1);
+    });
+
+    it("should update the input of the others to the mirrored position if type is camera", async () => {
+      const main = await createFlicking(createPanels(3), { duration: 0 });
+      const sub = await createFlicking(createPanels(5), { duration: 0 });
+
+      main.addPlugins(new Sync({
+        type: SYNC_TYPE.CAMERA,
+        synchronizedFlickingOptions: [{ flicking: main }, { flicking: sub }]
+      }));
+
+      await main.camera.lookAt(main.panels[1].position);
+      main.trigger(new ComponentEvent(EVENTS.MOVE) as any);
+
+      expect(sub.control.controller.position).to.equal(sub.camera.position);
+    });
+  });
+
+  describe("Methods", () => {
+    it("should not move the others after destroy", async () => {
+      const main = await createFlicking(El.DEFAULT_HORIZONTAL, { duration: 0 });
+      const sub = await createFlicking(El.DEFAULT_HORIZONTAL, { duration: 0 });
+      const sync = new Sync({
+        type: SYNC_TYPE.INDEX,
+        synchronizedFlickingOptions: [{ flicking: main }, { flicking: sub, activeClass: "active" }]
+      });
+
+      main.addPlugins(sync);
+      main.removePlugins(sync);
+      await main.moveTo(1);
+      await flushPromises();
+
+      expect(sub.index).to.equal(0);
+      expect(sub.panels.some(panel => panel.element.classList.contains("active"))).to.be.false;
+    });
+  });
+});
@@ -1,4 +1,4 @@
-import { ALIGN } from "~/const/external";
+import { ALIGN, EVENTS } from "~/const/external";
 import Panel, { PanelOptions } from "~/core/panel/Panel";
 import ElementPanel from "~/core/panel/ElementPanel";
 import Renderer from "~/renderer/Renderer";
@@ -90,6 +90,21 @@ describe("Renderer", () => {
         expect(prevSizes.every(size => size === 0)).to.be.true;
         expect(newSizes.every(size => size !== 0)).to.be.true;
       });
+
+      it("should apply panel sizes calculated from the viewport size when panelsPerView is set", async () => {
+        const flicking = await createFlicking(El.DEFAULT_HORIZONTAL, { panelsPerView: 2.5, gap: 10 });
+        const renderer = new RendererImpl().init(flicking);
+        const expectedSize = (flicking.viewport.width - 10 * 1.5) / 2.5;
+
+        renderer.updatePanelSize();
+
+        renderer.panels.forEach(panel => {
+          expect(panel.size).to.equal(expectedSize);
+          expect(panel.margin).to.deep.equal({ prev: 0, next: 10 });
+          expect(panel.element.style.width).to.equal(`${expectedSize}px`);
+        });
+        expect(renderer.panels[1].position - renderer.panels[0].position).to.be.closeTo(expectedSize + 10, 0.001);
+      });
     });
 
     describe("batchInsert", () => {
@@ -129,6 +144,61 @@ describe("Renderer", () => {
         // Panel 0 is not pushed
         expect(notPushed.index).to.equal(0);
       });
+
+      it("should give the panels inserted together their own indexes and positions", async () => {
+        const flicking = await createFlicking(El.DEFAULT_HORIZONTAL);
+        const renderer = new RendererImpl().init(flicking);
+        const elements = range(3).map(() => El.panel().el);
+
+        const inserted = renderer.batchInsert({ index: 1, elements });
+
+        expect(inserted.map(panel => panel.index)).to.deep.equal([1, 2, 3]);
+        expect(renderer.panels.map(panel => panel.index)).to.deep.equal(range(renderer.panelCount));
+        inserted.forEach(panel => {
+          const prevPanel = renderer.panels[panel.index - 1];
+
+          expect(panel.position).to.equal(prevPanel.range.max + prevPanel.margin.next + panel.margin.prev);
+        });
+      });
+
+      it("should trigger panelChange event with the panels added", async () => {
+        const flicking = await createFlicking(El.DEFAULT_HORIZONTAL);
+        const renderer = new RendererImpl().init(flicking);
+        const panelChangeSpy = sinon.spy();
+
+        flicking.on(EVENTS.PANEL_CHANGE, panelChangeSpy);
+        const added = renderer.batchInsert({ index: 1, elements: [El.panel().el] });
+
+        expect(panelChangeSpy.calledOnce).to.be.true;
+        expect(panelChangeSpy.firstCall.args[0].added).to.deep.equal(added);
+        expect(panelChangeSpy.firstCall.args[0].removed).to.deep.equal([]);
+      });
+    });
+
+    describe("batchRemove", () => {
+      it("should trigger panelChange event with the panels removed", async () => {
+        const flicking = await createFlicking(El.DEFAULT_HORIZONTAL);
+        const renderer = new RendererImpl().init(flicking);
+        const panelChangeSpy = sinon.spy();
+
+        flicking.on(EVENTS.PANEL_CHANGE, panelChangeSpy);
+        const removed = renderer.batchRemove({ index: 1, deleteCount: 1 });
+
+        expect(panelChangeSpy.calledOnce).to.be.true;
+        expect(panelChangeSpy.firstCall.args[0].added).to.deep.equal([]);
+        expect(panelChangeSpy.firstCall.args[0].removed).to.deep.equal(removed);
+      });
+
+      it("should not trigger panelChange event when there're no panels removed", async () => {
+        const flicking = await createFlicking(El.DEFAULT_HORIZONTAL);
+        const renderer = new RendererImpl().init(flicking);
+        const panelChangeSpy = sinon.spy();
+
+        flicking.on(EVENTS.PANEL_CHANGE, panelChangeSpy);
+        renderer.batchRemove({ index: 1, deleteCount: 0 });
+
+        expect(panelChangeSpy.called).to.be.false;
+      });
     });
   });
 });
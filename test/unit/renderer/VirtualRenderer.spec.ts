@@ -0,0 +1,149 @@
+import VirtualRenderer from "~/renderer/VirtualRenderer";
+import VirtualPanel from "~/core/panel/VirtualPanel";
+import Flicking from "~/Flicking";
+import FlickingError from "~/core/FlickingError";
+import * as ERROR from "~/const/error";
+import { ALIGN } from "~/const/external";
+import El from "helper/El";
+import { createFlicking, range } from "helper/test-util";
+
+const createVirtualFlicking = (options: Partial<{ dataCount: number; circular: boolean; renderPanel: (el: HTMLElement, index: number, data: any) => void }> = {}) => {
+  const { dataCount = 100, circular = false, renderPanel = (el: HTMLElement, index: number) => { el.innerHTML = `${index}`; } } = options;
+
+  return createFlicking(El.viewport("1000px").add(El.camera()), {
+    align: ALIGN.PREV,
+    duration: 0,
+    circular,
+    virtual: {
+      data: range(dataCount),
+      panelSize: 200,
+      renderPanel
+    }
+  });
+};
+
+describe("VirtualRenderer", () => {
+  describe("Options", () => {
+    it("should use VirtualRenderer when the virtual option is given", async () => {
+      const flicking = await createVirtualFlicking();
+
+      expect(flicking.renderer).to.be.an.instanceOf(VirtualRenderer);
+      expect(flicking.panels.every(panel => panel instanceof VirtualPanel)).to.be.true;
+    });
+
+    it("should throw WRONG_OPTION when panelSize is not given without panelsPerView", () => {
+      expect(() => new Flicking(El.viewport("1000px").add(El.camera()).el, { virtual: { data: [0, 1, 2] } }))
+        .to.throw(FlickingError)
+        .with.property("code", ERROR.CODE.WRONG_OPTION);
+    });
+
+    it("should size panels from the viewport when panelsPerView is set without panelSize", async () => {
+      const flicking = await createFlicking(El.viewport("1000px").add(El.camera()), {
+        panelsPerView: 4,
+        virtual: { data: range(10) }
+      });
+
+      expect(flicking.panels[1].size).to.equal(250);
+      expect(flicking.panels[1].position - flicking.panels[0].position).to.equal(250);
+    });
+
+    it("should create panels as many as the data given", async () => {
+      const flicking = await createVirtualFlicking();
+
+      expect(flicking.panelCount).to.equal(100);
+      expect(flicking.panels[10]).to.have.property("data", 10);
+      expect(flicking.panels[10].size).to.equal(200);
+      expect(flicking.panels[10].position).to.equal(2000);
+    });
+
+    it("should render elements only for the visible panels", async () => {
+      const flicking = await createVirtualFlicking();
+      const cameraEl = flicking.camera.element;
+
+      expect(cameraEl.children.length).to.equal(flicking.visiblePanels.length);
+      expect(cameraEl.children.length).to.be.lessThan(flicking.panelCount);
+      expect(flicking.panels[50].rendered).to.be.false;
+      expect(flicking.panels[50].element).to.be.null;
+    });
+
+    it("should call renderPanel with the element, index and data of the panel", async () => {
+      const renderSpy = sinon.spy();
+      const flicking = await createVirtualFlicking({ renderPanel: renderSpy });
+      const firstPanel = flicking.panels[0];
+
+      expect(renderSpy.calledWith(firstPanel.element, 0, 0)).to.be.true;
+      expect(renderSpy.callCount).to.equal(flicking.visiblePanels.length);
+    });
+  });
+
+  describe("Methods", () => {
+    it("should recycle elements when the camera moves", async () => {
+      const flicking = await createVirtualFlicking();
+      const prevElements = flicking.visiblePanels.map(panel => panel.element);
+
+      await flicking.moveTo(50);
+
+      const visiblePanels = flicking.visiblePanels;
+
+      expect(flicking.camera.element.children.length).to.equal(visiblePanels.length);
+      expect(visiblePanels.every(panel => prevElements.indexOf(panel.element) >= 0)).to.be.true;
+      expect(visiblePanels[0].element.innerHTML).to.equal(`${visiblePanels[0].index}`);
+      expect(flicking.renderer).to.have.property("elementPool").with.lengthOf(prevElements.length - visiblePanels.length);
+    });
+
+    it("should place the element of the panel at the position of the panel", async () => {
+      const flicking = await createVirtualFlicking();
+
+      await flicking.moveTo(50);
+
+      const viewportLeft = flicking.element.getBoundingClientRect().left;
+      const panelLeft = flicking.panels[50].element.getBoundingClientRect().left;
+
+      expect(panelLeft - viewportLeft).to.be.closeTo(0, 1);
+    });
+
+    it("should render the elements in order of their position on circular mode", async () => {
+      const flicking = await createVirtualFlicking({ dataCount: 10, circular: true });
+
+      await flicking.moveTo(0);
+
+      const children = [].slice.call(flicking.camera.element.children) as HTMLElement[];
+      const panelsByOrder = [...flicking.visiblePanels]
+        .sort((a, b) => (a.position + a.offset) - (b.position + b.offset));
+
+      expect(children).to.deep.equal(panelsByOrder.map(panel => panel.element));
+    });
+
+    it("should create panels from the data given to batchInsert", async () => {
+      const flicking = await createVirtualFlicking({ dataCount: 3 });
+
+      const added = flicking.renderer.batchInsert({ index: 0, elements: ["a", "b"] });
+
+      expect(flicking.panelCount).to.equal(5);
+      expect(added[0]).to.have.property("data", "a");
+      expect(added[1]).to.have.property("data", "b");
+      expect(added.map(panel => panel.position)).to.deep.equal([0, 200]);
+      expect(flicking.panels[2].position).to.equal(400);
+    });
+
+    it("should release elements of the removed panels to the pool", async () => {
+      const flicking = await createVirtualFlicking({ dataCount: 3 });
+      const renderer = flicking.renderer;
+      const removedEl = flicking.panels[2].element;
+
+      renderer.batchRemove({ index: 2, deleteCount: 1 });
+
+      expect(removedEl.parentElement).to.be.null;
+      expect(renderer).to.have.property("elementPool").that.includes(removedEl);
+    });
+
+    it("should remove all elements it created on destroy", async () => {
+      const flicking = await createVirtualFlicking();
+      const cameraEl = flicking.camera.element;
+
+      flicking.destroy();
+
+      expect(cameraEl.children.length).to.equal(0);
+    });
+  });
+});